@@ -0,0 +1,109 @@
+import { Types } from "mongoose";
+import { ApiKey, ApiKeyScope } from "../models/ApiKey";
+import User from "../models/User";
+import { apiKeyService } from "../services/apiKeyService";
+import { authOrApiKey } from "./apiKey";
+import { AuthRequest } from "./auth";
+
+// Keys are kept in memory instead of MongoDB
+let stored: any[];
+
+beforeEach(() => {
+  stored = [];
+
+  jest.spyOn(ApiKey, "create").mockImplementation((async (doc: any) => {
+    const apiKey = new ApiKey(doc);
+    stored.push(apiKey);
+    return apiKey;
+  }) as any);
+  jest
+    .spyOn(ApiKey, "findOne")
+    .mockImplementation(
+      (async (filter: any) =>
+        stored.find((k) => k.prefix === filter.prefix) || null) as any
+    );
+  jest.spyOn(ApiKey, "updateOne").mockResolvedValue({} as any);
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+const createKey = (scopes: ApiKeyScope[], userId?: string) =>
+  apiKeyService.create({
+    name: "integration",
+    scopes,
+    createdBy: String(new Types.ObjectId()),
+    userId,
+  });
+
+// Runs the middleware for a request carrying the key
+const call = async (key: string, ...scopes: ApiKeyScope[]) => {
+  const req = {
+    header: (name: string) => (name === "X-API-Key" ? key : undefined),
+  } as unknown as AuthRequest;
+  const res: any = {
+    statusCode: 200,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: any) {
+      this.body = body;
+      return this;
+    },
+  };
+  const next = jest.fn();
+
+  await authOrApiKey(...scopes)(req, res, next);
+  return { req, res, next };
+};
+
+describe("authOrApiKey", () => {
+  it("lets a key through for the scopes it grants", async () => {
+    const { key } = await createKey(["readers:read", "leagues:read"]);
+
+    const { req, next } = await call(key, "readers:read");
+
+    expect(next).toHaveBeenCalled();
+    expect(req.apiKey?.scopes).toContain("readers:read");
+  });
+
+  it("refuses a key that lacks one of the scopes", async () => {
+    const { key } = await createKey(["readers:read"]);
+
+    const { res, next } = await call(key, "readers:read", "readers:write");
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(403);
+    expect(res.body.requiredScopes).toEqual(["readers:read", "readers:write"]);
+  });
+
+  it("refuses revoked keys and keys with a wrong secret", async () => {
+    const { apiKey, key } = await createKey(["readers:read"]);
+    const forged = `${apiKey.prefix}_${"0".repeat(48)}`;
+
+    expect((await call(forged, "readers:read")).res.statusCode).toBe(401);
+
+    jest.spyOn(apiKey, "save").mockResolvedValue(apiKey);
+    await apiKeyService.revoke(apiKey);
+
+    const { res, next } = await call(key, "readers:read");
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+  });
+
+  it("acts as the user who owns the key", async () => {
+    const owner = new User({
+      _id: new Types.ObjectId(),
+      username: "owner",
+      email: "owner@example.com",
+      password: "not-used-here",
+    });
+    jest.spyOn(User, "findById").mockResolvedValue(owner);
+    const { key } = await createKey(["leagues:read"], String(owner._id));
+
+    const { req, next } = await call(key, "leagues:read");
+
+    expect(next).toHaveBeenCalled();
+    expect(req.userId).toBe(String(owner._id));
+  });
+});
@@ -0,0 +1,76 @@
+import { Response, NextFunction } from "express";
+import User from "../models/User";
+import { ApiKeyScope } from "../models/ApiKey";
+import { apiKeyService } from "../services/apiKeyService";
+import { auth, AuthRequest } from "./auth";
+
+// Keys are sent as "X-API-Key: <key>" or "Authorization: ApiKey <key>"
+const extractApiKey = (req: AuthRequest): string | null => {
+  const headerKey = req.header("X-API-Key");
+  if (headerKey) return headerKey;
+
+  const authHeader = req.header("Authorization");
+  if (authHeader && authHeader.startsWith("ApiKey ")) {
+    return authHeader.slice(7);
+  }
+
+  return null;
+};
+
+// Accept either a scoped API key or the regular Bearer JWT. Keys must grant
+// every listed scope; keys owned by a user act as that user.
+export const authOrApiKey = (...scopes: ApiKeyScope[]) => {
+  return async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    const rawKey = extractApiKey(req);
+
+    if (!rawKey) {
+      return auth(req, res, next);
+    }
+
+    try {
+      const apiKey = await apiKeyService.authenticate(rawKey);
+
+      if (!apiKey) {
+        res.status(401).json({
+          message: "Invalid, expired or revoked API key",
+        });
+        return;
+      }
+
+      if (!apiKey.hasScopes(scopes)) {
+        res.status(403).json({
+          message: "API key is missing required scopes",
+          requiredScopes: scopes,
+        });
+        return;
+      }
+
+      if (apiKey.userId) {
+        const user = await User.findById(apiKey.userId);
+
+        if (!user || !user.isActive) {
+          res.status(401).json({
+            message: "API key owner is no longer active",
+          });
+          return;
+        }
+
+        req.userId = String(user._id);
+        req.user = user;
+      }
+
+      req.apiKey = apiKey;
+      next();
+    } catch (error: any) {
+      console.error("API key middleware error:", error);
+      res.status(500).json({
+        message: "Server error in authentication",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  };
+};
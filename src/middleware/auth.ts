@@ -1,12 +1,17 @@
 import { Request, Response, NextFunction } from "express";
-import jwt from "jsonwebtoken";
 import User from "../models/User";
-import { IUser } from "../types";
+import { tokenService } from "../services/tokenService";
+import { auditService } from "../services/auditService";
+import { IApiKey } from "../models/ApiKey";
+import { IUser, UserRole } from "../types";
 
 // Extend Express Request interface to include user
 export interface AuthRequest extends Request {
   userId?: string;
   user?: IUser;
+  sessionId?: string;
+  apiKey?: IApiKey; // set when authenticated with an API key
+  impersonatorId?: string; // set when an admin acts as this user
 }
 
 export const auth = async (
@@ -39,10 +44,15 @@ export const auth = async (
 
     try {
       // Verify token
-      const decoded = jwt.verify(
-        token,
-        process.env.JWT_SECRET || "default-secret"
-      ) as { userId: string };
+      const decoded = tokenService.verifyAccessToken(token);
+
+      // Reject tokens whose session was logged out or revoked
+      if (!(await tokenService.isSessionActive(decoded.sid))) {
+        res.status(401).json({
+          message: "Session has been revoked",
+        });
+        return;
+      }
 
       // Check if user still exists
       const user = await User.findById(decoded.userId);
@@ -64,6 +74,23 @@ export const auth = async (
       // Add user info to request
       req.userId = decoded.userId;
       req.user = user;
+      req.sessionId = decoded.sid;
+      req.impersonatorId = decoded.imp;
+
+      // Everything an admin changes while acting as someone else is logged
+      if (decoded.imp && req.method !== "GET") {
+        auditService
+          .record(
+            {
+              actorId: decoded.imp,
+              action: "impersonation.request",
+              targetUserId: decoded.userId,
+              metadata: { method: req.method, path: req.originalUrl },
+            },
+            req
+          )
+          .catch((error) => console.error("Audit log error:", error));
+      }
 
       next();
     } catch (tokenError: any) {
@@ -114,15 +141,17 @@ export const optionalAuth = async (
     }
 
     try {
-      const decoded = jwt.verify(
-        token,
-        process.env.JWT_SECRET || "default-secret"
-      ) as { userId: string };
-      const user = await User.findById(decoded.userId);
+      const decoded = tokenService.verifyAccessToken(token);
+      const [sessionActive, user] = await Promise.all([
+        tokenService.isSessionActive(decoded.sid),
+        User.findById(decoded.userId),
+      ]);
 
-      if (user && user.isActive) {
+      if (sessionActive && user && user.isActive) {
         req.userId = decoded.userId;
         req.user = user;
+        req.sessionId = decoded.sid;
+        req.impersonatorId = decoded.imp;
       }
     } catch (tokenError) {
       // Ignore token errors in optional auth
@@ -134,3 +163,36 @@ export const optionalAuth = async (
     next(); // Continue without authentication
   }
 };
+
+// Role-based access - authenticates first, then checks the user's role
+export const requireRole = (...roles: UserRole[]) => {
+  return (req: AuthRequest, res: Response, next: NextFunction): Promise<void> =>
+    auth(req, res, () => {
+      if (!req.user || !roles.includes(req.user.role)) {
+        res.status(403).json({
+          message: "You do not have permission to perform this action",
+          requiredRoles: roles,
+        });
+        return;
+      }
+
+      next();
+    });
+};
+
+// Blocks account-level changes (password, 2FA, API keys, deletion) while an
+// admin is impersonating the user. Use after auth.
+export const denyImpersonation = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (req.impersonatorId) {
+    res.status(403).json({
+      message: "This action is not available while impersonating a user",
+    });
+    return;
+  }
+
+  next();
+};
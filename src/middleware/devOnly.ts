@@ -0,0 +1,24 @@
+import { Request, Response, NextFunction } from "express";
+
+// Development helpers are off unless ENABLE_DEV_ROUTES=true is set, and
+// never available in production. An unset or misspelled NODE_ENV alone
+// does not turn them on.
+export const devRoutesEnabled = (): boolean =>
+  process.env.ENABLE_DEV_ROUTES === "true" &&
+  process.env.NODE_ENV !== "production";
+
+// Answer like an unknown route unless development helpers are enabled
+export const devOnly = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!devRoutesEnabled()) {
+    res.status(404).json({
+      message: `Route ${req.method} ${req.originalUrl} not found`,
+    });
+    return;
+  }
+
+  next();
+};
@@ -1,12 +1,18 @@
 import { Request, Response, NextFunction } from "express";
 import Joi from "joi";
+import { RANKING_CONVENTIONS, TIE_BREAKERS } from "../utils/ranking";
+import { SCORING_METHODS } from "../utils/scoring";
 
 // Validation schemas
 const leagueEntrySchema = Joi.object({
   leagueId: Joi.string().required().messages({
     "any.required": "League ID is required",
   }),
-});
+  inviteCode: Joi.string().trim().uppercase().max(32),
+  // Team leagues: join a team or start one
+  teamId: Joi.string().hex().length(24),
+  teamName: Joi.string().trim().min(2).max(40),
+}).oxor("teamId", "teamName");
 
 const scoreSubmissionSchema = Joi.object({
   leagueId: Joi.string().required().messages({
@@ -33,6 +39,278 @@ const scoreSubmissionSchema = Joi.object({
   }).optional(),
 });
 
+const gameSessionSubmitSchema = Joi.object({
+  sessionToken: Joi.string().required().messages({
+    "any.required": "Session token is required",
+  }),
+  answers: Joi.array()
+    .items(
+      Joi.object({
+        questionId: Joi.string().max(64).required(),
+        choice: Joi.number().integer().min(0).required(),
+      })
+    )
+    .max(200)
+    .unique("questionId")
+    .required(),
+});
+
+const refreshTokenSchema = Joi.object({
+  refreshToken: Joi.string().required().messages({
+    "any.required": "Refresh token is required",
+  }),
+});
+
+const forgotPasswordSchema = Joi.object({
+  email: Joi.string().email().required().messages({
+    "string.email": "Please provide a valid email",
+    "any.required": "Email is required",
+  }),
+});
+
+const resetPasswordSchema = Joi.object({
+  token: Joi.string().required().messages({
+    "any.required": "Reset token is required",
+  }),
+  password: Joi.string().min(6).required().messages({
+    "string.min": "Password must be at least 6 characters",
+    "any.required": "Password is required",
+  }),
+});
+
+const verifyEmailSchema = Joi.object({
+  token: Joi.string().required().messages({
+    "any.required": "Verification token is required",
+  }),
+});
+
+const unlockAccountSchema = Joi.object({
+  token: Joi.string().required().messages({
+    "any.required": "Unlock token is required",
+  }),
+});
+
+// League administration
+const LEAGUE_CATEGORIES = ["math", "science", "language", "general", "mixed"];
+
+const leaguePrizeSchema = Joi.object({
+  rank: Joi.number().integer().min(1).required(),
+  description: Joi.string().trim().max(200).required(),
+  credits: Joi.number().integer().min(0).default(0),
+  badge: Joi.string().trim().max(50),
+});
+
+// Averaging more submissions than a player may make would cap everyone
+const checkBestOf: Joi.CustomValidator = (value, helpers) => {
+  if (
+    value.scoringMethod === "best_n_average" &&
+    value.bestOf !== undefined &&
+    value.maxSubmissions !== undefined &&
+    value.bestOf > value.maxSubmissions
+  ) {
+    return helpers.message({
+      custom: "bestOf cannot be more than maxSubmissions",
+    });
+  }
+  return value;
+};
+
+const leagueRulesSchema = Joi.object({
+  scoringMethod: Joi.string().valid(...SCORING_METHODS),
+  scoringWeights: Joi.object({
+    accuracy: Joi.number().min(0).max(1000),
+    time: Joi.number().min(0).max(1000),
+    points: Joi.number().min(0).max(1000),
+  }),
+  bestOf: Joi.number().integer().min(1).max(100),
+  maxSubmissions: Joi.number().integer().min(1).max(100),
+  skillLevel: Joi.string().valid(
+    "beginner",
+    "intermediate",
+    "advanced",
+    "expert"
+  ),
+  tieBreakers: Joi.array()
+    .items(Joi.string().valid(...TIE_BREAKERS))
+    .unique()
+    .max(TIE_BREAKERS.length),
+  rankingConvention: Joi.string().valid(...RANKING_CONVENTIONS),
+  includeZeroPoints: Joi.boolean(),
+}).custom(checkBestOf);
+
+const leagueTeamSettingsSchema = Joi.object({
+  maxTeamSize: Joi.number().integer().min(2).max(50),
+  aggregation: Joi.string().valid("sum", "average", "top_n"),
+  topN: Joi.number().integer().min(1).max(50),
+});
+
+const leagueBracketSettingsSchema = Joi.object({
+  seeding: Joi.string().valid("rating", "qualifying"),
+  qualifyingHours: Joi.number()
+    .min(1)
+    .max(24 * 30),
+  roundHours: Joi.number()
+    .min(1)
+    .max(24 * 30),
+});
+
+// Prize ranks must be unique and reachable with the league's capacity
+const checkPrizeRanks: Joi.CustomValidator = (value, helpers) => {
+  if (!value.prizes) return value;
+
+  const ranks: number[] = value.prizes.map((prize: any) => prize.rank);
+
+  if (new Set(ranks).size !== ranks.length) {
+    return helpers.message({ custom: "Prize ranks must be unique" });
+  }
+
+  if (
+    value.maxParticipants !== undefined &&
+    ranks.some((rank) => rank > value.maxParticipants)
+  ) {
+    return helpers.message({
+      custom: "Prize ranks cannot exceed maxParticipants",
+    });
+  }
+
+  return value;
+};
+
+const leagueCreateSchema = Joi.object({
+  name: Joi.string().trim().min(3).max(100).required(),
+  description: Joi.string().trim().max(1000).required(),
+  startDate: Joi.date().required(),
+  endDate: Joi.date().greater(Joi.ref("startDate")).required().messages({
+    "date.greater": "endDate must be after startDate",
+  }),
+  maxParticipants: Joi.number().integer().min(2).max(100000).default(1000),
+  entryFee: Joi.number().integer().min(0).default(0),
+  prizes: Joi.array().items(leaguePrizeSchema).max(100).default([]),
+  rules: leagueRulesSchema.default({}),
+  mode: Joi.string().valid("individual", "team").default("individual"),
+  teamSettings: leagueTeamSettingsSchema.default({}),
+  format: Joi.string()
+    .valid("standard", "bracket")
+    .default("standard")
+    .when("mode", {
+      is: "team",
+      then: Joi.valid(Joi.override, "standard").messages({
+        "any.only":
+          "Knockout brackets are only available for individual leagues",
+      }),
+    }),
+  bracketSettings: leagueBracketSettingsSchema.default({}),
+  category: Joi.string()
+    .valid(...LEAGUE_CATEGORIES)
+    .default("general"),
+  isPublic: Joi.boolean().default(true),
+}).custom(checkPrizeRanks);
+
+// Dates and prizes are checked again against the stored league
+const leagueUpdateSchema = Joi.object({
+  name: Joi.string().trim().min(3).max(100),
+  description: Joi.string().trim().max(1000),
+  startDate: Joi.date(),
+  endDate: Joi.date().when("startDate", {
+    is: Joi.exist(),
+    then: Joi.date().greater(Joi.ref("startDate")).messages({
+      "date.greater": "endDate must be after startDate",
+    }),
+  }),
+  maxParticipants: Joi.number().integer().min(2).max(100000),
+  entryFee: Joi.number().integer().min(0),
+  prizes: Joi.array().items(leaguePrizeSchema).max(100),
+  rules: leagueRulesSchema,
+  mode: Joi.string().valid("individual", "team"),
+  teamSettings: leagueTeamSettingsSchema,
+  format: Joi.string().valid("standard", "bracket"),
+  bracketSettings: leagueBracketSettingsSchema,
+  category: Joi.string().valid(...LEAGUE_CATEGORIES),
+  isPublic: Joi.boolean(),
+})
+  .min(1)
+  .custom(checkPrizeRanks)
+  .messages({
+    "object.min": "Provide at least one field to update",
+  });
+
+const leagueCloneSchema = Joi.object({
+  name: Joi.string().trim().min(3).max(100),
+  startDate: Joi.date().required(),
+  endDate: Joi.date().greater(Joi.ref("startDate")).required().messages({
+    "date.greater": "endDate must be after startDate",
+  }),
+});
+
+const leagueCancelSchema = Joi.object({
+  reason: Joi.string().trim().max(500),
+});
+
+const leagueInviteSchema = Joi.object({
+  expiresAt: Joi.date().greater("now").messages({
+    "date.greater": "expiresAt must be in the future",
+  }),
+  maxUses: Joi.number().integer().min(1).max(10000),
+});
+
+const leagueJoinRequestSchema = Joi.object({
+  message: Joi.string().trim().max(500),
+});
+
+// Recurring league templates. Times are UTC; monthly leagues start on day
+// 1-28 so every month has the day.
+const leagueRecurrenceSchema = Joi.object({
+  frequency: Joi.string().valid("weekly", "monthly").required(),
+  dayOfWeek: Joi.number().integer().min(0).max(6).when("frequency", {
+    is: "weekly",
+    then: Joi.required(),
+    otherwise: Joi.forbidden(),
+  }),
+  dayOfMonth: Joi.number().integer().min(1).max(28).when("frequency", {
+    is: "monthly",
+    then: Joi.required(),
+    otherwise: Joi.forbidden(),
+  }),
+  hour: Joi.number().integer().min(0).max(23).default(0),
+  minute: Joi.number().integer().min(0).max(59).default(0),
+  durationDays: Joi.number().integer().min(1).max(365).required(),
+});
+
+const leagueTemplateCreateSchema = Joi.object({
+  name: Joi.string().trim().min(3).max(100).required(),
+  description: Joi.string().trim().max(1000).required(),
+  maxParticipants: Joi.number().integer().min(2).max(100000).default(1000),
+  entryFee: Joi.number().integer().min(0).default(0),
+  prizes: Joi.array().items(leaguePrizeSchema).max(100).default([]),
+  rules: leagueRulesSchema.default({}),
+  category: Joi.string()
+    .valid(...LEAGUE_CATEGORIES)
+    .default("general"),
+  isPublic: Joi.boolean().default(true),
+  recurrence: leagueRecurrenceSchema.required(),
+  createAheadDays: Joi.number().integer().min(0).max(90).default(7),
+}).custom(checkPrizeRanks);
+
+// The recurrence is replaced as a whole
+const leagueTemplateUpdateSchema = Joi.object({
+  name: Joi.string().trim().min(3).max(100),
+  description: Joi.string().trim().max(1000),
+  maxParticipants: Joi.number().integer().min(2).max(100000),
+  entryFee: Joi.number().integer().min(0),
+  prizes: Joi.array().items(leaguePrizeSchema).max(100),
+  rules: leagueRulesSchema,
+  category: Joi.string().valid(...LEAGUE_CATEGORIES),
+  isPublic: Joi.boolean(),
+  recurrence: leagueRecurrenceSchema,
+  createAheadDays: Joi.number().integer().min(0).max(90),
+  isActive: Joi.boolean(),
+})
+  .min(1)
+  .custom(checkPrizeRanks)
+  .messages({
+    "object.min": "Provide at least one field to update",
+  });
+
 // Generic validation middleware function - ADDED THIS EXPORT!
 export const validate = (
   schema: Joi.ObjectSchema,
@@ -82,10 +360,42 @@ export const validateObjectId = (paramName: string = "id") => {
 // Specific validation middleware exports
 export const validateLeagueEntry = validate(leagueEntrySchema);
 export const validateScoreSubmission = validate(scoreSubmissionSchema);
+export const validateGameSessionSubmit = validate(gameSessionSubmitSchema);
+export const validateRefreshToken = validate(refreshTokenSchema);
+export const validateForgotPassword = validate(forgotPasswordSchema);
+export const validateResetPassword = validate(resetPasswordSchema);
+export const validateVerifyEmail = validate(verifyEmailSchema);
+export const validateUnlockAccount = validate(unlockAccountSchema);
+export const validateLeagueCreate = validate(leagueCreateSchema);
+export const validateLeagueUpdate = validate(leagueUpdateSchema);
+export const validateLeagueClone = validate(leagueCloneSchema);
+export const validateLeagueCancel = validate(leagueCancelSchema);
+export const validateLeagueInvite = validate(leagueInviteSchema);
+export const validateLeagueJoinRequest = validate(leagueJoinRequestSchema);
+export const validateLeagueTemplateCreate = validate(
+  leagueTemplateCreateSchema
+);
+export const validateLeagueTemplateUpdate = validate(
+  leagueTemplateUpdateSchema
+);
 
 export default {
   validate, // ADDED TO DEFAULT EXPORT TOO
   validateLeagueEntry,
   validateScoreSubmission,
+  validateGameSessionSubmit,
+  validateRefreshToken,
+  validateForgotPassword,
+  validateResetPassword,
+  validateVerifyEmail,
+  validateUnlockAccount,
+  validateLeagueCreate,
+  validateLeagueUpdate,
+  validateLeagueClone,
+  validateLeagueCancel,
+  validateLeagueInvite,
+  validateLeagueJoinRequest,
+  validateLeagueTemplateCreate,
+  validateLeagueTemplateUpdate,
   validateObjectId,
 };
@@ -0,0 +1,117 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+
+export const API_KEY_SCOPES = [
+  "readers:read",
+  "readers:write",
+  "leagues:read",
+  "leagues:write",
+  "leaderboard:read",
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+// Write scopes change shared content, so only admins may grant them
+export const ADMIN_ONLY_SCOPES: ApiKeyScope[] = [
+  "readers:write",
+  "leagues:write",
+];
+
+// Interface for an API key. Only the prefix is stored in clear; the full
+// key is hashed and shown to its creator once.
+export interface IApiKey extends Document {
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  userId?: Types.ObjectId | null;
+  organization?: string;
+  createdBy: Types.ObjectId;
+  lastUsedAt?: Date;
+  expiresAt?: Date | null;
+  revokedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Methods
+  isUsable(): boolean;
+  hasScopes(scopes: ApiKeyScope[]): boolean;
+}
+
+const apiKeySchema = new Schema<IApiKey>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    prefix: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    keyHash: {
+      type: String,
+      required: true,
+    },
+    scopes: [
+      {
+        type: String,
+        enum: API_KEY_SCOPES,
+      },
+    ],
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+      index: true,
+    },
+    organization: {
+      type: String,
+      trim: true,
+      index: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    lastUsedAt: {
+      type: Date,
+    },
+    expiresAt: {
+      type: Date,
+      default: null,
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    collection: "api_keys",
+  }
+);
+
+// Method to check the key is neither revoked nor expired
+apiKeySchema.methods.isUsable = function (): boolean {
+  if (this.revokedAt) return false;
+  if (this.expiresAt && this.expiresAt <= new Date()) return false;
+  return true;
+};
+
+// Method to check the key grants every requested scope
+apiKeySchema.methods.hasScopes = function (scopes: ApiKeyScope[]): boolean {
+  return scopes.every((scope) => this.scopes.includes(scope));
+};
+
+// Never expose the hash
+apiKeySchema.methods.toJSON = function () {
+  const keyObject = this.toObject();
+  delete keyObject.keyHash;
+  return keyObject;
+};
+
+export const ApiKey = mongoose.model<IApiKey>("ApiKey", apiKeySchema);
+export default ApiKey;
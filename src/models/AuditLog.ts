@@ -0,0 +1,64 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+
+export const AUDIT_ACTIONS = [
+  "impersonation.started",
+  "impersonation.request",
+  "user.role_changed",
+  "user.unlocked",
+  "user.reactivated",
+  "submission.reviewed",
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+// Interface for a record of a privileged action
+export interface IAuditLog extends Document {
+  actorId: Types.ObjectId;
+  action: AuditAction;
+  targetUserId?: Types.ObjectId;
+  metadata?: Record<string, any>;
+  ip?: string;
+  userAgent?: string;
+  createdAt: Date;
+}
+
+const auditLogSchema = new Schema<IAuditLog>(
+  {
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    action: {
+      type: String,
+      enum: AUDIT_ACTIONS,
+      required: true,
+      index: true,
+    },
+    targetUserId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      index: true,
+    },
+    metadata: {
+      type: Schema.Types.Mixed,
+    },
+    ip: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+  },
+  {
+    // Audit entries are never edited
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: "audit_logs",
+  }
+);
+
+auditLogSchema.index({ createdAt: -1 });
+
+export const AuditLog = mongoose.model<IAuditLog>("AuditLog", auditLogSchema);
+export default AuditLog;
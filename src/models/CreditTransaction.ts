@@ -0,0 +1,82 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+
+export type CreditTransactionType =
+  | "league_entry"
+  | "league_refund"
+  | "league_prize";
+
+// One movement of a user's credits. Entry fees are negative, refunds and
+// prizes positive; an entry fee is refunded at most once (refundedAt).
+export interface ICreditTransaction extends Document {
+  userId: Types.ObjectId;
+  amount: number;
+  type: CreditTransactionType;
+  leagueId?: Types.ObjectId;
+  refundOf?: Types.ObjectId;
+  refundedAt?: Date | null;
+  reason?: string;
+  balanceAfter?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const creditTransactionSchema = new Schema<ICreditTransaction>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ["league_entry", "league_refund", "league_prize"],
+      required: true,
+    },
+    leagueId: {
+      type: Schema.Types.ObjectId,
+      ref: "League",
+      index: true,
+    },
+    refundOf: {
+      type: Schema.Types.ObjectId,
+      ref: "CreditTransaction",
+    },
+    refundedAt: {
+      type: Date,
+      default: null,
+    },
+    reason: {
+      type: String,
+    },
+    balanceAfter: {
+      type: Number,
+    },
+  },
+  {
+    timestamps: true,
+    collection: "credit_transactions",
+  }
+);
+
+// A refund can only ever be recorded once per entry fee
+creditTransactionSchema.index(
+  { refundOf: 1 },
+  { unique: true, partialFilterExpression: { refundOf: { $exists: true } } }
+);
+
+// ...and a league pays each winner at most once
+creditTransactionSchema.index(
+  { leagueId: 1, userId: 1 },
+  { unique: true, partialFilterExpression: { type: "league_prize" } }
+);
+
+export const CreditTransaction = mongoose.model<ICreditTransaction>(
+  "CreditTransaction",
+  creditTransactionSchema
+);
+export default CreditTransaction;
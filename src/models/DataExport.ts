@@ -0,0 +1,75 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+
+// Interface for a personal data export requested by a user
+export interface IDataExport extends Document {
+  userId: Types.ObjectId;
+  format: "json" | "zip";
+  status: "pending" | "processing" | "ready" | "failed";
+  fileName?: string;
+  contentType?: string;
+  size?: number;
+  data?: Buffer;
+  error?: string;
+  completedAt?: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const dataExportSchema = new Schema<IDataExport>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    format: {
+      type: String,
+      enum: ["json", "zip"],
+      default: "json",
+    },
+    status: {
+      type: String,
+      enum: ["pending", "processing", "ready", "failed"],
+      default: "pending",
+    },
+    fileName: {
+      type: String,
+    },
+    contentType: {
+      type: String,
+    },
+    size: {
+      type: Number,
+    },
+    // The archive itself; only loaded when it is downloaded
+    data: {
+      type: Buffer,
+      select: false,
+    },
+    error: {
+      type: String,
+    },
+    completedAt: {
+      type: Date,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: "data_exports",
+  }
+);
+
+// Archives contain personal data, so they are removed once expired
+dataExportSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const DataExport = mongoose.model<IDataExport>(
+  "DataExport",
+  dataExportSchema
+);
+export default DataExport;
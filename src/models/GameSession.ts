@@ -0,0 +1,101 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+import { IGameScore } from "../types";
+
+export type GameSessionStatus = "active" | "completed" | "expired";
+
+// One timed play of a league's questions. The server keeps the answers
+// and the start time and computes the score itself.
+export interface IGameSession extends Document {
+  userId: Types.ObjectId;
+  leagueId: Types.ObjectId;
+  questions: Array<{
+    questionId: string;
+    prompt: string;
+    choices: string[];
+    answer: number;
+  }>;
+  answers: Array<{
+    questionId: string;
+    choice: number | null;
+    correct: boolean;
+  }>;
+  status: GameSessionStatus;
+  startedAt: Date;
+  expiresAt: Date;
+  completedAt?: Date | null;
+  result?: IGameScore | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const gameSessionSchema = new Schema<IGameSession>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    leagueId: {
+      type: Schema.Types.ObjectId,
+      ref: "League",
+      required: true,
+    },
+    questions: [
+      {
+        _id: false,
+        questionId: { type: String, required: true },
+        prompt: { type: String, required: true },
+        choices: [{ type: String }],
+        answer: { type: Number, required: true },
+      },
+    ],
+    answers: [
+      {
+        _id: false,
+        questionId: { type: String, required: true },
+        choice: { type: Number, default: null },
+        correct: { type: Boolean, required: true },
+      },
+    ],
+    status: {
+      type: String,
+      enum: ["active", "completed", "expired"],
+      default: "active",
+    },
+    startedAt: {
+      type: Date,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    completedAt: {
+      type: Date,
+      default: null,
+    },
+    result: {
+      type: new Schema(
+        {
+          accuracy: Number,
+          timeInSeconds: Number,
+          points: Number,
+        },
+        { _id: false }
+      ),
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    collection: "game_sessions",
+  }
+);
+
+gameSessionSchema.index({ userId: 1, leagueId: 1, status: 1 });
+
+export const GameSession = mongoose.model<IGameSession>(
+  "GameSession",
+  gameSessionSchema
+);
+export default GameSession;
@@ -0,0 +1,360 @@
+import { Types } from "mongoose";
+import League from "./League";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const player = (username: string) => ({
+  userId: new Types.ObjectId(),
+  username,
+  joinedAt: new Date(),
+  submissions: [],
+  bestSubmission: { accuracy: 0, timeInSeconds: 0, points: 0 },
+});
+
+const drawnKnockout = () => {
+  const start = new Date(Date.now() - HOUR_MS);
+  const league = new League({
+    name: "Knockout",
+    description: "Two players",
+    startDate: start,
+    endDate: new Date(start.getTime() + 24 * HOUR_MS),
+    createdBy: new Types.ObjectId(),
+    status: "active",
+    format: "bracket",
+    participants: [player("a"), player("b")],
+  });
+
+  league.drawBracket(
+    league.participants.map((p, index) => ({
+      userId: p.userId,
+      username: p.username,
+      seed: index + 1,
+    })),
+    start
+  );
+  return league;
+};
+
+const score = { accuracy: 80, timeInSeconds: 60, points: 400 };
+
+describe("League.submitScore in knockout leagues", () => {
+  it("records a score for the player's open match", () => {
+    const league = drawnKnockout();
+    const [a] = league.participants;
+
+    league.submitScore(a.userId, score);
+
+    expect(league.bracket!.rounds[0].matches[0].scoreA?.points).toBe(400);
+  });
+
+  it("refuses match scores once the league is cancelled", () => {
+    const league = drawnKnockout();
+    const [a] = league.participants;
+    league.status = "cancelled";
+
+    expect(() => league.submitScore(a.userId, score)).toThrow(
+      "League is not active"
+    );
+    expect(league.bracket!.rounds[0].matches[0].scoreA).toBeNull();
+  });
+});
+
+const teamLeague = (
+  rules: Record<string, any>,
+  teamSettings: Record<string, any> = {}
+) => {
+  const [red, blue] = [new Types.ObjectId(), new Types.ObjectId()];
+  const member = (username: string, teamId: Types.ObjectId) => ({
+    ...player(username),
+    teamId,
+  });
+
+  return new League({
+    name: "Teams",
+    description: "Red against blue",
+    startDate: new Date(Date.now() - HOUR_MS),
+    endDate: new Date(Date.now() + HOUR_MS),
+    createdBy: new Types.ObjectId(),
+    status: "active",
+    mode: "team",
+    rules: { maxSubmissions: 5, ...rules },
+    teamSettings,
+    teams: [
+      { _id: red, name: "Red", captainId: new Types.ObjectId() },
+      { _id: blue, name: "Blue", captainId: new Types.ObjectId() },
+    ],
+    participants: [
+      member("steady", red),
+      member("idle", red),
+      member("sprinter", blue),
+    ],
+  });
+};
+
+const scores = (league: InstanceType<typeof League>) =>
+  Object.fromEntries(
+    league.getTeamLeaderboard().map((team) => [team.name, team.score])
+  );
+
+describe("League.getTeamLeaderboard", () => {
+  it("adds up the members' standings under an aggregate scoring method", () => {
+    const league = teamLeague({ scoringMethod: "cumulative_points" });
+    const [steady, , sprinter] = league.participants;
+
+    for (let i = 0; i < 3; i++) league.submitScore(steady.userId, score);
+    league.submitScore(sprinter.userId, { ...score, points: 900 });
+
+    // Red stands on 3 × 400 points, not on its best single game
+    expect(scores(league)).toEqual({ Red: 1200, Blue: 900 });
+    expect(league.getTeamLeaderboard()[0].name).toBe("Red");
+  });
+
+  it("uses the weighted score and picks top members by it", () => {
+    const league = teamLeague(
+      {
+        scoringMethod: "weighted",
+        scoringWeights: { accuracy: 1, time: 1, points: 0 },
+      },
+      { aggregation: "top_n", topN: 1 }
+    );
+    const [steady, idle, sprinter] = league.participants;
+
+    // More points but slower: 50 − 40 = 10
+    league.submitScore(steady.userId, {
+      accuracy: 50,
+      timeInSeconds: 40,
+      points: 900,
+    });
+    // 90 − 20 = 70
+    league.submitScore(idle.userId, {
+      accuracy: 90,
+      timeInSeconds: 20,
+      points: 100,
+    });
+    // 80 − 30 = 50
+    league.submitScore(sprinter.userId, {
+      accuracy: 80,
+      timeInSeconds: 30,
+      points: 500,
+    });
+
+    const [red, blue] = league.getTeamLeaderboard();
+    expect([red.name, red.score, blue.name, blue.score]).toEqual([
+      "Red",
+      70,
+      "Blue",
+      50,
+    ]);
+    expect(
+      red.members.map((member) => [member.username, member.counted])
+    ).toEqual([
+      ["idle", true],
+      ["steady", false],
+    ]);
+  });
+
+  it("picks top members by the points it adds up when the method has no score", () => {
+    const league = teamLeague(
+      { scoringMethod: "accuracy_then_time" },
+      { aggregation: "top_n", topN: 1 }
+    );
+    const [steady, idle, sprinter] = league.participants;
+
+    // The most accurate member scored the fewest points
+    league.submitScore(steady.userId, {
+      accuracy: 100,
+      timeInSeconds: 30,
+      points: 100,
+    });
+    league.submitScore(idle.userId, {
+      accuracy: 50,
+      timeInSeconds: 30,
+      points: 900,
+    });
+    league.submitScore(sprinter.userId, {
+      accuracy: 90,
+      timeInSeconds: 30,
+      points: 500,
+    });
+
+    const [red, blue] = league.getTeamLeaderboard();
+    expect([red.name, red.score, blue.name, blue.score]).toEqual([
+      "Red",
+      900,
+      "Blue",
+      500,
+    ]);
+    expect(
+      red.members.map((member) => [member.username, member.counted])
+    ).toEqual([
+      ["idle", true],
+      ["steady", false],
+    ]);
+  });
+
+  it("counts members without a counted submission as 0 in an average", () => {
+    const league = teamLeague(
+      { scoringMethod: "points_only" },
+      { aggregation: "average" }
+    );
+    const [steady, idle, sprinter] = league.participants;
+
+    league.submitScore(steady.userId, score);
+    league.submitScore(idle.userId, {
+      ...score,
+      points: 5000,
+      review: { status: "pending", suspicion: 80, findings: [] },
+    } as any);
+    league.submitScore(sprinter.userId, { ...score, points: 300 });
+
+    expect(scores(league)).toEqual({ Red: 200, Blue: 300 });
+  });
+});
+
+describe("League.checkConsistency", () => {
+  const draft = (fields: Record<string, any>) =>
+    new League({
+      name: "Draft",
+      description: "Not saved yet",
+      startDate: new Date(Date.now() + HOUR_MS),
+      endDate: new Date(Date.now() + 24 * HOUR_MS),
+      createdBy: new Types.ObjectId(),
+      ...fields,
+    });
+
+  it("accepts a league built from defaults", () => {
+    expect(draft({}).checkConsistency()).toBeNull();
+  });
+
+  it("checks bestOf against maxSubmissions when bestOf is left to its default", () => {
+    expect(
+      draft({
+        rules: { scoringMethod: "best_n_average", maxSubmissions: 1 },
+      }).checkConsistency()
+    ).toBe("bestOf cannot be more than maxSubmissions");
+  });
+
+  it("checks topN against the default team size", () => {
+    expect(
+      draft({
+        mode: "team",
+        teamSettings: { aggregation: "top_n", topN: 10 },
+      }).checkConsistency()
+    ).toBe("topN cannot exceed maxTeamSize");
+  });
+});
+
+describe("League.getTeamLeaderboard ranks", () => {
+  const tiedTeams = (rankingConvention: string) => {
+    const league = teamLeague({
+      scoringMethod: "points_only",
+      rankingConvention,
+    });
+    const [steady, idle, sprinter] = league.participants;
+
+    league.submitScore(steady.userId, { ...score, points: 300 });
+    league.submitScore(idle.userId, { ...score, points: 200 });
+    league.submitScore(sprinter.userId, { ...score, points: 500 });
+    return league.getTeamLeaderboard();
+  };
+
+  it("gives tied teams the same rank", () => {
+    expect(tiedTeams("standard").map((team) => team.rank)).toEqual([1, 1]);
+  });
+
+  it("follows the league's ranking convention", () => {
+    expect(tiedTeams("ordinal").map((team) => team.rank)).toEqual([1, 2]);
+  });
+});
+
+describe("League.submitScore best submission", () => {
+  it("keeps a better 0-point best over a later worse submission", () => {
+    const league = new League({
+      name: "Accuracy",
+      description: "Accuracy first",
+      startDate: new Date(Date.now() - HOUR_MS),
+      endDate: new Date(Date.now() + HOUR_MS),
+      createdBy: new Types.ObjectId(),
+      status: "active",
+      rules: { scoringMethod: "accuracy_then_time", includeZeroPoints: true },
+      participants: [player("a")],
+    });
+    const [a] = league.participants;
+
+    league.submitScore(a.userId, {
+      accuracy: 100,
+      timeInSeconds: 60,
+      points: 0,
+    });
+    league.submitScore(a.userId, {
+      accuracy: 40,
+      timeInSeconds: 90,
+      points: 200,
+    });
+
+    expect(a.bestSubmission.accuracy).toBe(100);
+    expect(league.getLeaderboard()[0].accuracy).toBe(100);
+  });
+});
+
+describe("League.reviewSubmission", () => {
+  const runningLeague = () =>
+    new League({
+      name: "Reviewed",
+      description: "Accuracy first",
+      startDate: new Date(Date.now() - HOUR_MS),
+      endDate: new Date(Date.now() + HOUR_MS),
+      createdBy: new Types.ObjectId(),
+      status: "active",
+      rules: { scoringMethod: "accuracy_then_time", includeZeroPoints: true },
+      participants: [player("a")],
+    });
+
+  const held = (accuracy: number, points: number) => ({
+    accuracy,
+    timeInSeconds: 60,
+    points,
+    review: {
+      status: "pending" as const,
+      suspicion: 80,
+      findings: [],
+      flaggedAt: new Date(),
+    },
+  });
+
+  it("keeps a better 0-point best when a worse submission is approved", () => {
+    const league = runningLeague();
+    const [a] = league.participants;
+    league.submitScore(a.userId, {
+      accuracy: 100,
+      timeInSeconds: 60,
+      points: 0,
+    });
+    league.submitScore(a.userId, held(50, 500));
+
+    league.reviewSubmission(
+      String(a.submissions[1]._id),
+      "approved",
+      new Types.ObjectId()
+    );
+
+    expect(a.bestSubmission.accuracy).toBe(100);
+  });
+
+  it("keeps the time an approved submission was made at", () => {
+    const league = runningLeague();
+    const [a] = league.participants;
+    league.submitScore(a.userId, held(90, 400));
+    const submittedAt = new Date(Date.now() - HOUR_MS / 2);
+    a.submissions[0].submittedAt = submittedAt;
+
+    league.reviewSubmission(
+      String(a.submissions[0]._id),
+      "approved",
+      new Types.ObjectId()
+    );
+
+    expect(a.bestSubmission.accuracy).toBe(90);
+    expect(a.bestSubmission.submittedAt).toEqual(submittedAt);
+  });
+});
@@ -1,9 +1,65 @@
 import mongoose, { Schema, Types } from "mongoose";
-import { ILeague, IGameScore, ILeaderboardEntry } from "../types";
+import {
+  ILeague,
+  IGameScore,
+  ILeaderboardEntry,
+  ILeagueInvite,
+  ILeagueJoinRequest,
+  ILeagueTeam,
+  ITeamLeaderboardEntry,
+  LeagueJoinOptions,
+  LeagueJoinResult,
+  IBracketSlot,
+  IBracketMatch,
+  IBracketRound,
+  IBracketPlacement,
+} from "../types";
+import { bracketSize, seedPositions } from "../utils/bracket";
+import {
+  RANKING_CONVENTIONS,
+  TIE_BREAKERS,
+  assignRanks,
+  compareTieBreakers,
+} from "../utils/ranking";
+import { DEFAULT_RATING, SKILL_LEVEL_BANDS, SkillLevel } from "../utils/rating";
+import {
+  SCORING_METHODS,
+  ScoringStrategy,
+  scoringStrategyFor,
+} from "../utils/scoring";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Submissions that count: not held for review, or approved by a moderator
+const isCounted = (submission: IGameScore): boolean =>
+  !submission.review || submission.review.status === "approved";
+
+// What a player stands on under the league's scoring method: their best
+// counted submission, or all of them combined for aggregate methods. An
+// aggregate standing dates from the last submission it includes. Null
+// without a counted submission.
+const standingOf = (
+  participant: ILeagueParticipant,
+  strategy: ScoringStrategy,
+  rules: ILeague["rules"]
+): IGameScore | null => {
+  const counted = participant.submissions.filter(isCounted);
+  if (counted.length === 0) return null;
+
+  return strategy.aggregate
+    ? {
+        ...strategy.aggregate(counted, rules),
+        submittedAt: new Date(
+          Math.max(...counted.map((s) => s.submittedAt?.getTime() || 0))
+        ),
+      }
+    : participant.bestSubmission;
+};
 
 interface ILeagueParticipant {
   userId: Types.ObjectId;
   username: string;
+  teamId?: Types.ObjectId | null;
   joinedAt: Date;
   submissions: IGameScore[];
   bestSubmission: IGameScore;
@@ -37,6 +93,32 @@ const gameScoreSchema = new Schema<IGameScore>({
     gameMode: { type: String },
     difficulty: { type: String },
   },
+  review: {
+    type: new Schema(
+      {
+        status: {
+          type: String,
+          enum: ["pending", "approved", "rejected"],
+          default: "pending",
+        },
+        suspicion: { type: Number, required: true },
+        findings: [
+          {
+            _id: false,
+            rule: String,
+            weight: Number,
+            detail: String,
+          },
+        ],
+        flaggedAt: { type: Date, default: Date.now },
+        decidedAt: { type: Date, default: null },
+        decidedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+        note: { type: String },
+      },
+      { _id: false }
+    ),
+    default: null,
+  },
 });
 
 const leagueParticipantSchema = new Schema<ILeagueParticipant>({
@@ -49,6 +131,10 @@ const leagueParticipantSchema = new Schema<ILeagueParticipant>({
     type: String,
     required: true,
   },
+  teamId: {
+    type: Schema.Types.ObjectId,
+    default: null,
+  },
   joinedAt: {
     type: Date,
     default: Date.now,
@@ -69,6 +155,127 @@ const leagueParticipantSchema = new Schema<ILeagueParticipant>({
   },
 });
 
+const leagueTeamSchema = new Schema<ILeagueTeam>({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 40,
+  },
+  captainId: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+const bracketSlotSchema = new Schema<IBracketSlot>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    username: { type: String, required: true },
+    seed: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const bracketMatchSchema = new Schema<IBracketMatch>({
+  slot: { type: Number, required: true },
+  playerA: { type: bracketSlotSchema, default: null },
+  playerB: { type: bracketSlotSchema, default: null },
+  scoreA: { type: gameScoreSchema, default: null },
+  scoreB: { type: gameScoreSchema, default: null },
+  winnerId: { type: Schema.Types.ObjectId, default: null },
+  decidedBy: {
+    type: String,
+    enum: ["score", "walkover", "seed", "bye", null],
+    default: null,
+  },
+  decidedAt: { type: Date, default: null },
+});
+
+const bracketRoundSchema = new Schema<IBracketRound>(
+  {
+    round: { type: Number, required: true },
+    startsAt: { type: Date, required: true },
+    endsAt: { type: Date, required: true },
+    decidedAt: { type: Date, default: null },
+    matches: [bracketMatchSchema],
+  },
+  { _id: false }
+);
+
+const leagueInviteSchema = new Schema<ILeagueInvite>(
+  {
+    code: {
+      type: String,
+      required: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      default: null,
+    },
+    maxUses: {
+      type: Number,
+      default: null,
+      min: 1,
+    },
+    uses: {
+      type: Number,
+      default: 0,
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  { _id: false }
+);
+
+const leagueJoinRequestSchema = new Schema<ILeagueJoinRequest>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  username: {
+    type: String,
+    required: true,
+  },
+  message: {
+    type: String,
+    maxlength: 500,
+  },
+  status: {
+    type: String,
+    enum: ["pending", "approved", "rejected"],
+    default: "pending",
+  },
+  requestedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  decidedAt: {
+    type: Date,
+  },
+  decidedBy: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+  },
+});
+
 const leagueSchema = new Schema<ILeague>(
   {
     name: {
@@ -108,9 +315,19 @@ const leagueSchema = new Schema<ILeague>(
     rules: {
       scoringMethod: {
         type: String,
-        enum: ["accuracy_then_time", "time_then_accuracy", "points_only"],
+        enum: SCORING_METHODS,
         default: "accuracy_then_time",
       },
+      scoringWeights: {
+        accuracy: { type: Number, default: 1, min: 0 },
+        time: { type: Number, default: 0.1, min: 0 },
+        points: { type: Number, default: 0, min: 0 },
+      },
+      bestOf: {
+        type: Number,
+        default: 3,
+        min: 1,
+      },
       maxSubmissions: {
         type: Number,
         default: 3,
@@ -120,13 +337,121 @@ const leagueSchema = new Schema<ILeague>(
         enum: ["beginner", "intermediate", "advanced", "expert"],
         default: "intermediate",
       },
+      tieBreakers: {
+        type: [{ type: String, enum: TIE_BREAKERS }],
+        default: [],
+      },
+      rankingConvention: {
+        type: String,
+        enum: RANKING_CONVENTIONS,
+        default: "standard",
+      },
+      includeZeroPoints: {
+        type: Boolean,
+        default: false,
+      },
+    },
+    mode: {
+      type: String,
+      enum: ["individual", "team"],
+      default: "individual",
+    },
+    teamSettings: {
+      maxTeamSize: {
+        type: Number,
+        default: 5,
+        min: 2,
+      },
+      aggregation: {
+        type: String,
+        enum: ["sum", "average", "top_n"],
+        default: "sum",
+      },
+      topN: {
+        type: Number,
+        default: 3,
+        min: 1,
+      },
+    },
+    teams: [leagueTeamSchema],
+    format: {
+      type: String,
+      enum: ["standard", "bracket"],
+      default: "standard",
+    },
+    bracketSettings: {
+      seeding: {
+        type: String,
+        enum: ["rating", "qualifying"],
+        default: "rating",
+      },
+      qualifyingHours: {
+        type: Number,
+        default: 24,
+        min: 1,
+      },
+      roundHours: {
+        type: Number,
+        default: 24,
+        min: 1,
+      },
+    },
+    bracket: {
+      type: new Schema(
+        {
+          drawnAt: { type: Date, required: true },
+          size: { type: Number, required: true },
+          rounds: [bracketRoundSchema],
+          championId: { type: Schema.Types.ObjectId, default: null },
+          completedAt: { type: Date, default: null },
+        },
+        { _id: false }
+      ),
+      default: null,
     },
     participants: [leagueParticipantSchema],
+    invites: [leagueInviteSchema],
+    joinRequests: [leagueJoinRequestSchema],
     status: {
       type: String,
       enum: ["upcoming", "active", "completed", "cancelled"],
       default: "upcoming",
     },
+    cancelledAt: {
+      type: Date,
+    },
+    cancellationReason: {
+      type: String,
+    },
+    payout: {
+      type: new Schema(
+        {
+          awards: [
+            {
+              _id: false,
+              userId: { type: Schema.Types.ObjectId, ref: "User" },
+              username: String,
+              rank: Number,
+              credits: { type: Number, default: 0 },
+              badge: String,
+            },
+          ],
+          createdAt: { type: Date, default: Date.now },
+          paidAt: { type: Date, default: null },
+        },
+        { _id: false }
+      ),
+      default: null,
+    },
+    ratedAt: {
+      type: Date,
+      default: null,
+    },
+    lifecycleEvents: {
+      started: { type: Date, default: null },
+      closingSoon: { type: Date, default: null },
+      completed: { type: Date, default: null },
+    },
     category: {
       type: String,
       enum: ["math", "science", "language", "general", "mixed"],
@@ -136,6 +461,11 @@ const leagueSchema = new Schema<ILeague>(
       type: Boolean,
       default: true,
     },
+    templateId: {
+      type: Schema.Types.ObjectId,
+      ref: "LeagueTemplate",
+      default: null,
+    },
     createdBy: {
       type: Schema.Types.ObjectId,
       ref: "User",
@@ -144,7 +474,15 @@ const leagueSchema = new Schema<ILeague>(
   },
   {
     timestamps: true,
-    toJSON: { virtuals: true },
+    toJSON: {
+      virtuals: true,
+      // Invite codes and join requests are only shown to the organizer
+      transform: (_doc, ret: any) => {
+        delete ret.invites;
+        delete ret.joinRequests;
+        return ret;
+      },
+    },
     toObject: { virtuals: true },
   }
 );
@@ -170,11 +508,38 @@ leagueSchema.index({ status: 1, startDate: 1 });
 leagueSchema.index({ endDate: 1 });
 leagueSchema.index({ category: 1 });
 leagueSchema.index({ "participants.userId": 1 });
+leagueSchema.index({ "lifecycleEvents.completed": 1, endDate: 1 });
+leagueSchema.index({ ratedAt: 1, "lifecycleEvents.completed": 1 });
+// Invite codes are looked up across all leagues
+leagueSchema.index(
+  { "invites.code": 1 },
+  {
+    unique: true,
+    partialFilterExpression: { "invites.code": { $exists: true } },
+  }
+);
+// One league per template occurrence
+leagueSchema.index(
+  { templateId: 1, startDate: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { templateId: { $type: "objectId" } },
+  }
+);
 
 // Middleware to update status based on dates
 leagueSchema.pre("save", function (next) {
+  this.refreshStatus();
+  next();
+});
+
+// Method to move the status along with the league dates
+leagueSchema.methods.refreshStatus = function (): void {
   const now = new Date();
 
+  // Cancelled leagues stay cancelled
+  if (this.status === "cancelled") return;
+
   if (this.startDate > now && this.status === "upcoming") {
     // Keep as upcoming
   } else if (
@@ -186,15 +551,168 @@ leagueSchema.pre("save", function (next) {
   } else if (this.endDate <= now && this.status !== "completed") {
     this.status = "completed";
   }
+};
 
-  next();
-});
+// Method to check the settings against each other and the players already
+// in, beyond what the request schemas see. Returns the first problem, or
+// null.
+leagueSchema.methods.checkConsistency = function (): string | null {
+  if (this.endDate <= this.startDate) {
+    return "endDate must be after startDate";
+  }
 
-// Method to join league
-leagueSchema.methods.addParticipant = async function (
+  if (this.maxParticipants < this.participants.length) {
+    return `maxParticipants cannot be lower than the ${this.participants.length} players already joined`;
+  }
+
+  if (
+    this.prizes.some(
+      (prize: { rank: number }) => prize.rank > this.maxParticipants
+    )
+  ) {
+    return "Prize ranks cannot exceed maxParticipants";
+  }
+
+  if (
+    this.rules.scoringMethod === "best_n_average" &&
+    this.rules.bestOf > this.rules.maxSubmissions
+  ) {
+    return "bestOf cannot be more than maxSubmissions";
+  }
+
+  if (this.mode === "team" && this.format === "bracket") {
+    return "Knockout brackets are only available for individual leagues";
+  }
+
+  if (this.mode === "team") {
+    if (this.participants.some((p: ILeagueParticipant) => !p.teamId)) {
+      return "Cannot switch to team mode after players have joined";
+    }
+
+    const largest = Math.max(
+      0,
+      ...this.teams.map(
+        (team: ILeagueTeam) =>
+          this.participants.filter((p: ILeagueParticipant) =>
+            team._id?.equals(p.teamId!)
+          ).length
+      )
+    );
+
+    if (largest > this.teamSettings.maxTeamSize) {
+      return `maxTeamSize cannot be lower than the largest team (${largest} players)`;
+    }
+
+    if (
+      this.teamSettings.aggregation === "top_n" &&
+      this.teamSettings.topN > this.teamSettings.maxTeamSize
+    ) {
+      return "topN cannot exceed maxTeamSize";
+    }
+  }
+
+  return null;
+};
+
+// Method to check who may join. Returns the invite that grants access, if
+// one is needed; throws when the user may not join.
+leagueSchema.methods.checkAccess = function (
+  userId: Types.ObjectId,
+  inviteCode?: string
+): ILeagueInvite | null {
+  if (this.isPublic) return null;
+
+  const approved = this.joinRequests.some(
+    (request: ILeagueJoinRequest) =>
+      request.userId.toString() === userId.toString() &&
+      request.status === "approved"
+  );
+
+  if (approved) return null;
+
+  if (inviteCode) {
+    const now = new Date();
+    const invite = this.invites.find(
+      (i: ILeagueInvite) => i.code === inviteCode.toUpperCase()
+    );
+
+    if (
+      !invite ||
+      invite.revokedAt ||
+      (invite.expiresAt && invite.expiresAt <= now) ||
+      (invite.maxUses && invite.uses >= invite.maxUses)
+    ) {
+      throw new Error("Invalid or expired invite code");
+    }
+
+    return invite;
+  }
+
+  throw new Error(
+    "This league is private. Join with an invite code or request to join"
+  );
+};
+
+// Method to pick the team a player joins in a team league. Returns the
+// team and whether it is new; the caller adds it to the league.
+leagueSchema.methods.resolveTeam = function (
   userId: Types.ObjectId,
-  username: string
-): Promise<ILeague> {
+  options: LeagueJoinOptions
+): { team: ILeagueTeam | null; teamCreated: boolean } {
+  if (this.mode !== "team") return { team: null, teamCreated: false };
+
+  if (options.teamId) {
+    const team = this.teams.find(
+      (t: ILeagueTeam) => t._id?.toString() === options.teamId
+    );
+
+    if (!team) {
+      throw new Error("Team not found");
+    }
+
+    const members = this.participants.filter(
+      (p: ILeagueParticipant) => p.teamId?.toString() === options.teamId
+    ).length;
+
+    if (members >= this.teamSettings.maxTeamSize) {
+      throw new Error("Team is full");
+    }
+
+    return { team, teamCreated: false };
+  }
+
+  const name = options.teamName?.trim();
+
+  if (!name) {
+    throw new Error("Choose a team to join or name a new one");
+  }
+
+  if (
+    this.teams.some(
+      (t: ILeagueTeam) => t.name.toLowerCase() === name.toLowerCase()
+    )
+  ) {
+    throw new Error("A team with this name already exists");
+  }
+
+  return {
+    team: {
+      _id: new Types.ObjectId(),
+      name,
+      captainId: userId,
+      createdAt: new Date(),
+    },
+    teamCreated: true,
+  };
+};
+
+// Method to join league (the caller saves the league). Returns the invite
+// and team that were used, so storage can repeat the join atomically.
+leagueSchema.methods.addParticipant = function (
+  userId: Types.ObjectId,
+  username: string,
+  options: LeagueJoinOptions = {}
+): LeagueJoinResult {
   // Check if user already joined
   const existingParticipant = this.participants.find(
     (p: ILeagueParticipant) => p.userId.toString() === userId.toString()
@@ -214,9 +732,31 @@ leagueSchema.methods.addParticipant = async function (
     throw new Error("Cannot join league at this time");
   }
 
+  if (this.bracket) {
+    throw new Error("The bracket has already been drawn");
+  }
+
+  // Unrated players join with the starting rating
+  const rating = Math.round(options.rating ?? DEFAULT_RATING.rating);
+  const { min, max } = SKILL_LEVEL_BANDS[this.rules.skillLevel as SkillLevel];
+  if ((min !== null && rating < min) || (max !== null && rating > max)) {
+    throw new Error(
+      `Your ${this.category} rating (${rating}) is outside the ${
+        this.rules.skillLevel
+      } range (${min ?? "any"}-${max ?? "any"})`
+    );
+  }
+
+  const invite = this.checkAccess(userId, options.inviteCode);
+  const { team, teamCreated } = this.resolveTeam(userId, options);
+
+  if (invite) invite.uses += 1;
+  if (team && teamCreated) this.teams.push(team);
+
   this.participants.push({
     userId,
     username,
+    teamId: team?._id || null,
     joinedAt: new Date(),
     submissions: [],
     bestSubmission: {
@@ -227,14 +767,14 @@ leagueSchema.methods.addParticipant = async function (
     },
   });
 
-  return this.save();
+  return { invite, team, teamCreated, rating };
 };
 
-// Method to submit score
-leagueSchema.methods.submitScore = async function (
+// Method to submit score (the caller saves the league)
+leagueSchema.methods.submitScore = function (
   userId: Types.ObjectId,
   scoreData: IGameScore
-): Promise<ILeague> {
+): void {
   const participant = this.participants.find(
     (p: ILeagueParticipant) => p.userId.toString() === userId.toString()
   );
@@ -243,25 +783,47 @@ leagueSchema.methods.submitScore = async function (
     throw new Error("User not found in league");
   }
 
+  // Check if league is active (cancelled and finished leagues take no
+  // scores, bracket matches included)
+  if (this.status !== "active") {
+    throw new Error("League is not active");
+  }
+
+  // Knockout leagues: once the bracket is drawn scores go to matches, and
+  // before that only a qualifying round takes submissions
+  if (this.format === "bracket") {
+    if (this.bracket) {
+      this.submitBracketScore(userId, scoreData);
+      return;
+    }
+
+    if (this.bracketSettings.seeding !== "qualifying") {
+      throw new Error("The bracket has not been drawn yet");
+    }
+
+    if (new Date() >= this.bracketDrawAt()) {
+      throw new Error("The qualifying round is over");
+    }
+  }
+
   // Check submission limit
   if (participant.submissions.length >= this.rules.maxSubmissions) {
     throw new Error("Maximum submissions reached");
   }
 
-  // Check if league is active
-  if (this.status !== "active") {
-    throw new Error("League is not active");
-  }
-
   // Add submission
   participant.submissions.push({
     ...scoreData,
     submittedAt: new Date(),
   });
 
-  // Update best submission if this is better
+  // A flagged submission stays off the leaderboard until it is approved
+  if (scoreData.review?.status === "pending") return;
+
+  // Update best submission if this is the first one that counts, even at
+  // 0 points, or if it is better
   if (
-    !participant.bestSubmission.points ||
+    participant.submissions.filter(isCounted).length === 1 ||
     this.isBetterScore(scoreData, participant.bestSubmission)
   ) {
     participant.bestSubmission = {
@@ -269,8 +831,69 @@ leagueSchema.methods.submitScore = async function (
       submittedAt: new Date(),
     };
   }
+};
+
+// Method to settle a flagged submission (the caller saves the league). An
+// approved submission counts from then on and keeps the time it was
+// submitted at, so waiting for a moderator costs no tie-break; a rejected
+// one still uses up a submission. Once the league has ended its
+// prizes and ratings are settled, so held submissions can only be
+// rejected. Null if there is no such submission.
+leagueSchema.methods.reviewSubmission = function (
+  submissionId: string,
+  decision: "approved" | "rejected",
+  decidedBy: Types.ObjectId,
+  note?: string
+): { userId: Types.ObjectId; submission: IGameScore } | null {
+  for (const participant of this.participants as ILeagueParticipant[]) {
+    const submission = participant.submissions.find(
+      (s) => String(s._id) === submissionId
+    );
+    if (!submission) continue;
+
+    if (!submission.review) {
+      throw new Error("This submission was not flagged for review");
+    }
+
+    if (submission.review.status !== "pending") {
+      throw new Error(`Submission was already ${submission.review.status}`);
+    }
+
+    if (decision === "approved" && this.status !== "active") {
+      throw new Error(
+        "The league has ended; its held submissions can only be rejected"
+      );
+    }
+
+    submission.review.status = decision;
+    submission.review.decidedAt = new Date();
+    submission.review.decidedBy = decidedBy;
+    submission.review.note = note;
+
+    // The first counted submission is the best so far, even at 0 points
+    const firstCounted = !participant.submissions.some(
+      (s) => s !== submission && isCounted(s)
+    );
 
-  return this.save();
+    if (
+      decision === "approved" &&
+      (firstCounted ||
+        this.isBetterScore(submission, participant.bestSubmission))
+    ) {
+      participant.bestSubmission = {
+        accuracy: submission.accuracy,
+        timeInSeconds: submission.timeInSeconds,
+        points: submission.points,
+        submittedAt: submission.submittedAt,
+        gameData: submission.gameData,
+        review: submission.review,
+      };
+    }
+
+    return { userId: participant.userId, submission };
+  }
+
+  return null;
 };
 
 // Method to compare scores based on league rules
@@ -278,70 +901,362 @@ leagueSchema.methods.isBetterScore = function (
   newScore: IGameScore,
   currentBest: IGameScore
 ): boolean {
-  switch (this.rules.scoringMethod) {
-    case "accuracy_then_time":
-      if (newScore.accuracy > currentBest.accuracy) return true;
-      if (
-        newScore.accuracy === currentBest.accuracy &&
-        newScore.timeInSeconds < currentBest.timeInSeconds
-      )
-        return true;
-      return false;
-
-    case "time_then_accuracy":
-      if (newScore.timeInSeconds < currentBest.timeInSeconds) return true;
-      if (
-        newScore.timeInSeconds === currentBest.timeInSeconds &&
-        newScore.accuracy > currentBest.accuracy
-      )
-        return true;
-      return false;
-
-    case "points_only":
-    default:
-      return newScore.points > currentBest.points;
-  }
+  return (
+    scoringStrategyFor(this.rules).compare(newScore, currentBest, this.rules) <
+    0
+  );
 };
 
-// Method to get sorted leaderboard
+// Method to get the ranked leaderboard. Players stand on their best
+// submission, or on all their counted submissions combined for aggregate
+// scoring methods. Players the scoring method ranks equal go through the
+// league's tie-breakers; those still tied share a rank under the league's
+// ranking convention. Players without a counted score (or with 0 points,
+// unless includeZeroPoints) are left out.
 leagueSchema.methods.getLeaderboard = function (): ILeaderboardEntry[] {
-  const participants = this.participants
-    .filter((p: ILeagueParticipant) => p.bestSubmission.points > 0)
-    .map((p: ILeagueParticipant) => ({
-      userId: p.userId,
-      username: p.username,
-      accuracy: p.bestSubmission.accuracy,
-      timeInSeconds: p.bestSubmission.timeInSeconds,
-      points: p.bestSubmission.points,
-      submittedAt: p.bestSubmission.submittedAt,
-      submissions: p.submissions.length,
-      rank: 0, // Will be set after sorting
-    }));
-
-  // Sort based on league rules - Fixed TypeScript errors
-  participants.sort((a: ILeaderboardEntry, b: ILeaderboardEntry) => {
-    switch (this.rules.scoringMethod) {
-      case "accuracy_then_time":
-        if (b.accuracy !== a.accuracy) return b.accuracy - a.accuracy;
-        return a.timeInSeconds - b.timeInSeconds;
-
-      case "time_then_accuracy":
-        if (a.timeInSeconds !== b.timeInSeconds)
-          return a.timeInSeconds - b.timeInSeconds;
-        return b.accuracy - a.accuracy;
-
-      case "points_only":
-      default:
-        return b.points - a.points;
+  const rules = this.rules;
+  const strategy = scoringStrategyFor(rules);
+
+  const participants: ILeaderboardEntry[] = this.participants
+    .map((p: ILeagueParticipant) => {
+      const standing = standingOf(p, strategy, rules);
+      if (!standing) return null;
+
+      return {
+        userId: p.userId,
+        username: p.username,
+        accuracy: standing.accuracy,
+        timeInSeconds: standing.timeInSeconds,
+        points: standing.points,
+        ...(strategy.score ? { score: strategy.score(standing, rules) } : {}),
+        submittedAt: standing.submittedAt,
+        submissions: p.submissions.length,
+        rank: 0, // Will be set after sorting
+      };
+    })
+    .filter(
+      (entry: ILeaderboardEntry | null): entry is ILeaderboardEntry =>
+        entry !== null && (rules.includeZeroPoints || entry.points > 0)
+    );
+
+  const ranking = (a: ILeaderboardEntry, b: ILeaderboardEntry): number =>
+    strategy.compare(a, b, rules) ||
+    compareTieBreakers(rules.tieBreakers || [])(a, b);
+
+  // Tied players are listed by user id so the order never depends on
+  // the order they joined in
+  participants.sort(
+    (a, b) => ranking(a, b) || String(a.userId).localeCompare(String(b.userId))
+  );
+
+  return assignRanks(
+    participants,
+    ranking,
+    rules.rankingConvention || "standard"
+  );
+};
+
+// Method to rank teams by their members' standings, built the same way as
+// on the individual leaderboard. A member contributes the scoring method's
+// score, or their points for methods without one; "top_n" counts the
+// members contributing the most. Members without a counted submission
+// contribute 0, which still lowers an "average".
+leagueSchema.methods.getTeamLeaderboard = function (): ITeamLeaderboardEntry[] {
+  if (this.mode !== "team") return [];
+
+  const rules = this.rules;
+  const strategy = scoringStrategyFor(rules);
+  const { aggregation, topN } = this.teamSettings;
+
+  type Member = ITeamLeaderboardEntry["members"][number];
+  const contribution = (member: Member): number =>
+    member.score ?? member.points;
+
+  const teams: ITeamLeaderboardEntry[] = this.teams
+    .map((team: ILeagueTeam) => {
+      const members: Member[] = this.participants
+        .filter(
+          (p: ILeagueParticipant) =>
+            p.teamId?.toString() === team._id?.toString()
+        )
+        .map((p: ILeagueParticipant): Member => {
+          const standing = standingOf(p, strategy, rules);
+
+          return {
+            userId: p.userId,
+            username: p.username,
+            points: standing?.points || 0,
+            ...(strategy.score
+              ? { score: standing ? strategy.score(standing, rules) : 0 }
+              : {}),
+            counted: aggregation !== "top_n",
+          };
+        })
+        .sort(
+          (a: Member, b: Member) =>
+            contribution(b) - contribution(a) ||
+            a.username.localeCompare(b.username)
+        );
+
+      if (aggregation === "top_n") {
+        members.slice(0, topN).forEach((member) => (member.counted = true));
+      }
+
+      const total = members
+        .filter((member) => member.counted)
+        .reduce((sum, member) => sum + contribution(member), 0);
+
+      return {
+        rank: 0, // Will be set after sorting
+        teamId: team._id,
+        name: team.name,
+        score:
+          aggregation === "average" && members.length > 0
+            ? Math.round((total / members.length) * 100) / 100
+            : Math.round(total * 100) / 100,
+        memberCount: members.length,
+        members,
+      };
+    })
+    // Teams whose players all withdrew are left out
+    .filter((team: ITeamLeaderboardEntry) => team.memberCount > 0);
+
+  const byScore = (a: ITeamLeaderboardEntry, b: ITeamLeaderboardEntry) =>
+    b.score - a.score;
+
+  // Tied teams share a rank under the league's ranking convention and are
+  // listed by name
+  teams.sort((a, b) => byScore(a, b) || a.name.localeCompare(b.name));
+
+  return assignRanks(teams, byScore, rules.rankingConvention || "standard");
+};
+
+// Method to get when the bracket is drawn: at the start, or after the
+// qualifying round
+leagueSchema.methods.bracketDrawAt = function (): Date {
+  const { seeding, qualifyingHours } = this.bracketSettings;
+
+  return seeding === "qualifying"
+    ? new Date(this.startDate.getTime() + qualifyingHours * HOUR_MS)
+    : this.startDate;
+};
+
+// Method to draw the bracket from players in seed order. Rounds get
+// roundHours each, squeezed to fit before endDate; top seeds get the byes.
+leagueSchema.methods.drawBracket = function (
+  seeds: IBracketSlot[],
+  now: Date
+): void {
+  const size = bracketSize(seeds.length);
+  const totalRounds = Math.log2(size);
+  const startsAt = now;
+  const roundMs = Math.max(
+    0,
+    Math.min(
+      this.bracketSettings.roundHours * HOUR_MS,
+      (this.endDate.getTime() - startsAt.getTime()) / totalRounds
+    )
+  );
+
+  const positions = seedPositions(size);
+  const rounds: IBracketRound[] = [];
+
+  for (let round = 1; round <= totalRounds; round++) {
+    const matches: IBracketMatch[] = [];
+
+    for (let slot = 0; slot < size / 2 ** round; slot++) {
+      const [a, b] =
+        round === 1 ? [positions[slot * 2], positions[slot * 2 + 1]] : [0, 0];
+
+      matches.push({
+        slot,
+        playerA: seeds[a - 1] || null,
+        playerB: seeds[b - 1] || null,
+        scoreA: null,
+        scoreB: null,
+        winnerId: null,
+        decidedBy: null,
+        decidedAt: null,
+      });
     }
-  });
 
-  // Add ranks - Fixed TypeScript errors
-  participants.forEach((participant: ILeaderboardEntry, index: number) => {
-    participant.rank = index + 1;
+    rounds.push({
+      round,
+      startsAt: new Date(startsAt.getTime() + (round - 1) * roundMs),
+      endsAt: new Date(startsAt.getTime() + round * roundMs),
+      decidedAt: null,
+      matches,
+    });
+  }
+
+  this.bracket = {
+    drawnAt: now,
+    size,
+    rounds,
+    championId: null,
+    completedAt: null,
+  };
+
+  // Byes are settled straight away
+  const [firstRound] = this.bracket.rounds;
+  firstRound.matches.forEach((match: IBracketMatch) => {
+    if (!match.playerA || !match.playerB) {
+      this.decideMatch(firstRound, match, now);
+    }
   });
+};
+
+// Method to settle one match and move the winner to the next round
+leagueSchema.methods.decideMatch = function (
+  round: IBracketRound,
+  match: IBracketMatch,
+  now: Date
+): void {
+  const { playerA, playerB, scoreA, scoreB } = match;
+  let winner: IBracketSlot | null;
+
+  if (!playerA || !playerB) {
+    winner = playerA || playerB;
+    match.decidedBy = "bye";
+  } else if (scoreA && scoreB) {
+    // Same comparison as the league's leaderboard; a tie goes to the seed
+    const aBetter = this.isBetterScore(scoreA, scoreB);
+    const bBetter = this.isBetterScore(scoreB, scoreA);
+
+    if (aBetter || bBetter) {
+      winner = aBetter ? playerA : playerB;
+      match.decidedBy = "score";
+    } else {
+      winner = playerA.seed < playerB.seed ? playerA : playerB;
+      match.decidedBy = "seed";
+    }
+  } else if (scoreA || scoreB) {
+    winner = scoreA ? playerA : playerB;
+    match.decidedBy = "walkover";
+  } else {
+    winner = playerA.seed < playerB.seed ? playerA : playerB;
+    match.decidedBy = "seed";
+  }
+
+  match.winnerId = winner?.userId || null;
+  match.decidedAt = now;
+
+  const next = this.bracket.rounds[round.round];
+
+  if (!next) {
+    this.bracket.championId = match.winnerId;
+    this.bracket.completedAt = now;
+    return;
+  }
+
+  const nextMatch = next.matches[Math.floor(match.slot / 2)];
+  const slotWinner = winner
+    ? { userId: winner.userId, username: winner.username, seed: winner.seed }
+    : null;
+
+  if (match.slot % 2 === 0) {
+    nextMatch.playerA = slotWinner;
+  } else {
+    nextMatch.playerB = slotWinner;
+  }
+};
+
+// Method to settle every round whose window has closed. Returns whether
+// anything changed (the caller saves the league).
+leagueSchema.methods.advanceBracket = function (now: Date): boolean {
+  if (!this.bracket || this.bracket.completedAt) return false;
+
+  let changed = false;
+
+  for (const round of this.bracket.rounds) {
+    if (round.decidedAt) continue;
+    if (round.endsAt > now) break;
+
+    round.matches.forEach((match: IBracketMatch) => {
+      if (!match.decidedAt) this.decideMatch(round, match, now);
+    });
+    round.decidedAt = now;
+    changed = true;
+  }
+
+  return changed;
+};
+
+// Method to record a player's score in their match of the open round
+leagueSchema.methods.submitBracketScore = function (
+  userId: Types.ObjectId,
+  scoreData: IGameScore,
+  now: Date = new Date()
+): IBracketMatch {
+  const round = this.bracket?.rounds.find(
+    (r: IBracketRound) => !r.decidedAt && r.startsAt <= now && r.endsAt > now
+  );
+
+  if (!round) {
+    throw new Error("No bracket round is open right now");
+  }
+
+  const match = round.matches.find(
+    (m: IBracketMatch) =>
+      !m.decidedAt &&
+      (m.playerA?.userId.toString() === userId.toString() ||
+        m.playerB?.userId.toString() === userId.toString())
+  );
+
+  if (!match) {
+    throw new Error("You are not playing in this round");
+  }
+
+  const side =
+    match.playerA?.userId.toString() === userId.toString()
+      ? "scoreA"
+      : "scoreB";
+
+  if (match[side]) {
+    throw new Error("You already submitted a score for this match");
+  }
+
+  match[side] = { ...scoreData, submittedAt: now };
+  return match;
+};
+
+// Method to rank bracket players: the champion, then players by the round
+// they went out in (later is better) and their seed
+leagueSchema.methods.getBracketPlacements = function (): IBracketPlacement[] {
+  if (!this.bracket) return [];
+
+  const placements: IBracketPlacement[] = [];
+  const place = (slot: IBracketSlot, eliminatedInRound: number | null) =>
+    placements.push({
+      rank: placements.length + 1,
+      userId: slot.userId,
+      username: slot.username,
+      seed: slot.seed,
+      eliminatedInRound,
+    });
+
+  const rounds: IBracketRound[] = [...this.bracket.rounds].reverse();
+  const finalMatch = rounds[0]?.matches[0];
+  const champion = [finalMatch?.playerA, finalMatch?.playerB].find(
+    (player) =>
+      player && player.userId.toString() === this.bracket.championId?.toString()
+  );
+
+  if (champion) place(champion, null);
+
+  for (const round of rounds) {
+    round.matches
+      .filter((match) => match.decidedAt && match.playerA && match.playerB)
+      .map((match) =>
+        match.winnerId?.toString() === match.playerA!.userId.toString()
+          ? match.playerB!
+          : match.playerA!
+      )
+      .sort((a, b) => a.seed - b.seed)
+      .forEach((player) => place(player, round.round));
+  }
 
-  return participants;
+  return placements;
 };
 
 export const League = mongoose.model<ILeague>("League", leagueSchema);
@@ -0,0 +1,158 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+import { ILeague } from "../types";
+import { RANKING_CONVENTIONS, TIE_BREAKERS } from "../utils/ranking";
+import { SCORING_METHODS } from "../utils/scoring";
+
+// When a recurring league starts, in UTC. Weekly templates use dayOfWeek
+// (0 = Sunday), monthly ones dayOfMonth (up to 28 so every month has it).
+export interface ILeagueRecurrence {
+  frequency: "weekly" | "monthly";
+  dayOfWeek?: number;
+  dayOfMonth?: number;
+  hour: number;
+  minute: number;
+  durationDays: number;
+}
+
+export interface ILeagueTemplate extends Document {
+  name: string;
+  description: string;
+  maxParticipants: number;
+  entryFee: number;
+  prizes: ILeague["prizes"];
+  rules: ILeague["rules"];
+  category: ILeague["category"];
+  isPublic: boolean;
+  recurrence: ILeagueRecurrence;
+  // Leagues are created this many days before they start
+  createAheadDays: number;
+  isActive: boolean;
+  // Start of the latest league created from this template
+  lastScheduledStart?: Date | null;
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const leagueTemplateSchema = new Schema<ILeagueTemplate>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+      required: true,
+    },
+    maxParticipants: {
+      type: Number,
+      default: 1000,
+    },
+    entryFee: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    prizes: [
+      {
+        _id: false,
+        rank: Number,
+        description: String,
+        credits: { type: Number, default: 0 },
+        badge: String,
+      },
+    ],
+    rules: {
+      scoringMethod: {
+        type: String,
+        enum: SCORING_METHODS,
+        default: "accuracy_then_time",
+      },
+      scoringWeights: {
+        accuracy: { type: Number, default: 1, min: 0 },
+        time: { type: Number, default: 0.1, min: 0 },
+        points: { type: Number, default: 0, min: 0 },
+      },
+      bestOf: {
+        type: Number,
+        default: 3,
+        min: 1,
+      },
+      maxSubmissions: {
+        type: Number,
+        default: 3,
+      },
+      skillLevel: {
+        type: String,
+        enum: ["beginner", "intermediate", "advanced", "expert"],
+        default: "intermediate",
+      },
+      tieBreakers: {
+        type: [{ type: String, enum: TIE_BREAKERS }],
+        default: [],
+      },
+      rankingConvention: {
+        type: String,
+        enum: RANKING_CONVENTIONS,
+        default: "standard",
+      },
+      includeZeroPoints: {
+        type: Boolean,
+        default: false,
+      },
+    },
+    category: {
+      type: String,
+      enum: ["math", "science", "language", "general", "mixed"],
+      default: "general",
+    },
+    isPublic: {
+      type: Boolean,
+      default: true,
+    },
+    recurrence: {
+      frequency: {
+        type: String,
+        enum: ["weekly", "monthly"],
+        required: true,
+      },
+      dayOfWeek: { type: Number, min: 0, max: 6 },
+      dayOfMonth: { type: Number, min: 1, max: 28 },
+      hour: { type: Number, min: 0, max: 23, default: 0 },
+      minute: { type: Number, min: 0, max: 59, default: 0 },
+      durationDays: { type: Number, min: 1, required: true },
+    },
+    createAheadDays: {
+      type: Number,
+      default: 7,
+      min: 0,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    lastScheduledStart: {
+      type: Date,
+      default: null,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: "league_templates",
+  }
+);
+
+leagueTemplateSchema.index({ isActive: 1 });
+leagueTemplateSchema.index({ createdBy: 1 });
+
+export const LeagueTemplate = mongoose.model<ILeagueTemplate>(
+  "LeagueTemplate",
+  leagueTemplateSchema
+);
+export default LeagueTemplate;
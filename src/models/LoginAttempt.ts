@@ -0,0 +1,59 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// Failed login counter for one account (by email) or one client (by IP).
+// Kept in MongoDB so every serverless instance sees the same counters.
+export interface ILoginAttempt extends Document {
+  key: string;
+  scope: "account" | "ip";
+  failures: number;
+  lastFailureAt: Date;
+  lockedUntil?: Date | null;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const loginAttemptSchema = new Schema<ILoginAttempt>(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    scope: {
+      type: String,
+      enum: ["account", "ip"],
+      required: true,
+    },
+    failures: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    lastFailureAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lockedUntil: {
+      type: Date,
+      default: null,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: "login_attempts",
+  }
+);
+
+// Counters disappear on their own once the tracking window has passed
+loginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const LoginAttempt = mongoose.model<ILoginAttempt>(
+  "LoginAttempt",
+  loginAttemptSchema
+);
+export default LoginAttempt;
@@ -0,0 +1,52 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// Pending OpenID Connect login: what we need to check the provider's
+// response when the user comes back with an authorization code
+export interface IOidcState extends Document {
+  state: string;
+  nonce: string;
+  codeVerifier: string; // PKCE
+  redirectUri: string;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const oidcStateSchema = new Schema<IOidcState>(
+  {
+    state: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    nonce: {
+      type: String,
+      required: true,
+    },
+    codeVerifier: {
+      type: String,
+      required: true,
+    },
+    redirectUri: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: "oidc_states",
+  }
+);
+
+// Abandoned logins are cleaned up automatically
+oidcStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const OidcState = mongoose.model<IOidcState>(
+  "OidcState",
+  oidcStateSchema
+);
+export default OidcState;
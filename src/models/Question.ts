@@ -0,0 +1,101 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+
+export type QuestionSubject = "math" | "science" | "language" | "general";
+export type QuestionDifficulty =
+  | "beginner"
+  | "intermediate"
+  | "advanced"
+  | "expert";
+
+export const QUESTION_SUBJECTS: QuestionSubject[] = [
+  "math",
+  "science",
+  "language",
+  "general",
+];
+export const QUESTION_DIFFICULTIES: QuestionDifficulty[] = [
+  "beginner",
+  "intermediate",
+  "advanced",
+  "expert",
+];
+
+// A multiple choice question in the question bank; `answer` is the index
+// of the right choice
+export interface IQuestion extends Document {
+  subject: QuestionSubject;
+  difficulty: QuestionDifficulty;
+  prompt: string;
+  choices: string[];
+  answer: number;
+  explanation?: string;
+  tags: string[];
+  isActive: boolean;
+  createdBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const questionSchema = new Schema<IQuestion>(
+  {
+    subject: {
+      type: String,
+      enum: QUESTION_SUBJECTS,
+      required: true,
+    },
+    difficulty: {
+      type: String,
+      enum: QUESTION_DIFFICULTIES,
+      required: true,
+    },
+    prompt: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    choices: {
+      type: [String],
+      validate: {
+        validator: (choices: string[]) =>
+          choices.length >= 2 && choices.length <= 6,
+        message: "A question needs 2 to 6 choices",
+      },
+    },
+    answer: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    explanation: {
+      type: String,
+    },
+    tags: [
+      {
+        type: String,
+        lowercase: true,
+        trim: true,
+      },
+    ],
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+  },
+  {
+    timestamps: true,
+    collection: "questions",
+  }
+);
+
+// Sets are drawn by subject and difficulty
+questionSchema.index({ subject: 1, difficulty: 1, isActive: 1 });
+questionSchema.index({ tags: 1 });
+// The same prompt is only stored once per subject
+questionSchema.index({ subject: 1, prompt: 1 }, { unique: true });
+
+export const Question = mongoose.model<IQuestion>("Question", questionSchema);
+export default Question;
@@ -0,0 +1,80 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+import { ILeague } from "../types";
+
+// One rating update from a completed league. A league changes each
+// player's rating at most once.
+export interface IRatingChange extends Document {
+  userId: Types.ObjectId;
+  leagueId: Types.ObjectId;
+  category: ILeague["category"];
+  rank: number;
+  players: number;
+  ratingBefore: number;
+  deviationBefore: number;
+  rating: number;
+  deviation: number;
+  volatility: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ratingChangeSchema = new Schema<IRatingChange>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    leagueId: {
+      type: Schema.Types.ObjectId,
+      ref: "League",
+      required: true,
+    },
+    category: {
+      type: String,
+      enum: ["math", "science", "language", "general", "mixed"],
+      required: true,
+    },
+    rank: {
+      type: Number,
+      required: true,
+    },
+    players: {
+      type: Number,
+      required: true,
+    },
+    ratingBefore: {
+      type: Number,
+      required: true,
+    },
+    deviationBefore: {
+      type: Number,
+      required: true,
+    },
+    rating: {
+      type: Number,
+      required: true,
+    },
+    deviation: {
+      type: Number,
+      required: true,
+    },
+    volatility: {
+      type: Number,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: "rating_changes",
+  }
+);
+
+ratingChangeSchema.index({ userId: 1, leagueId: 1 }, { unique: true });
+ratingChangeSchema.index({ userId: 1, category: 1, createdAt: -1 });
+
+export const RatingChange = mongoose.model<IRatingChange>(
+  "RatingChange",
+  ratingChangeSchema
+);
+export default RatingChange;
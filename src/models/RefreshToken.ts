@@ -0,0 +1,77 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+
+// Interface for a stored refresh token. Every token belongs to a "family"
+// (one login session); rotation issues a new token in the same family.
+export interface IRefreshToken extends Document {
+  userId: Types.ObjectId;
+  family: string;
+  tokenHash: string;
+  expiresAt: Date;
+  revokedAt?: Date | null;
+  revokedReason?: string;
+  replacedByHash?: string;
+  createdByIp?: string;
+  userAgent?: string;
+  impersonatedBy?: Types.ObjectId | null; // admin acting as this user
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const refreshTokenSchema = new Schema<IRefreshToken>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    family: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+    revokedReason: {
+      type: String,
+    },
+    replacedByHash: {
+      type: String,
+    },
+    createdByIp: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+    impersonatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    collection: "refresh_tokens",
+  }
+);
+
+// Let MongoDB purge expired tokens automatically
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RefreshToken = mongoose.model<IRefreshToken>(
+  "RefreshToken",
+  refreshTokenSchema
+);
+export default RefreshToken;
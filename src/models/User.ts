@@ -25,11 +25,28 @@ const userSchema = new Schema<IUser>(
       lowercase: true,
       trim: true,
     },
+    emailVerified: {
+      type: Boolean,
+      default: false,
+    },
+    emailVerifiedAt: {
+      type: Date,
+    },
+    pendingEmail: {
+      type: String,
+      lowercase: true,
+      trim: true,
+    },
     password: {
       type: String,
       required: true,
       minlength: 6,
     },
+    role: {
+      type: String,
+      enum: ["user", "organizer", "moderator", "admin"],
+      default: "user",
+    },
     credits: {
       type: Number,
       default: 100, // Starting credits for new users
@@ -61,6 +78,52 @@ const userSchema = new Schema<IUser>(
         },
       },
     ],
+    twoFactor: {
+      enabled: { type: Boolean, default: false },
+      secret: { type: String },
+      pendingSecret: { type: String },
+      recoveryCodes: [{ type: String }], // SHA-256 hashes
+      lastUsedStep: { type: Number, default: 0 },
+      enabledAt: { type: Date },
+    },
+    identities: [
+      {
+        issuer: { type: String, required: true },
+        subject: { type: String, required: true },
+        email: { type: String, lowercase: true, trim: true },
+        linkedAt: { type: Date, default: Date.now },
+      },
+    ],
+    badges: [
+      {
+        name: { type: String, required: true },
+        leagueId: { type: Schema.Types.ObjectId, ref: "League" },
+        rank: { type: Number },
+        awardedAt: { type: Date, default: Date.now },
+      },
+    ],
+    ratings: [
+      {
+        _id: false,
+        category: {
+          type: String,
+          enum: ["math", "science", "language", "general", "mixed"],
+          required: true,
+        },
+        rating: { type: Number, required: true },
+        deviation: { type: Number, required: true },
+        volatility: { type: Number, required: true },
+        leagues: { type: Number, default: 0 },
+        leagueId: { type: Schema.Types.ObjectId, ref: "League" },
+        updatedAt: { type: Date, default: Date.now },
+      },
+    ],
+    // Refunds and prizes already added to the balance, so a retried
+    // credit lands once
+    appliedCredits: {
+      type: [{ type: Schema.Types.ObjectId, ref: "CreditTransaction" }],
+      select: false,
+    },
     isActive: {
       type: Boolean,
       default: true,
@@ -79,6 +142,15 @@ const userSchema = new Schema<IUser>(
 
 // Indexes for performance
 userSchema.index({ totalPoints: -1 });
+userSchema.index({ role: 1 });
+// One external account can only ever sign in as one user
+userSchema.index(
+  { "identities.issuer": 1, "identities.subject": 1 },
+  {
+    unique: true,
+    partialFilterExpression: { "identities.subject": { $exists: true } },
+  }
+);
 
 // Hash password before saving
 userSchema.pre("save", async function (next) {
@@ -151,6 +223,9 @@ userSchema.methods.ownsReader = function (readerId: Types.ObjectId): boolean {
 userSchema.methods.toJSON = function () {
   const userObject = this.toObject();
   delete userObject.password;
+  if (userObject.twoFactor) {
+    userObject.twoFactor = { enabled: userObject.twoFactor.enabled };
+  }
   return userObject;
 };
 
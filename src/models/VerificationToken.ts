@@ -0,0 +1,119 @@
+import mongoose, { Document, Model, Schema, Types } from "mongoose";
+import { generateToken, hashToken } from "../utils/tokens";
+
+export type VerificationPurpose =
+  | "email_verification"
+  | "password_reset"
+  | "account_unlock"
+  | "email_change";
+
+// Interface for a single-use token sent to the user by email
+export interface IVerificationToken extends Document {
+  userId: Types.ObjectId;
+  purpose: VerificationPurpose;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Interface for static methods
+interface IVerificationTokenStatics {
+  issue(
+    userId: Types.ObjectId | string,
+    purpose: VerificationPurpose,
+    ttlMs: number
+  ): Promise<string>;
+  consume(
+    rawToken: string,
+    purpose: VerificationPurpose
+  ): Promise<IVerificationToken | null>;
+}
+
+interface IVerificationTokenModel
+  extends Model<IVerificationToken>,
+    IVerificationTokenStatics {}
+
+const verificationTokenSchema = new Schema<IVerificationToken>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    purpose: {
+      type: String,
+      enum: [
+        "email_verification",
+        "password_reset",
+        "account_unlock",
+        "email_change",
+      ],
+      required: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    usedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    collection: "verification_tokens",
+  }
+);
+
+// Let MongoDB purge expired tokens automatically
+verificationTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Static method to create a token, invalidating older ones for the same purpose
+verificationTokenSchema.statics.issue = async function (
+  userId: Types.ObjectId | string,
+  purpose: VerificationPurpose,
+  ttlMs: number
+): Promise<string> {
+  const rawToken = generateToken(32);
+
+  await this.deleteMany({ userId, purpose, usedAt: null });
+  await this.create({
+    userId,
+    purpose,
+    tokenHash: hashToken(rawToken),
+    expiresAt: new Date(Date.now() + ttlMs),
+  });
+
+  return rawToken;
+};
+
+// Static method to atomically mark a token as used; null if invalid/expired
+verificationTokenSchema.statics.consume = async function (
+  rawToken: string,
+  purpose: VerificationPurpose
+): Promise<IVerificationToken | null> {
+  return this.findOneAndUpdate(
+    {
+      tokenHash: hashToken(rawToken),
+      purpose,
+      usedAt: null,
+      expiresAt: { $gt: new Date() },
+    },
+    { usedAt: new Date() },
+    { new: true }
+  );
+};
+
+export const VerificationToken = mongoose.model<
+  IVerificationToken,
+  IVerificationTokenModel
+>("VerificationToken", verificationTokenSchema);
+export default VerificationToken;
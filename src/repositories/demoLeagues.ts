@@ -0,0 +1,148 @@
+import { Types } from "mongoose";
+import League from "../models/League";
+import { ILeague, IGameScore } from "../types";
+
+// Fixed ids so demo links and bookmarks keep working across restarts
+export const DEMO_LEAGUE_IDS = {
+  speedReading: "64f000000000000000000001",
+  mathMasters: "64f000000000000000000002",
+  scienceQuiz: "64f000000000000000000003",
+};
+
+export const DEMO_ADMIN = {
+  userId: "64f0000000000000000000ff",
+  username: "50cube",
+};
+
+const DEMO_PLAYERS = [
+  { userId: "64f0000000000000000000a1", username: "SpeedReader99" },
+  { userId: "64f0000000000000000000a2", username: "QuickLearner" },
+  { userId: "64f0000000000000000000a3", username: "StudyMaster" },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Demo players who already submitted one score each
+const demoParticipants = (scores: IGameScore[], joinedAt: Date) =>
+  scores.map((score, index) => {
+    const submission = { ...score, submittedAt: joinedAt };
+    return {
+      userId: new Types.ObjectId(DEMO_PLAYERS[index].userId),
+      username: DEMO_PLAYERS[index].username,
+      joinedAt,
+      submissions: [submission],
+      bestSubmission: submission,
+    };
+  });
+
+/**
+ * The leagues shown in demo mode, with dates relative to now
+ */
+export const createDemoLeagues = (now: Date = new Date()): ILeague[] => {
+  const startedAt = new Date(now.getTime() - 60 * 60 * 1000);
+  const createdBy = new Types.ObjectId(DEMO_ADMIN.userId);
+
+  return [
+    new League({
+      _id: new Types.ObjectId(DEMO_LEAGUE_IDS.speedReading),
+      name: "Speed Reading Championship",
+      description:
+        "Test your reading speed and comprehension in this weekly challenge",
+      startDate: startedAt,
+      endDate: new Date(now.getTime() + 7 * DAY_MS),
+      maxParticipants: 100,
+      entryFee: 0,
+      prizes: [
+        { rank: 1, description: "500 Credits + Gold Badge", credits: 500 },
+        { rank: 2, description: "300 Credits + Silver Badge", credits: 300 },
+        { rank: 3, description: "200 Credits + Bronze Badge", credits: 200 },
+      ],
+      rules: {
+        scoringMethod: "accuracy_then_time",
+        maxSubmissions: 3,
+        skillLevel: "intermediate",
+      },
+      participants: demoParticipants(
+        [
+          { accuracy: 95, timeInSeconds: 480, points: 96 },
+          { accuracy: 95, timeInSeconds: 520, points: 95 },
+          { accuracy: 90, timeInSeconds: 450, points: 91 },
+        ],
+        startedAt
+      ),
+      status: "active",
+      category: "language",
+      createdBy,
+    }),
+    new League({
+      _id: new Types.ObjectId(DEMO_LEAGUE_IDS.mathMasters),
+      name: "Math Masters League",
+      description: "Compete in advanced mathematics problems and calculations",
+      startDate: new Date(now.getTime() + DAY_MS),
+      endDate: new Date(now.getTime() + 8 * DAY_MS),
+      maxParticipants: 50,
+      entryFee: 0,
+      prizes: [
+        {
+          rank: 1,
+          description: "800 Credits + Math Expert Badge",
+          credits: 800,
+        },
+        {
+          rank: 2,
+          description: "400 Credits + Calculator Badge",
+          credits: 400,
+        },
+        { rank: 3, description: "300 Credits + Numbers Badge", credits: 300 },
+      ],
+      rules: {
+        scoringMethod: "accuracy_then_time",
+        maxSubmissions: 1,
+        skillLevel: "advanced",
+      },
+      participants: [],
+      status: "upcoming",
+      category: "math",
+      createdBy,
+    }),
+    new League({
+      _id: new Types.ObjectId(DEMO_LEAGUE_IDS.scienceQuiz),
+      name: "Science Quiz Challenge",
+      description:
+        "General science knowledge competition covering physics, chemistry, and biology",
+      startDate: startedAt,
+      endDate: new Date(now.getTime() + 5 * DAY_MS),
+      maxParticipants: 200,
+      entryFee: 0,
+      prizes: [
+        {
+          rank: 1,
+          description: "1000 Credits + Scientist Badge",
+          credits: 1000,
+        },
+        { rank: 2, description: "600 Credits + Lab Badge", credits: 600 },
+        { rank: 3, description: "400 Credits + Discovery Badge", credits: 400 },
+      ],
+      rules: {
+        scoringMethod: "accuracy_then_time",
+        maxSubmissions: 2,
+        skillLevel: "beginner",
+      },
+      participants: demoParticipants(
+        [
+          { accuracy: 88, timeInSeconds: 610, points: 88 },
+          { accuracy: 92, timeInSeconds: 580, points: 92 },
+          { accuracy: 85, timeInSeconds: 540, points: 85 },
+        ],
+        startedAt
+      ),
+      status: "active",
+      category: "science",
+      createdBy,
+    }),
+  ].map((league) => {
+    league.createdAt = startedAt;
+    league.updatedAt = startedAt;
+    return league;
+  });
+};
@@ -0,0 +1,88 @@
+import { Types } from "mongoose";
+import User from "../models/User";
+import { leagueService } from "../services/leagueService";
+import { DEMO_ADMIN, DEMO_LEAGUE_IDS } from "./demoLeagues";
+import { InMemoryLeagueRepository } from "./inMemoryLeagueRepository";
+
+process.env.LEAGUE_STORE = "memory";
+
+const ratedPlayer = (rating: number) =>
+  new User({
+    _id: new Types.ObjectId(),
+    username: `player${rating}`,
+    email: `player${rating}@example.com`,
+    password: "not-used-here",
+    ratings: [{ category: "math", rating, deviation: 80, volatility: 0.06 }],
+  });
+
+describe("InMemoryLeagueRepository.addParticipant", () => {
+  it("checks the skill level with the rating of the dry run", async () => {
+    const repository = new InMemoryLeagueRepository();
+    const league = (await repository.findById(DEMO_LEAGUE_IDS.mathMasters))!;
+    const userId = new Types.ObjectId();
+
+    const join = league.addParticipant(userId, "rated", { rating: 1800 });
+    const joined = await repository.addParticipant(
+      DEMO_LEAGUE_IDS.mathMasters,
+      userId,
+      "rated",
+      join
+    );
+
+    expect(joined?.participants.map((p) => String(p.userId))).toContain(
+      String(userId)
+    );
+  });
+
+  it("still rejects a rating outside the skill level", async () => {
+    const repository = new InMemoryLeagueRepository();
+    const league = (await repository.findById(DEMO_LEAGUE_IDS.mathMasters))!;
+
+    expect(() =>
+      league.addParticipant(new Types.ObjectId(), "new", { rating: 1500 })
+    ).toThrow("outside the advanced range");
+  });
+});
+
+describe("InMemoryLeagueRepository.list", () => {
+  it("returns the creator as { _id, username } like the MongoDB populate", async () => {
+    const repository = new InMemoryLeagueRepository();
+
+    const { leagues } = await repository.list({}, { skip: 0, limit: 10 });
+    const listed = JSON.parse(JSON.stringify(leagues[0]));
+
+    expect(listed.createdBy).toEqual({
+      _id: DEMO_ADMIN.userId,
+      id: DEMO_ADMIN.userId,
+      username: DEMO_ADMIN.username,
+    });
+  });
+
+  it("leaves the stored league with the plain creator id", async () => {
+    const repository = new InMemoryLeagueRepository();
+    await repository.list({}, { skip: 0, limit: 10 });
+
+    const league = (await repository.findById(DEMO_LEAGUE_IDS.mathMasters))!;
+    expect(league.createdBy.toString()).toBe(DEMO_ADMIN.userId);
+  });
+});
+
+describe("leagueService.enter in demo mode", () => {
+  it("lets a player rated for an advanced league join it", async () => {
+    const { getLeagueRepository } = await import("./leagueRepository");
+    const league = (await getLeagueRepository().findById(
+      DEMO_LEAGUE_IDS.mathMasters
+    ))!;
+    const user = ratedPlayer(1800);
+
+    const { league: joined, entryFeePaid } = await leagueService.enter(
+      league,
+      user
+    );
+
+    expect(entryFeePaid).toBe(0);
+    expect(joined.participants.map((p) => String(p.userId))).toContain(
+      String(user._id)
+    );
+  });
+});
@@ -0,0 +1,288 @@
+import mongoose, { Types } from "mongoose";
+import League from "../models/League";
+import User from "../models/User";
+import {
+  ILeague,
+  ILeaguePrizeAward,
+  LeagueJoinResult,
+  LeagueLifecycleEvent,
+  SubmissionReviewStatus,
+} from "../types";
+import { createDemoLeagues, DEMO_ADMIN } from "./demoLeagues";
+import type {
+  LeagueRepository,
+  LeagueListFilter,
+  LeagueListOptions,
+  LeagueLifecycleWindow,
+} from "./leagueRepository";
+
+// Demo mode storage: leagues live in process memory and reset on restart.
+// Reads hand out copies, so changes only stick once saved - like MongoDB.
+export class InMemoryLeagueRepository implements LeagueRepository {
+  private leagues = new Map<string, ILeague>();
+
+  constructor(seed: ILeague[] = createDemoLeagues()) {
+    seed.forEach((league) => this.store(league));
+  }
+
+  async list(
+    filter: LeagueListFilter,
+    { skip, limit }: LeagueListOptions
+  ): Promise<{ leagues: ILeague[]; total: number }> {
+    const matches = Array.from(this.leagues.values())
+      .map((league) => this.copy(league))
+      .filter(
+        (league) =>
+          (!filter.status || league.status === filter.status) &&
+          (!filter.category || league.category === filter.category) &&
+          (!filter.skillLevel ||
+            league.rules.skillLevel === filter.skillLevel) &&
+          (filter.isPublic === undefined ||
+            league.isPublic === filter.isPublic) &&
+          (!filter.templateId ||
+            String(league.templateId) === String(filter.templateId))
+      )
+      // Same order as the MongoDB query: startDate asc, then newest first
+      .sort(
+        (a, b) =>
+          a.startDate.getTime() - b.startDate.getTime() ||
+          b.createdAt.getTime() - a.createdAt.getTime()
+      );
+
+    return {
+      leagues: await this.populateCreators(matches.slice(skip, skip + limit)),
+      total: matches.length,
+    };
+  }
+
+  // The demo admin has no account; other creators are looked up only when
+  // MongoDB is connected, and like populate() an unknown one becomes null
+  async populateCreators(leagues: ILeague[]): Promise<ILeague[]> {
+    const ids = leagues
+      .map((league) => String(league.createdBy))
+      .filter((id) => id !== DEMO_ADMIN.userId);
+    const creators =
+      ids.length && mongoose.connection.readyState === 1
+        ? await User.find({ _id: { $in: ids } })
+            .select("username")
+            .lean<{ _id: Types.ObjectId; username: string }[]>()
+        : [];
+    creators.push({
+      _id: new Types.ObjectId(DEMO_ADMIN.userId),
+      username: DEMO_ADMIN.username,
+    });
+
+    leagues.forEach((league) => {
+      const creator = creators.find(
+        (user) => String(user._id) === String(league.createdBy)
+      );
+
+      // A new User document marks the path as populated; the projection
+      // keeps defaults out, as select("username") would
+      league.set(
+        "createdBy",
+        creator ? new User(creator, { _id: 1, username: 1 }) : null
+      );
+    });
+    return leagues;
+  }
+
+  async findById(id: string): Promise<ILeague | null> {
+    const league = this.leagues.get(id);
+    return league ? this.copy(league) : null;
+  }
+
+  async findByInviteCode(code: string): Promise<ILeague | null> {
+    const league = Array.from(this.leagues.values()).find((l) =>
+      l.invites.some((invite) => invite.code === code.toUpperCase())
+    );
+    return league ? this.copy(league) : null;
+  }
+
+  async create(data: Partial<ILeague>): Promise<ILeague> {
+    return this.save(new League(data));
+  }
+
+  async save(league: ILeague): Promise<ILeague> {
+    // What the pre-save hook and timestamps would do in MongoDB
+    league.refreshStatus();
+    await league.validate();
+
+    const now = new Date();
+    if (!league.createdAt) league.createdAt = now;
+    league.updatedAt = now;
+
+    this.store(league);
+    return league;
+  }
+
+  // Check and change happen without awaiting, so they cannot interleave
+  async addParticipant(
+    leagueId: string,
+    userId: Types.ObjectId,
+    username: string,
+    join?: LeagueJoinResult
+  ): Promise<ILeague | null> {
+    const league = this.leagues.get(leagueId);
+    if (!league) return null;
+
+    const updated = this.copy(league);
+    try {
+      const result = updated.addParticipant(userId, username, {
+        inviteCode: join?.invite?.code,
+        teamId: join?.teamCreated ? undefined : join?.team?._id?.toString(),
+        teamName: join?.teamCreated ? join.team?.name : undefined,
+        rating: join?.rating,
+      });
+
+      // Keep the id the caller already saw for a new team
+      if (result.teamCreated && join?.team?._id) {
+        updated.teams[updated.teams.length - 1]._id = join.team._id;
+        updated.participants[updated.participants.length - 1].teamId =
+          join.team._id;
+      }
+    } catch {
+      return null;
+    }
+
+    this.store(updated);
+    return this.copy(updated);
+  }
+
+  async removeParticipant(
+    leagueId: string,
+    userId: Types.ObjectId
+  ): Promise<ILeague | null> {
+    const league = this.leagues.get(leagueId);
+    const index = league
+      ? league.participants.findIndex(
+          (p) => p.userId.toString() === userId.toString()
+        )
+      : -1;
+
+    if (
+      !league ||
+      index === -1 ||
+      league.status !== "upcoming" ||
+      league.startDate <= new Date()
+    ) {
+      return null;
+    }
+
+    const updated = this.copy(league);
+    updated.participants.splice(index, 1);
+
+    this.store(updated);
+    return this.copy(updated);
+  }
+
+  async claimPayout(
+    leagueId: string,
+    awards: ILeaguePrizeAward[]
+  ): Promise<ILeague | null> {
+    const league = this.leagues.get(leagueId);
+    if (
+      !league ||
+      league.status === "cancelled" ||
+      league.endDate > new Date() ||
+      league.payout
+    ) {
+      return null;
+    }
+
+    const updated = this.copy(league);
+    updated.payout = { awards, createdAt: new Date(), paidAt: null };
+
+    this.store(updated);
+    return this.copy(updated);
+  }
+
+  async listLifecycleDue({
+    now,
+    closingSoonBefore,
+  }: LeagueLifecycleWindow): Promise<ILeague[]> {
+    return Array.from(this.leagues.values())
+      .filter((league) => {
+        const { lifecycleEvents: fired, startDate, endDate } = league;
+        const running = startDate <= now && endDate > now;
+
+        return (
+          league.status !== "cancelled" &&
+          ((!fired.started && running) ||
+            (!fired.closingSoon && running && endDate <= closingSoonBefore) ||
+            (!fired.completed && endDate <= now))
+        );
+      })
+      .sort((a, b) => a.endDate.getTime() - b.endDate.getTime())
+      .map((league) => this.copy(league));
+  }
+
+  async listUnrated(completedBefore: Date): Promise<ILeague[]> {
+    return Array.from(this.leagues.values())
+      .filter(
+        (league) =>
+          league.status !== "cancelled" &&
+          !league.ratedAt &&
+          !!league.lifecycleEvents.completed &&
+          league.lifecycleEvents.completed <= completedBefore
+      )
+      .map((league) => this.copy(league));
+  }
+
+  async listOpenBrackets(now: Date): Promise<ILeague[]> {
+    return Array.from(this.leagues.values())
+      .filter(
+        (league) =>
+          league.format === "bracket" &&
+          league.status !== "cancelled" &&
+          league.startDate <= now &&
+          !league.bracket?.completedAt
+      )
+      .map((league) => this.copy(league));
+  }
+
+  async listWithReviews(status: SubmissionReviewStatus): Promise<ILeague[]> {
+    return Array.from(this.leagues.values())
+      .filter((league) =>
+        league.participants.some((p) =>
+          p.submissions.some((s) => s.review?.status === status)
+        )
+      )
+      .map((league) => this.copy(league));
+  }
+
+  async claimLifecycleEvent(
+    leagueId: string,
+    event: LeagueLifecycleEvent,
+    status: ILeague["status"]
+  ): Promise<ILeague | null> {
+    const league = this.leagues.get(leagueId);
+    if (
+      !league ||
+      league.status === "cancelled" ||
+      league.lifecycleEvents[event]
+    ) {
+      return null;
+    }
+
+    const updated = this.copy(league);
+    updated.lifecycleEvents[event] = new Date();
+    updated.status = status;
+
+    this.store(updated);
+    return this.copy(updated);
+  }
+
+  private store(league: ILeague): void {
+    // MongoDB documents always carry a version key
+    if (league.get("__v") === undefined) league.set("__v", 0);
+    this.leagues.set(String(league._id), this.copy(league));
+  }
+
+  // Copies report the status the dates give, like the MongoDB reads
+  private copy(league: ILeague): ILeague {
+    const copy = League.hydrate(league.toObject({ virtuals: false }));
+    copy.refreshStatus();
+    return copy;
+  }
+}
@@ -0,0 +1,107 @@
+import { Types } from "mongoose";
+import {
+  ILeague,
+  ILeaguePrizeAward,
+  LeagueJoinResult,
+  LeagueLifecycleEvent,
+  SubmissionReviewStatus,
+} from "../types";
+import { MongoLeagueRepository } from "./mongoLeagueRepository";
+import { InMemoryLeagueRepository } from "./inMemoryLeagueRepository";
+
+export interface LeagueListFilter {
+  status?: ILeague["status"];
+  category?: ILeague["category"];
+  skillLevel?: ILeague["rules"]["skillLevel"];
+  isPublic?: boolean;
+  templateId?: Types.ObjectId;
+}
+
+export interface LeagueLifecycleWindow {
+  now: Date;
+  // Leagues ending before this are closing soon
+  closingSoonBefore: Date;
+}
+
+export interface LeagueListOptions {
+  skip: number;
+  limit: number;
+}
+
+// Storage for leagues. Both implementations hand out League documents,
+// so routes use the same model methods and serialize identically. Reads
+// report the status the league's dates give it, even before it is saved.
+export interface LeagueRepository {
+  list(
+    filter: LeagueListFilter,
+    options: LeagueListOptions
+  ): Promise<{ leagues: ILeague[]; total: number }>;
+  // Replace createdBy with { _id, username } for responses; list does this
+  // already. Leagues read for changes keep the plain id.
+  populateCreators(leagues: ILeague[]): Promise<ILeague[]>;
+  findById(id: string): Promise<ILeague | null>;
+  findByInviteCode(code: string): Promise<ILeague | null>;
+  create(data: Partial<ILeague>): Promise<ILeague>;
+  save(league: ILeague): Promise<ILeague>;
+  // Atomic joins and withdrawals: null when the league is full, closed,
+  // private without access, the team is full or taken or the user is
+  // already in (join) / not in it or it has started (withdraw). The join
+  // repeats what League.addParticipant decided: invite used, team joined.
+  addParticipant(
+    leagueId: string,
+    userId: Types.ObjectId,
+    username: string,
+    join?: LeagueJoinResult
+  ): Promise<ILeague | null>;
+  removeParticipant(
+    leagueId: string,
+    userId: Types.ObjectId
+  ): Promise<ILeague | null>;
+  // Record the prize awards of a completed league; null if already recorded
+  claimPayout(
+    leagueId: string,
+    awards: ILeaguePrizeAward[]
+  ): Promise<ILeague | null>;
+  // Leagues with a lifecycle hook that is due but has not fired yet
+  listLifecycleDue(window: LeagueLifecycleWindow): Promise<ILeague[]>;
+  // Leagues whose "completed" hook fired before this but which were never
+  // settled and rated
+  listUnrated(completedBefore: Date): Promise<ILeague[]>;
+  // Started knockout leagues whose bracket is not finished yet
+  listOpenBrackets(now: Date): Promise<ILeague[]>;
+  // Leagues holding a flagged submission with this review status
+  listWithReviews(status: SubmissionReviewStatus): Promise<ILeague[]>;
+  // Mark a hook as fired and store the new status; null if it already fired
+  claimLifecycleEvent(
+    leagueId: string,
+    event: LeagueLifecycleEvent,
+    status: ILeague["status"]
+  ): Promise<ILeague | null>;
+}
+
+export type LeagueStore = "mongo" | "memory";
+
+// LEAGUE_STORE picks the implementation; without it leagues live in
+// MongoDB when MONGODB_URI is set and in memory (demo mode) otherwise
+export const resolveLeagueStore = (): LeagueStore => {
+  const configured = process.env.LEAGUE_STORE;
+
+  if (configured === "mongo" || configured === "memory") {
+    return configured;
+  }
+
+  return process.env.MONGODB_URI ? "mongo" : "memory";
+};
+
+let repository: LeagueRepository | null = null;
+
+// Created on first use, after dotenv has loaded the configuration
+export const getLeagueRepository = (): LeagueRepository => {
+  if (!repository) {
+    repository =
+      resolveLeagueStore() === "mongo"
+        ? new MongoLeagueRepository()
+        : new InMemoryLeagueRepository();
+  }
+  return repository;
+};
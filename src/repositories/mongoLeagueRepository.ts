@@ -0,0 +1,293 @@
+import { Types } from "mongoose";
+import League from "../models/League";
+import {
+  ILeague,
+  ILeaguePrizeAward,
+  LeagueJoinResult,
+  LeagueLifecycleEvent,
+  SubmissionReviewStatus,
+} from "../types";
+import type {
+  LeagueRepository,
+  LeagueListFilter,
+  LeagueListOptions,
+  LeagueLifecycleWindow,
+} from "./leagueRepository";
+
+const OPEN_STATUSES = ["upcoming", "active"];
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Match on what the status is by the league's dates, not what was last
+// saved, so a league that just ended is listed as completed
+const statusQuery = (
+  status: ILeague["status"],
+  now: Date
+): Record<string, any> => {
+  switch (status) {
+    case "upcoming":
+      return { status: "upcoming", startDate: { $gt: now } };
+    case "active":
+      return {
+        status: { $in: OPEN_STATUSES },
+        startDate: { $lte: now },
+        endDate: { $gt: now },
+      };
+    case "completed":
+      return {
+        $or: [
+          { status: "completed" },
+          { status: { $in: OPEN_STATUSES }, endDate: { $lte: now } },
+        ],
+      };
+    default:
+      return { status };
+  }
+};
+
+export class MongoLeagueRepository implements LeagueRepository {
+  async list(
+    filter: LeagueListFilter,
+    { skip, limit }: LeagueListOptions
+  ): Promise<{ leagues: ILeague[]; total: number }> {
+    const query: Record<string, any> = filter.status
+      ? statusQuery(filter.status, new Date())
+      : {};
+
+    if (filter.category) query.category = filter.category;
+    if (filter.skillLevel) query["rules.skillLevel"] = filter.skillLevel;
+    if (filter.isPublic !== undefined) query.isPublic = filter.isPublic;
+    if (filter.templateId) query.templateId = filter.templateId;
+
+    const [leagues, total] = await Promise.all([
+      League.find(query)
+        .populate("createdBy", "username")
+        .sort({ startDate: 1, createdAt: -1 })
+        .skip(skip)
+        .limit(limit),
+      League.countDocuments(query),
+    ]);
+
+    leagues.forEach((league) => league.refreshStatus());
+    return { leagues, total };
+  }
+
+  async populateCreators(leagues: ILeague[]): Promise<ILeague[]> {
+    return League.populate(leagues, { path: "createdBy", select: "username" });
+  }
+
+  async findById(id: string): Promise<ILeague | null> {
+    if (!Types.ObjectId.isValid(id)) return null;
+
+    const league = await League.findById(id);
+    league?.refreshStatus();
+    return league;
+  }
+
+  async findByInviteCode(code: string): Promise<ILeague | null> {
+    const league = await League.findOne({ "invites.code": code.toUpperCase() });
+    league?.refreshStatus();
+    return league;
+  }
+
+  async create(data: Partial<ILeague>): Promise<ILeague> {
+    return League.create(data);
+  }
+
+  async save(league: ILeague): Promise<ILeague> {
+    return league.save();
+  }
+
+  async addParticipant(
+    leagueId: string,
+    userId: Types.ObjectId,
+    username: string,
+    join?: LeagueJoinResult
+  ): Promise<ILeague | null> {
+    const now = new Date();
+    const invite = join?.invite;
+    const team = join?.team;
+
+    // Private leagues: the invite must still be valid when it is used up,
+    // otherwise the user needs an approved join request
+    const access = invite
+      ? {
+          invites: {
+            $elemMatch: {
+              code: invite.code,
+              revokedAt: null,
+              $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }],
+              ...(invite.maxUses ? { uses: { $lt: invite.maxUses } } : {}),
+            },
+          },
+        }
+      : {
+          $or: [
+            { isPublic: true },
+            { joinRequests: { $elemMatch: { userId, status: "approved" } } },
+          ],
+        };
+
+    // Team leagues: a new team's name must still be free, an existing team
+    // must still have room
+    const capacity: any[] = [
+      { $lt: [{ $size: "$participants" }, "$maxParticipants"] },
+    ];
+    const teamQuery: Record<string, any> = {};
+
+    if (team && join?.teamCreated) {
+      teamQuery["teams.name"] = {
+        $not: new RegExp(`^${escapeRegExp(team.name)}$`, "i"),
+      };
+    } else if (team) {
+      teamQuery["teams._id"] = team._id;
+      capacity.push({
+        $lt: [
+          {
+            $size: {
+              $filter: {
+                input: "$participants",
+                cond: { $eq: ["$$this.teamId", team._id] },
+              },
+            },
+          },
+          "$teamSettings.maxTeamSize",
+        ],
+      });
+    }
+
+    // Capacity, status, access and duplicate checks happen inside the update
+    return League.findOneAndUpdate(
+      {
+        _id: leagueId,
+        status: { $in: OPEN_STATUSES },
+        endDate: { $gt: now },
+        "participants.userId": { $ne: userId },
+        // Knockout leagues close once the bracket is drawn
+        bracket: null,
+        $expr: { $and: capacity },
+        ...access,
+        ...teamQuery,
+      },
+      {
+        $push: {
+          participants: {
+            userId,
+            username,
+            teamId: team?._id || null,
+            joinedAt: now,
+          },
+          ...(team && join?.teamCreated ? { teams: team } : {}),
+        },
+        ...(invite ? { $inc: { "invites.$[invite].uses": 1 } } : {}),
+      },
+      {
+        new: true,
+        ...(invite ? { arrayFilters: [{ "invite.code": invite.code }] } : {}),
+      }
+    );
+  }
+
+  async removeParticipant(
+    leagueId: string,
+    userId: Types.ObjectId
+  ): Promise<ILeague | null> {
+    return League.findOneAndUpdate(
+      {
+        _id: leagueId,
+        status: "upcoming",
+        startDate: { $gt: new Date() },
+        "participants.userId": userId,
+      },
+      { $pull: { participants: { userId } } },
+      { new: true }
+    );
+  }
+
+  async claimPayout(
+    leagueId: string,
+    awards: ILeaguePrizeAward[]
+  ): Promise<ILeague | null> {
+    return League.findOneAndUpdate(
+      {
+        _id: leagueId,
+        status: { $ne: "cancelled" },
+        endDate: { $lte: new Date() },
+        payout: null,
+      },
+      { $set: { payout: { awards, createdAt: new Date(), paidAt: null } } },
+      { new: true }
+    );
+  }
+
+  async listLifecycleDue({
+    now,
+    closingSoonBefore,
+  }: LeagueLifecycleWindow): Promise<ILeague[]> {
+    return League.find({
+      status: { $ne: "cancelled" },
+      $or: [
+        {
+          "lifecycleEvents.started": null,
+          startDate: { $lte: now },
+          endDate: { $gt: now },
+        },
+        {
+          "lifecycleEvents.closingSoon": null,
+          startDate: { $lte: now },
+          endDate: { $gt: now, $lte: closingSoonBefore },
+        },
+        { "lifecycleEvents.completed": null, endDate: { $lte: now } },
+      ],
+    }).sort({ endDate: 1 });
+  }
+
+  async listUnrated(completedBefore: Date): Promise<ILeague[]> {
+    const leagues = await League.find({
+      status: { $ne: "cancelled" },
+      ratedAt: null,
+      "lifecycleEvents.completed": { $lte: completedBefore },
+    });
+
+    leagues.forEach((league) => league.refreshStatus());
+    return leagues;
+  }
+
+  async listOpenBrackets(now: Date): Promise<ILeague[]> {
+    const leagues = await League.find({
+      format: "bracket",
+      status: { $ne: "cancelled" },
+      startDate: { $lte: now },
+      "bracket.completedAt": null,
+    });
+
+    leagues.forEach((league) => league.refreshStatus());
+    return leagues;
+  }
+
+  async listWithReviews(status: SubmissionReviewStatus): Promise<ILeague[]> {
+    const leagues = await League.find({
+      "participants.submissions.review.status": status,
+    });
+
+    leagues.forEach((league) => league.refreshStatus());
+    return leagues;
+  }
+
+  async claimLifecycleEvent(
+    leagueId: string,
+    event: LeagueLifecycleEvent,
+    status: ILeague["status"]
+  ): Promise<ILeague | null> {
+    return League.findOneAndUpdate(
+      {
+        _id: leagueId,
+        status: { $ne: "cancelled" },
+        [`lifecycleEvents.${event}`]: null,
+      },
+      { $set: { [`lifecycleEvents.${event}`]: new Date(), status } },
+      { new: true }
+    );
+  }
+}
@@ -0,0 +1,458 @@
+import express, { Response } from "express";
+import Joi from "joi";
+import User from "../models/User";
+import AuditLog, { AUDIT_ACTIONS } from "../models/AuditLog";
+import {
+  auth,
+  denyImpersonation,
+  requireRole,
+  AuthRequest,
+} from "../middleware/auth";
+import { validate, validateObjectId } from "../middleware/validation";
+import { snapshotJobService } from "../services/snapshotJob";
+import { loginProtection } from "../services/loginProtection";
+import { auditService } from "../services/auditService";
+import { sessionMeta } from "../services/loginService";
+import { tokenService } from "../services/tokenService";
+import { safeEqual } from "../utils/tokens";
+
+const router = express.Router();
+
+// Validation schemas
+const bootstrapSchema = Joi.object({
+  bootstrapToken: Joi.string().required().messages({
+    "any.required": "Bootstrap token is required",
+  }),
+});
+
+const roleUpdateSchema = Joi.object({
+  role: Joi.string()
+    .valid("user", "organizer", "moderator", "admin")
+    .required(),
+});
+
+const impersonateSchema = Joi.object({
+  reason: Joi.string().trim().min(3).max(200).required().messages({
+    "any.required": "A reason for impersonating the user is required",
+  }),
+});
+
+const auditLogQuerySchema = Joi.object({
+  actorId: Joi.string().hex().length(24),
+  targetUserId: Joi.string().hex().length(24),
+  action: Joi.string().valid(...AUDIT_ACTIONS),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(50),
+});
+
+// @route   POST /api/admin/bootstrap
+// @desc    Promote the current user to admin while no admin exists yet
+// @access  Private (requires ADMIN_BOOTSTRAP_TOKEN)
+router.post(
+  "/bootstrap",
+  auth,
+  validate(bootstrapSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const expectedToken = process.env.ADMIN_BOOTSTRAP_TOKEN;
+
+      if (!expectedToken) {
+        res.status(403).json({
+          success: false,
+          message: "Admin bootstrap is disabled",
+        });
+        return;
+      }
+
+      if (!safeEqual(req.body.bootstrapToken, expectedToken)) {
+        res.status(403).json({
+          success: false,
+          message: "Invalid bootstrap token",
+        });
+        return;
+      }
+
+      // Bootstrap only works once: after that admins manage roles
+      const existingAdmin = await User.exists({ role: "admin" });
+
+      if (existingAdmin) {
+        res.status(409).json({
+          success: false,
+          message: "An admin already exists, ask them to grant you access",
+        });
+        return;
+      }
+
+      const user = req.user!;
+      user.role = "admin";
+      await user.save();
+
+      console.log(`👑 User ${user.username} bootstrapped as first admin`);
+
+      res.json({
+        success: true,
+        message: "You are now an admin",
+        user: {
+          id: user._id,
+          username: user.username,
+          role: user.role,
+        },
+      });
+    } catch (error: any) {
+      console.error("❌ Admin bootstrap error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to bootstrap admin",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   PATCH /api/admin/users/:id/role
+// @desc    Change a user's role
+// @access  Admin
+router.patch(
+  "/users/:id/role",
+  requireRole("admin"),
+  validateObjectId("id"),
+  validate(roleUpdateSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { role } = req.body;
+
+      // Prevent admins from locking everyone out by demoting themselves
+      if (req.params.id === req.userId && role !== "admin") {
+        res.status(400).json({
+          success: false,
+          message: "You cannot remove your own admin role",
+        });
+        return;
+      }
+
+      const user = await User.findById(req.params.id);
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          message: "User not found",
+        });
+        return;
+      }
+
+      const previousRole = user.role;
+      user.role = role;
+      await user.save();
+
+      await auditService.record(
+        {
+          actorId: req.userId!,
+          action: "user.role_changed",
+          targetUserId: req.params.id,
+          metadata: { from: previousRole, to: role },
+        },
+        req
+      );
+
+      res.json({
+        success: true,
+        message: `Role updated to ${role}`,
+        user: {
+          id: user._id,
+          username: user.username,
+          role: user.role,
+        },
+      });
+    } catch (error: any) {
+      console.error("❌ Role update error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to update role",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   POST /api/admin/users/:id/unlock
+// @desc    Lift a login lockout for a user
+// @access  Admin
+router.post(
+  "/users/:id/unlock",
+  requireRole("admin"),
+  validateObjectId("id"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = await User.findById(req.params.id);
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          message: "User not found",
+        });
+        return;
+      }
+
+      const wasLocked = await loginProtection.unlockAccount(user.email);
+
+      await auditService.record(
+        {
+          actorId: req.userId!,
+          action: "user.unlocked",
+          targetUserId: req.params.id,
+          metadata: { wasLocked },
+        },
+        req
+      );
+
+      res.json({
+        success: true,
+        message: wasLocked
+          ? `Login attempts cleared for ${user.username}`
+          : `${user.username} had no failed login attempts`,
+      });
+    } catch (error: any) {
+      console.error("❌ Account unlock error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to unlock account",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   POST /api/admin/users/:id/reactivate
+// @desc    Restore a deactivated account
+// @access  Admin
+router.post(
+  "/users/:id/reactivate",
+  requireRole("admin"),
+  validateObjectId("id"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = await User.findByIdAndUpdate(
+        req.params.id,
+        { isActive: true },
+        { new: true }
+      );
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          message: "User not found",
+        });
+        return;
+      }
+
+      await auditService.record(
+        {
+          actorId: req.userId!,
+          action: "user.reactivated",
+          targetUserId: req.params.id,
+        },
+        req
+      );
+
+      res.json({
+        success: true,
+        message: `${user.username} has been reactivated`,
+      });
+    } catch (error: any) {
+      console.error("❌ Account reactivation error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to reactivate account",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   POST /api/admin/impersonate/:userId
+// @desc    Get a short-lived access token acting as another user
+// @access  Admin
+router.post(
+  "/impersonate/:userId",
+  requireRole("admin"),
+  denyImpersonation,
+  validateObjectId("userId"),
+  validate(impersonateSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const target = await User.findById(req.params.userId);
+
+      if (!target || !target.isActive) {
+        res.status(404).json({
+          success: false,
+          message: "User not found or deactivated",
+        });
+        return;
+      }
+
+      if (String(target._id) === req.userId) {
+        res.status(400).json({
+          success: false,
+          message: "You cannot impersonate yourself",
+        });
+        return;
+      }
+
+      // Admin powers cannot be borrowed from another admin
+      if (target.role === "admin") {
+        res.status(403).json({
+          success: false,
+          message: "Admins cannot be impersonated",
+        });
+        return;
+      }
+
+      const impersonation = await tokenService.issueImpersonationToken(
+        String(target._id),
+        req.userId!,
+        sessionMeta(req)
+      );
+
+      await auditService.record(
+        {
+          actorId: req.userId!,
+          action: "impersonation.started",
+          targetUserId: String(target._id),
+          metadata: {
+            reason: req.body.reason,
+            sessionId: impersonation.sessionId,
+            expiresAt: impersonation.expiresAt,
+          },
+        },
+        req
+      );
+
+      console.log(
+        `🎭 Admin ${req.user!.username} is impersonating ${target.username}`
+      );
+
+      res.json({
+        success: true,
+        message: `Impersonating ${target.username}`,
+        token: impersonation.token,
+        expiresIn: impersonation.expiresIn,
+        expiresAt: impersonation.expiresAt,
+        user: {
+          id: target._id,
+          username: target.username,
+          email: target.email,
+          role: target.role,
+        },
+      });
+    } catch (error: any) {
+      console.error("❌ Impersonation error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to impersonate user",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   GET /api/admin/audit-logs
+// @desc    Browse the audit log
+// @access  Admin
+router.get(
+  "/audit-logs",
+  requireRole("admin"),
+  validate(auditLogQuerySchema, "query"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { actorId, targetUserId, action, page, limit } = req.query as any;
+
+      const filter: Record<string, any> = {};
+      if (actorId) filter.actorId = actorId;
+      if (targetUserId) filter.targetUserId = targetUserId;
+      if (action) filter.action = action;
+
+      const [logs, total] = await Promise.all([
+        AuditLog.find(filter)
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .populate("actorId", "username email")
+          .populate("targetUserId", "username email"),
+        AuditLog.countDocuments(filter),
+      ]);
+
+      res.json({
+        success: true,
+        data: logs,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error: any) {
+      console.error("❌ Audit log error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to fetch audit logs",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   POST /api/admin/snapshot/trigger
+// @desc    Create leaderboard snapshots now
+// @access  Admin
+router.post(
+  "/snapshot/trigger",
+  requireRole("admin"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      console.log("🔄 Manual snapshot trigger requested");
+      await snapshotJobService.triggerManualSnapshot();
+      res.json({
+        success: true,
+        message: "Snapshot creation triggered successfully",
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      console.error("❌ Error triggering snapshot:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to trigger snapshot",
+        error: error.message,
+      });
+    }
+  }
+);
+
+// @route   GET /api/admin/snapshot/stats
+// @desc    Get snapshot statistics
+// @access  Admin
+router.get(
+  "/snapshot/stats",
+  requireRole("admin"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const stats = await snapshotJobService.getSnapshotStats();
+      res.json({
+        success: true,
+        data: stats || {
+          totalSnapshots: 0,
+          message: "No snapshots available (using mock data)",
+        },
+      });
+    } catch (error: any) {
+      console.error("❌ Error getting snapshot stats:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to get snapshot stats",
+        error: error.message,
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,168 @@
+import express, { Response } from "express";
+import Joi from "joi";
+import { ApiKey, API_KEY_SCOPES, ADMIN_ONLY_SCOPES } from "../models/ApiKey";
+import { auth, denyImpersonation, AuthRequest } from "../middleware/auth";
+import { validate, validateObjectId } from "../middleware/validation";
+import { apiKeyService } from "../services/apiKeyService";
+
+const router = express.Router();
+
+// Validation schemas
+const createKeySchema = Joi.object({
+  name: Joi.string().trim().max(100).required().messages({
+    "any.required": "Key name is required",
+  }),
+  scopes: Joi.array()
+    .items(Joi.string().valid(...API_KEY_SCOPES))
+    .min(1)
+    .unique()
+    .required()
+    .messages({
+      "any.required": "At least one scope is required",
+    }),
+  organization: Joi.string().trim().max(100).optional(),
+  expiresInDays: Joi.number().integer().min(1).max(365).optional(),
+});
+
+const listKeysSchema = Joi.object({
+  organization: Joi.string().trim().optional(),
+  includeRevoked: Joi.boolean().default(false),
+});
+
+// @route   POST /api/api-keys
+// @desc    Create an API key (the full key is returned only once)
+// @access  Private (organization keys and write scopes: admin)
+router.post(
+  "/",
+  auth,
+  denyImpersonation,
+  validate(createKeySchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { name, scopes, organization, expiresInDays } = req.body;
+      const isAdmin = req.user!.role === "admin";
+
+      if (organization && !isAdmin) {
+        res.status(403).json({
+          message: "Only admins can create organization keys",
+        });
+        return;
+      }
+
+      const restricted = scopes.filter((scope: any) =>
+        ADMIN_ONLY_SCOPES.includes(scope)
+      );
+      if (restricted.length > 0 && !isAdmin) {
+        res.status(403).json({
+          message: "Only admins can grant write scopes",
+          restrictedScopes: restricted,
+        });
+        return;
+      }
+
+      // Organization keys are not tied to any user
+      const { apiKey, key } = await apiKeyService.create({
+        name,
+        scopes,
+        organization,
+        expiresInDays,
+        createdBy: req.userId!,
+        userId: organization ? null : req.userId!,
+      });
+
+      res.status(201).json({
+        message: "API key created. Copy it now, it will not be shown again.",
+        key,
+        apiKey,
+      });
+    } catch (error: any) {
+      console.error("API key creation error:", error);
+      res.status(500).json({
+        message: "Error creating API key",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   GET /api/api-keys
+// @desc    List your API keys (admins: organization keys with ?organization=)
+// @access  Private
+router.get(
+  "/",
+  auth,
+  validate(listKeysSchema, "query"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { organization, includeRevoked } = req.query as any;
+      const query: any = {};
+
+      if (organization) {
+        if (req.user!.role !== "admin") {
+          res.status(403).json({
+            message: "Only admins can list organization keys",
+          });
+          return;
+        }
+        query.organization = organization;
+      } else {
+        query.userId = req.userId;
+      }
+
+      if (!includeRevoked) query.revokedAt = null;
+
+      const apiKeys = await ApiKey.find(query).sort({ createdAt: -1 });
+
+      res.json({
+        apiKeys,
+        total: apiKeys.length,
+      });
+    } catch (error: any) {
+      console.error("API key list error:", error);
+      res.status(500).json({
+        message: "Error fetching API keys",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   DELETE /api/api-keys/:id
+// @desc    Revoke an API key
+// @access  Private (owner or admin)
+router.delete(
+  "/:id",
+  auth,
+  denyImpersonation,
+  validateObjectId("id"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const apiKey = await ApiKey.findById(req.params.id);
+
+      const isOwner = apiKey?.userId?.toString() === req.userId;
+      const isAdmin = req.user!.role === "admin";
+
+      if (!apiKey || (!isOwner && !isAdmin)) {
+        res.status(404).json({
+          message: "API key not found",
+        });
+        return;
+      }
+
+      await apiKeyService.revoke(apiKey);
+
+      res.json({
+        message: "API key revoked",
+        apiKey,
+      });
+    } catch (error: any) {
+      console.error("API key revoke error:", error);
+      res.status(500).json({
+        message: "Error revoking API key",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+export default router;
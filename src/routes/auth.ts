@@ -1,9 +1,28 @@
 import express, { Request, Response } from "express";
-import jwt from "jsonwebtoken";
 import User from "../models/User";
+import VerificationToken from "../models/VerificationToken";
+import { auth, AuthRequest } from "../middleware/auth";
+import {
+  validateRefreshToken,
+  validateForgotPassword,
+  validateResetPassword,
+  validateVerifyEmail,
+  validateUnlockAccount,
+} from "../middleware/validation";
+import { tokenService } from "../services/tokenService";
+import {
+  sessionMeta,
+  startLogin,
+  recordFailedLogin,
+  sendVerificationEmail,
+} from "../services/loginService";
+import { mailService } from "../services/mailService";
+import { loginProtection } from "../services/loginProtection";
 
 const router = express.Router();
 
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // 1 hour
+
 // @route   POST /api/auth/register
 // @desc    Register user (simple version for testing)
 // @access  Public
@@ -40,20 +59,21 @@ router.post("/register", async (req: Request, res: Response): Promise<void> => {
 
     await user.save();
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { userId: user._id },
-      process.env.JWT_SECRET || "default-secret",
-      { expiresIn: "7d" }
-    );
+    // Start a session (short-lived access token + refresh token)
+    const tokens = await tokenService.issueTokens(user, sessionMeta(req));
+
+    await sendVerificationEmail(user);
 
     res.status(201).json({
-      message: "User registered successfully",
-      token,
+      message:
+        "User registered successfully. Check your email to verify your address.",
+      ...tokens,
       user: {
         id: user._id,
         username: user.username,
         email: user.email,
+        emailVerified: user.emailVerified,
+        role: user.role,
         credits: user.credits,
         totalPoints: user.totalPoints,
       },
@@ -82,49 +102,57 @@ router.post("/login", async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Find user by email
-    const user = await User.findOne({ email }).select("+password");
+    const normalizedEmail = String(email).trim().toLowerCase();
 
-    if (!user) {
-      res.status(400).json({
-        message: "Invalid credentials",
+    // Refuse early while the account or client is locked out or throttled
+    const loginCheck = await loginProtection.check(normalizedEmail, req.ip);
+
+    if (!loginCheck.allowed) {
+      res.setHeader("Retry-After", String(loginCheck.retryAfter));
+      res.status(loginCheck.status!).json({
+        message: loginCheck.message,
+        retryAfter: loginCheck.retryAfter,
+        lockedUntil: loginCheck.lockedUntil,
       });
       return;
     }
 
-    // Check password
-    const isPasswordValid = await user.comparePassword(password);
+    // Find user by email
+    const user = await User.findOne({ email: normalizedEmail }).select(
+      "+password"
+    );
+
+    // Check password (unknown emails count as failures too)
+    const isPasswordValid = user ? await user.comparePassword(password) : false;
+
+    if (!user || !isPasswordValid) {
+      const failure = await recordFailedLogin(normalizedEmail, req, user);
+
+      if (failure.accountLocked) {
+        res.status(423).json({
+          message:
+            "Too many failed login attempts. Your account is temporarily locked.",
+          lockedUntil: failure.lockedUntil,
+        });
+        return;
+      }
 
-    if (!isPasswordValid) {
       res.status(400).json({
         message: "Invalid credentials",
       });
       return;
     }
 
-    // Update last login
-    user.lastLoginAt = new Date();
-    await user.save();
+    // Either a full session or a two-factor challenge
+    const result = await startLogin(user, req);
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { userId: user._id },
-      process.env.JWT_SECRET || "default-secret",
-      { expiresIn: "7d" }
-    );
+    // The failure counter is only cleared once the login is fully complete,
+    // otherwise a known password could be used to keep guessing codes
+    if (!result.twoFactorRequired) {
+      await loginProtection.recordSuccess(normalizedEmail);
+    }
 
-    res.json({
-      message: "Login successful",
-      token,
-      user: {
-        id: user._id,
-        username: user.username,
-        email: user.email,
-        credits: user.credits,
-        totalPoints: user.totalPoints,
-        stats: user.stats,
-      },
-    });
+    res.json(result);
   } catch (error: any) {
     console.error("Login error:", error);
     res.status(500).json({
@@ -134,47 +162,379 @@ router.post("/login", async (req: Request, res: Response): Promise<void> => {
   }
 });
 
-// @route   POST /api/auth/test-token
-// @desc    Get a test JWT token for the existing test user
-// @access  Public
+// @route   POST /api/auth/refresh
+// @desc    Rotate a refresh token and get a new access token
+// @access  Public (requires a valid refresh token)
+router.post(
+  "/refresh",
+  validateRefreshToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { refreshToken } = req.body;
+
+      try {
+        const { user, tokens } = await tokenService.rotateRefreshToken(
+          refreshToken,
+          sessionMeta(req)
+        );
+
+        res.json({
+          message: "Token refreshed successfully",
+          ...tokens,
+          user: {
+            id: user._id,
+            username: user.username,
+            email: user.email,
+          },
+        });
+      } catch (tokenError: any) {
+        res.status(401).json({
+          message: tokenError.message,
+        });
+        return;
+      }
+    } catch (error: any) {
+      console.error("Token refresh error:", error);
+      res.status(500).json({
+        message: "Server error during token refresh",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   POST /api/auth/logout
+// @desc    Revoke the session the refresh token belongs to
+// @access  Public (requires the session's refresh token)
+router.post(
+  "/logout",
+  validateRefreshToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const sessionId = await tokenService.findSessionByRefreshToken(
+        req.body.refreshToken
+      );
+
+      // Logging out an unknown or already revoked session is a no-op
+      if (sessionId) {
+        await tokenService.revokeSession(sessionId, "logout");
+      }
+
+      res.json({
+        message: "Logged out successfully",
+      });
+    } catch (error: any) {
+      console.error("Logout error:", error);
+      res.status(500).json({
+        message: "Server error during logout",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   POST /api/auth/logout-all
+// @desc    Revoke every session of the current user
+// @access  Private
+router.post(
+  "/logout-all",
+  auth,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const revokedTokens = await tokenService.revokeAllSessions(req.userId!);
+
+      res.json({
+        message: "Logged out from all devices",
+        revokedTokens,
+      });
+    } catch (error: any) {
+      console.error("Logout all error:", error);
+      res.status(500).json({
+        message: "Server error during logout",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   POST /api/auth/verify-email
+// @desc    Confirm an email address with the emailed token
+// @access  Public (requires a verification token)
 router.post(
-  "/test-token",
+  "/verify-email",
+  validateVerifyEmail,
   async (req: Request, res: Response): Promise<void> => {
     try {
-      // Find the test user
-      const testUser = await User.findOne({ email: "test@50cube.com" });
+      const verification = await VerificationToken.consume(
+        req.body.token,
+        "email_verification"
+      );
 
-      if (!testUser) {
+      if (!verification) {
+        res.status(400).json({
+          message: "Invalid or expired verification token",
+        });
+        return;
+      }
+
+      const user = await User.findById(verification.userId);
+
+      if (!user) {
         res.status(404).json({
-          message: "Test user not found. Create a test user first.",
+          message: "User not found",
         });
         return;
       }
 
-      // Generate JWT token
-      const token = jwt.sign(
-        { userId: testUser._id },
-        process.env.JWT_SECRET || "default-secret",
-        { expiresIn: "7d" }
+      if (!user.emailVerified) {
+        user.emailVerified = true;
+        user.emailVerifiedAt = new Date();
+        await user.save();
+      }
+
+      res.json({
+        message: "Email verified successfully",
+        user: {
+          id: user._id,
+          email: user.email,
+          emailVerified: user.emailVerified,
+        },
+      });
+    } catch (error: any) {
+      console.error("Email verification error:", error);
+      res.status(500).json({
+        message: "Server error during email verification",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   POST /api/auth/confirm-email-change
+// @desc    Switch to the new email address with the emailed token
+// @access  Public (requires an email change token)
+router.post(
+  "/confirm-email-change",
+  validateVerifyEmail,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const change = await VerificationToken.consume(
+        req.body.token,
+        "email_change"
       );
 
+      if (!change) {
+        res.status(400).json({
+          message: "Invalid or expired confirmation token",
+        });
+        return;
+      }
+
+      const user = await User.findById(change.userId);
+
+      if (!user || !user.pendingEmail) {
+        res.status(400).json({
+          message: "No email change is pending",
+        });
+        return;
+      }
+
+      // The address may have been claimed since the change was requested
+      const taken = await User.exists({
+        email: user.pendingEmail,
+        _id: { $ne: user._id },
+      });
+
+      if (taken) {
+        res.status(400).json({
+          message: "Email is already in use",
+        });
+        return;
+      }
+
+      user.email = user.pendingEmail;
+      user.pendingEmail = undefined;
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+      await user.save();
+
       res.json({
-        message: "Test token generated successfully",
-        token,
+        message: "Email address updated",
         user: {
-          id: testUser._id,
-          username: testUser.username,
-          email: testUser.email,
-          credits: testUser.credits,
-          totalPoints: testUser.totalPoints,
+          id: user._id,
+          email: user.email,
+          emailVerified: user.emailVerified,
         },
-        instructions:
-          "Use this token in Authorization header: Bearer YOUR_TOKEN",
       });
     } catch (error: any) {
-      console.error("Test token error:", error);
+      console.error("Email change confirmation error:", error);
+      res.status(500).json({
+        message: "Server error confirming email change",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   POST /api/auth/resend-verification
+// @desc    Send a fresh email verification link
+// @access  Private
+router.post(
+  "/resend-verification",
+  auth,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = req.user!;
+
+      if (user.emailVerified) {
+        res.status(400).json({
+          message: "Email is already verified",
+        });
+        return;
+      }
+
+      await sendVerificationEmail(user);
+
+      res.json({
+        message: "Verification email sent",
+      });
+    } catch (error: any) {
+      console.error("Resend verification error:", error);
+      res.status(500).json({
+        message: "Server error sending verification email",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   POST /api/auth/forgot-password
+// @desc    Email a password reset link
+// @access  Public
+router.post(
+  "/forgot-password",
+  validateForgotPassword,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = await User.findOne({ email: req.body.email.toLowerCase() });
+
+      // Only send when the account exists, but always answer the same way
+      // so the endpoint cannot be used to discover registered emails
+      if (user && user.isActive) {
+        const token = await VerificationToken.issue(
+          String(user._id),
+          "password_reset",
+          PASSWORD_RESET_TTL_MS
+        );
+        await mailService.sendPasswordResetEmail(user.email, token);
+      }
+
+      res.json({
+        message:
+          "If an account exists for that email, a password reset link has been sent",
+      });
+    } catch (error: any) {
+      console.error("Forgot password error:", error);
+      res.status(500).json({
+        message: "Server error during password reset request",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   POST /api/auth/reset-password
+// @desc    Set a new password using the emailed token
+// @access  Public (requires a reset token)
+router.post(
+  "/reset-password",
+  validateResetPassword,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { token, password } = req.body;
+
+      const reset = await VerificationToken.consume(token, "password_reset");
+
+      if (!reset) {
+        res.status(400).json({
+          message: "Invalid or expired reset token",
+        });
+        return;
+      }
+
+      const user = await User.findById(reset.userId);
+
+      if (!user || !user.isActive) {
+        res.status(404).json({
+          message: "User not found",
+        });
+        return;
+      }
+
+      user.password = password;
+
+      // Following the emailed link proves ownership of the address
+      if (!user.emailVerified) {
+        user.emailVerified = true;
+        user.emailVerifiedAt = new Date();
+      }
+
+      await user.save();
+
+      // Sign out every existing session after a password change
+      await tokenService.revokeAllSessions(String(user._id), "password_reset");
+
+      res.json({
+        message: "Password reset successfully. Please log in again.",
+      });
+    } catch (error: any) {
+      console.error("Reset password error:", error);
+      res.status(500).json({
+        message: "Server error during password reset",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   POST /api/auth/unlock-account
+// @desc    Lift a login lockout with the emailed unlock token
+// @access  Public (requires an unlock token)
+router.post(
+  "/unlock-account",
+  validateUnlockAccount,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const unlock = await VerificationToken.consume(
+        req.body.token,
+        "account_unlock"
+      );
+
+      if (!unlock) {
+        res.status(400).json({
+          message: "Invalid or expired unlock token",
+        });
+        return;
+      }
+
+      const user = await User.findById(unlock.userId);
+
+      if (!user) {
+        res.status(404).json({
+          message: "User not found",
+        });
+        return;
+      }
+
+      await loginProtection.unlockAccount(user.email);
+
+      res.json({
+        message: "Account unlocked. You can log in again.",
+      });
+    } catch (error: any) {
+      console.error("Unlock account error:", error);
       res.status(500).json({
-        message: "Error generating test token",
+        message: "Server error during account unlock",
         error: process.env.NODE_ENV === "development" ? error.message : {},
       });
     }
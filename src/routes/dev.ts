@@ -0,0 +1,75 @@
+import express, { Request, Response } from "express";
+import User from "../models/User";
+import { devOnly } from "../middleware/devOnly";
+import { tokenService } from "../services/tokenService";
+import { sessionMeta } from "../services/loginService";
+import { generateToken } from "../utils/tokens";
+import mockOidcRoutes from "./mockOidc";
+
+// Development helpers. server.ts only mounts this router with
+// ENABLE_DEV_ROUTES=true, and the guard below refuses requests even if it
+// is mounted. Admins are made through /api/admin/bootstrap, never here.
+const router = express.Router();
+
+const SEED_USER = {
+  username: "testuser",
+  email: "test@50cube.com",
+  role: "user" as const,
+  credits: 500,
+};
+
+router.use(devOnly);
+
+// Local OpenID Connect provider for testing single sign-on
+router.use("/oidc", mockOidcRoutes);
+
+// @route   POST /api/dev/seed
+// @desc    Create the test account and start a session for it. A new
+//          account gets a random password, returned only in this response.
+// @access  Public (development only)
+router.post("/seed", async (req: Request, res: Response): Promise<void> => {
+  try {
+    let testUser = await User.findOne({ email: SEED_USER.email });
+    let password: string | undefined;
+
+    if (!testUser) {
+      password = generateToken(12);
+      testUser = await User.create({
+        ...SEED_USER,
+        password,
+        emailVerified: true,
+        emailVerifiedAt: new Date(),
+      });
+    }
+
+    const tokens = await tokenService.issueTokens(testUser, sessionMeta(req));
+
+    console.log(
+      `🌱 Dev seed: ${password ? "created" : "reused"} ${SEED_USER.email}`
+    );
+
+    res.json({
+      message: "Development data seeded",
+      created: password ? [SEED_USER.email] : [],
+      account: {
+        email: SEED_USER.email,
+        role: SEED_USER.role,
+        ...(password ? { password } : {}),
+      },
+      ...tokens,
+      user: {
+        id: testUser._id,
+        username: testUser.username,
+        email: testUser.email,
+      },
+    });
+  } catch (error: any) {
+    console.error("Dev seed error:", error);
+    res.status(500).json({
+      message: "Error seeding development data",
+      error: error.message,
+    });
+  }
+});
+
+export default router;
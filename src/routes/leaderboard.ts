@@ -3,11 +3,14 @@ import Joi from "joi";
 import { LeaderboardSnapshot } from "../models/LeaderboardSnapshot";
 import { League } from "../models/League";
 import { User } from "../models/User";
-import { auth } from "../middleware/auth";
+import { authOrApiKey } from "../middleware/apiKey";
 import { validate } from "../middleware/validation";
 
 const router = express.Router();
 
+// Users (Bearer JWT) or partners with a leaderboard:read API key
+const leaderboardAuth = authOrApiKey("leaderboard:read");
+
 // Validation schemas
 const leaderboardQuerySchema = Joi.object({
   scope: Joi.string()
@@ -152,7 +155,7 @@ router.get(
 );
 
 // GET /api/leaderboard/user/:userId/history - Get user's rank history
-router.get("/user/:userId/history", auth, async (req, res) => {
+router.get("/user/:userId/history", leaderboardAuth, async (req, res) => {
   try {
     const { userId } = req.params;
     const scope = (req.query.scope as string) || "global";
@@ -0,0 +1,242 @@
+import express, { Response } from "express";
+import { Types } from "mongoose";
+import { requireRole, AuthRequest } from "../middleware/auth";
+import {
+  validateLeagueTemplateCreate,
+  validateLeagueTemplateUpdate,
+  validateObjectId,
+} from "../middleware/validation";
+import { LeagueTemplate, ILeagueTemplate } from "../models/LeagueTemplate";
+import { leagueTemplateService } from "../services/leagueTemplateService";
+
+const router = express.Router();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Organizers manage the templates they created, admins manage every template
+const canManageTemplate = (
+  template: ILeagueTemplate,
+  req: AuthRequest
+): boolean =>
+  req.user!.role === "admin" || template.createdBy.toString() === req.userId;
+
+// Template found and managed by the caller, or null once a 404/403 is sent
+const findManagedTemplate = async (
+  req: AuthRequest,
+  res: Response
+): Promise<ILeagueTemplate | null> => {
+  const template = await LeagueTemplate.findById(req.params.id);
+
+  if (!template) {
+    res.status(404).json({
+      message: "League template not found",
+    });
+    return null;
+  }
+
+  if (!canManageTemplate(template, req)) {
+    res.status(403).json({
+      message: "You can only manage league templates you created",
+    });
+    return null;
+  }
+
+  return template;
+};
+
+// The next few start dates, whether or not their leagues exist yet
+const upcomingStarts = (template: ILeagueTemplate, count = 4): Date[] => {
+  const now = new Date();
+  const weeks = template.recurrence.frequency === "weekly" ? 1 : 5;
+
+  return leagueTemplateService
+    .nextOccurrences(
+      template.recurrence,
+      now,
+      new Date(now.getTime() + count * weeks * 7 * DAY_MS)
+    )
+    .slice(0, count);
+};
+
+// @route   POST /api/league-templates
+// @desc    Create a recurring league template; leagues due within
+//          createAheadDays are created right away
+// @access  Organizer, Admin
+router.post(
+  "/",
+  requireRole("organizer", "admin"),
+  validateLeagueTemplateCreate,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const template = new LeagueTemplate({
+        ...req.body,
+        createdBy: new Types.ObjectId(req.userId),
+      });
+      const problem = leagueTemplateService.checkTemplate(template);
+
+      if (problem) {
+        res.status(400).json({
+          message: problem,
+        });
+        return;
+      }
+
+      await template.save();
+
+      const leagues = await leagueTemplateService.scheduleTemplate(template);
+
+      res.status(201).json({
+        message: "League template created successfully",
+        template,
+        leagues,
+      });
+    } catch (error: any) {
+      console.error("League template creation error:", error);
+      res.status(500).json({
+        message: "Error creating league template",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   GET /api/league-templates
+// @desc    List the caller's league templates (every template for admins)
+// @access  Organizer, Admin
+router.get(
+  "/",
+  requireRole("organizer", "admin"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const query =
+        req.user!.role === "admin"
+          ? {}
+          : { createdBy: new Types.ObjectId(req.userId) };
+
+      const templates = await LeagueTemplate.find(query).sort({
+        createdAt: -1,
+      });
+
+      res.json({
+        templates,
+      });
+    } catch (error: any) {
+      console.error("Get league templates error:", error);
+      res.status(500).json({
+        message: "Error fetching league templates",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   GET /api/league-templates/:id
+// @desc    Get a league template with its next start dates and the leagues
+//          created from it
+// @access  Organizer (own templates), Admin
+router.get(
+  "/:id",
+  requireRole("organizer", "admin"),
+  validateObjectId("id"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const template = await findManagedTemplate(req, res);
+      if (!template) return;
+
+      const leagues = await leagueTemplateService.listSpawnedLeagues(
+        template._id as Types.ObjectId
+      );
+
+      res.json({
+        template,
+        upcomingStarts: template.isActive ? upcomingStarts(template) : [],
+        leagues,
+      });
+    } catch (error: any) {
+      console.error("Get league template error:", error);
+      res.status(500).json({
+        message: "Error fetching league template",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   PATCH /api/league-templates/:id
+// @desc    Update a league template; leagues already created keep their
+//          settings
+// @access  Organizer (own templates), Admin
+router.patch(
+  "/:id",
+  requireRole("organizer", "admin"),
+  validateObjectId("id"),
+  validateLeagueTemplateUpdate,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const template = await findManagedTemplate(req, res);
+      if (!template) return;
+
+      const { rules, ...changes } = req.body;
+      template.set(changes);
+      // Merged so a partial scoringWeights keeps the other weights
+      Object.entries(rules || {}).forEach(([rule, value]) =>
+        template.set(`rules.${rule}`, value, { merge: true })
+      );
+
+      const problem = leagueTemplateService.checkTemplate(template);
+
+      if (problem) {
+        res.status(400).json({
+          message: problem,
+        });
+        return;
+      }
+
+      await template.save();
+      const leagues = await leagueTemplateService.scheduleTemplate(template);
+
+      res.json({
+        message: "League template updated successfully",
+        template,
+        leagues,
+      });
+    } catch (error: any) {
+      console.error("League template update error:", error);
+      res.status(500).json({
+        message: "Error updating league template",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   DELETE /api/league-templates/:id
+// @desc    Stop a league template; leagues already created are kept
+// @access  Organizer (own templates), Admin
+router.delete(
+  "/:id",
+  requireRole("organizer", "admin"),
+  validateObjectId("id"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const template = await findManagedTemplate(req, res);
+      if (!template) return;
+
+      template.isActive = false;
+      await template.save();
+
+      res.json({
+        message: "League template stopped",
+        template,
+      });
+    } catch (error: any) {
+      console.error("League template delete error:", error);
+      res.status(500).json({
+        message: "Error stopping league template",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+export default router;
@@ -1,16 +1,88 @@
 import express, { Response } from "express";
-import League from "../models/League";
 import User from "../models/User";
-import { auth, AuthRequest } from "../middleware/auth";
+import League from "../models/League";
+import { auth, requireRole, AuthRequest } from "../middleware/auth";
 import {
   validateLeagueEntry,
   validateScoreSubmission,
+  validateGameSessionSubmit,
+  validateLeagueCreate,
+  validateLeagueUpdate,
+  validateLeagueClone,
+  validateLeagueCancel,
+  validateLeagueInvite,
+  validateLeagueJoinRequest,
   validateObjectId,
 } from "../middleware/validation";
+import {
+  getLeagueRepository,
+  LeagueListFilter,
+} from "../repositories/leagueRepository";
+import { leagueService } from "../services/leagueService";
+import { gameSessionService } from "../services/gameSessionService";
 import { Types } from "mongoose";
+import { ILeague, ILeagueInvite, IBracketSlot, IGameScore } from "../types";
+import { roundName } from "../utils/bracket";
 
 const router = express.Router();
 
+// Fields that cannot change once a league has started
+const LOCKED_ONCE_STARTED = [
+  "rules",
+  "entryFee",
+  "startDate",
+  "mode",
+  "teamSettings",
+  "format",
+  "bracketSettings",
+];
+
+// Organizers manage the leagues they created, admins manage every league
+const canManageLeague = (league: ILeague, req: AuthRequest): boolean =>
+  req.user!.role === "admin" || league.createdBy.toString() === req.userId;
+
+// Link the app opens to join with an invite code
+const inviteLink = (code: string): string =>
+  `${(process.env.APP_URL || "http://localhost:5173").replace(
+    /\/$/,
+    ""
+  )}/leagues/join/${code}`;
+
+const toInviteSummary = (invite: ILeagueInvite) => ({
+  code: invite.code,
+  link: inviteLink(invite.code),
+  createdAt: invite.createdAt,
+  expiresAt: invite.expiresAt || null,
+  maxUses: invite.maxUses || null,
+  uses: invite.uses,
+  revokedAt: invite.revokedAt || null,
+});
+
+// Loads a league the signed-in organizer or admin may manage; responds with
+// 404/403 and returns null otherwise
+const findManagedLeague = async (
+  req: AuthRequest,
+  res: Response
+): Promise<ILeague | null> => {
+  const league = await getLeagueRepository().findById(req.params.id);
+
+  if (!league) {
+    res.status(404).json({
+      message: "League not found",
+    });
+    return null;
+  }
+
+  if (!canManageLeague(league, req)) {
+    res.status(403).json({
+      message: "You can only manage leagues you created",
+    });
+    return null;
+  }
+
+  return league;
+};
+
 // @route   GET /api/leagues
 // @desc    Get all active leagues
 // @access  Public
@@ -24,35 +96,23 @@ router.get("/", async (req: AuthRequest, res: Response): Promise<void> => {
       limit = "10",
     } = req.query;
 
-    const query: any = { isPublic: true };
-
-    if (status) query.status = status;
-    if (category) query.category = category;
-    if (skillLevel) query["rules.skillLevel"] = skillLevel;
-
     const pageNum = parseInt(page as string);
     const limitNum = parseInt(limit as string);
     const skip = (pageNum - 1) * limitNum;
 
-    const [leagues, total] = await Promise.all([
-      League.find(query)
-        .sort({ startDate: 1, createdAt: -1 })
-        .skip(skip)
-        .limit(limitNum)
-        .populate("createdBy", "username")
-        .lean(),
-      League.countDocuments(query),
-    ]);
-
-    // Add participant count and spots remaining
-    const enrichedLeagues = leagues.map((league) => ({
-      ...league,
-      participantCount: league.participants.length,
-      spotsRemaining: league.maxParticipants - league.participants.length,
-    }));
+    const { leagues, total } = await getLeagueRepository().list(
+      {
+        isPublic: true,
+        status: (status || undefined) as LeagueListFilter["status"],
+        category: category as LeagueListFilter["category"],
+        skillLevel: skillLevel as LeagueListFilter["skillLevel"],
+      },
+      { skip, limit: limitNum }
+    );
 
+    // participantCount and spotsRemaining come from the model's virtuals
     res.json({
-      leagues: enrichedLeagues,
+      leagues,
       pagination: {
         page: pageNum,
         limit: limitNum,
@@ -69,6 +129,59 @@ router.get("/", async (req: AuthRequest, res: Response): Promise<void> => {
   }
 });
 
+// @route   GET /api/leagues/invites/:code
+// @desc    Look up the league an invite code belongs to
+// @access  Public
+router.get(
+  "/invites/:code",
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const code = req.params.code.toUpperCase();
+      const league = await getLeagueRepository().findByInviteCode(code);
+      const invite = league?.invites.find((i) => i.code === code);
+
+      if (
+        !league ||
+        !invite ||
+        invite.revokedAt ||
+        (invite.expiresAt && invite.expiresAt <= new Date()) ||
+        (invite.maxUses && invite.uses >= invite.maxUses)
+      ) {
+        res.status(404).json({
+          message: "Invalid or expired invite code",
+        });
+        return;
+      }
+
+      res.json({
+        league: {
+          id: league._id,
+          name: league.name,
+          description: league.description,
+          category: league.category,
+          status: league.status,
+          startDate: league.startDate,
+          endDate: league.endDate,
+          entryFee: league.entryFee,
+          participantCount: league.participants.length,
+          spotsRemaining: league.maxParticipants - league.participants.length,
+        },
+        invite: {
+          code: invite.code,
+          expiresAt: invite.expiresAt || null,
+          usesRemaining: invite.maxUses ? invite.maxUses - invite.uses : null,
+        },
+      });
+    } catch (error: any) {
+      console.error("Get invite error:", error);
+      res.status(500).json({
+        message: "Error fetching invite",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
 // @route   GET /api/leagues/:id
 // @desc    Get specific league details
 // @access  Public
@@ -77,9 +190,7 @@ router.get(
   validateObjectId("id"),
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const league = await League.findById(req.params.id)
-        .populate("createdBy", "username")
-        .lean();
+      const league = await getLeagueRepository().findById(req.params.id);
 
       if (!league) {
         res.status(404).json({
@@ -88,18 +199,10 @@ router.get(
         return;
       }
 
-      // Add computed fields
-      const enrichedLeague = {
-        ...league,
-        participantCount: league.participants.length,
-        spotsRemaining: league.maxParticipants - league.participants.length,
-        durationInDays: Math.ceil(
-          (league.endDate.getTime() - league.startDate.getTime()) /
-            (1000 * 60 * 60 * 24)
-        ),
-      };
+      await getLeagueRepository().populateCreators([league]);
 
-      res.json({ league: enrichedLeague });
+      // Includes participantCount, spotsRemaining and durationInDays
+      res.json({ league });
     } catch (error: any) {
       console.error("Get league error:", error);
       res.status(500).json({
@@ -119,10 +222,10 @@ router.post(
   validateLeagueEntry,
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const { leagueId } = req.body;
+      const { leagueId, inviteCode, teamId, teamName } = req.body;
       const userId = req.userId!;
 
-      const league = await League.findById(leagueId);
+      const league = await getLeagueRepository().findById(leagueId);
 
       if (!league) {
         res.status(404).json({
@@ -141,17 +244,37 @@ router.post(
       }
 
       try {
-        await league.addParticipant(new Types.ObjectId(userId), user.username);
+        const { league: joined, entryFeePaid } = await leagueService.enter(
+          league,
+          user,
+          {
+            inviteCode,
+            teamId,
+            teamName,
+          }
+        );
+
+        const joinedTeamId = joined.participants.find(
+          (p) => p.userId.toString() === userId
+        )?.teamId;
+        const joinedTeam = joinedTeamId
+          ? joined.teams.find((t) => t._id?.equals(joinedTeamId))
+          : null;
 
         res.json({
           message: "Successfully joined the league",
           league: {
-            id: league._id,
-            name: league.name,
-            participantCount: league.participants.length,
-            spotsRemaining: league.maxParticipants - league.participants.length,
+            id: joined._id,
+            name: joined.name,
+            participantCount: joined.participants.length,
+            spotsRemaining: joined.maxParticipants - joined.participants.length,
             yourRank: null, // Will be set after first submission
           },
+          team: joinedTeam
+            ? { id: joinedTeam._id, name: joinedTeam.name }
+            : null,
+          entryFeePaid,
+          creditsRemaining: user.credits - entryFeePaid,
         });
       } catch (leagueError: any) {
         res.status(400).json({
@@ -169,8 +292,88 @@ router.post(
   }
 );
 
+// @route   POST /api/leagues/:id/withdraw
+// @desc    Leave a league before it starts; the entry fee is refunded
+// @access  Private
+router.post(
+  "/:id/withdraw",
+  auth,
+  validateObjectId("id"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const league = await getLeagueRepository().findById(req.params.id);
+
+      if (!league) {
+        res.status(404).json({
+          message: "League not found",
+        });
+        return;
+      }
+
+      const result = await leagueService.withdraw(
+        req.params.id,
+        new Types.ObjectId(req.userId)
+      );
+
+      if (!result) {
+        res.status(400).json({
+          message: league.participants.some(
+            (p) => p.userId.toString() === req.userId
+          )
+            ? "You can only withdraw before the league starts"
+            : "You have not joined this league",
+        });
+        return;
+      }
+
+      res.json({
+        message: "Withdrawn from the league",
+        league: {
+          id: result.league._id,
+          name: result.league.name,
+          participantCount: result.league.participants.length,
+        },
+        creditsRefunded: result.refund.credits,
+      });
+    } catch (error: any) {
+      console.error("League withdrawal error:", error);
+      res.status(500).json({
+        message: "Error leaving league",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// Response after a score is recorded, shared by both submit routes. A
+// flagged score is held for review and not on the leaderboard yet.
+const scoreResponse = (
+  league: ILeague,
+  userId: string,
+  scoreData: IGameScore,
+  flagged: boolean
+) => {
+  const leaderboard = league.getLeaderboard();
+
+  return {
+    message: flagged
+      ? "Score submitted and held for review"
+      : "Score submitted successfully",
+    flagged,
+    submission: {
+      ...scoreData,
+      submittedAt: new Date(),
+    },
+    yourRank:
+      leaderboard.find((entry) => entry.userId.toString() === userId)?.rank ||
+      null,
+    leaderboard: leaderboard.slice(0, 10), // Top 10 for response
+  };
+};
+
 // @route   POST /api/leagues/submit
-// @desc    Submit score to league (M13 Requirement)
+// @desc    Submit a client-computed score (only with ALLOW_CLIENT_SCORES=true;
+//          otherwise scores come from game sessions)
 // @access  Private
 router.post(
   "/submit",
@@ -178,10 +381,18 @@ router.post(
   validateScoreSubmission,
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
+      if (process.env.ALLOW_CLIENT_SCORES !== "true") {
+        res.status(403).json({
+          message:
+            "Scores are computed by the server. Start a game session with POST /api/leagues/:id/sessions",
+        });
+        return;
+      }
+
       const { leagueId, accuracy, timeInSeconds, points, gameData } = req.body;
       const userId = req.userId!;
 
-      const league = await League.findById(leagueId);
+      const league = await getLeagueRepository().findById(leagueId);
 
       if (!league) {
         res.status(404).json({
@@ -198,33 +409,110 @@ router.post(
       };
 
       try {
-        await league.submitScore(new Types.ObjectId(userId), scoreData);
-
-        // Update user's total points and stats
-        const user = await User.findById(userId);
-        if (user) {
-          user.updateStats({
-            points,
-            accuracy,
-            timeInSeconds,
-          });
-          await user.save();
-        }
+        const { flagged } = await leagueService.recordScore(
+          league,
+          new Types.ObjectId(userId),
+          scoreData
+        );
 
-        // Get updated leaderboard
-        const leaderboard = league.getLeaderboard();
-        const userRank =
-          leaderboard.find((entry) => entry.userId.toString() === userId)
-            ?.rank || null;
+        res.json(scoreResponse(league, userId, scoreData, flagged));
+      } catch (leagueError: any) {
+        res.status(400).json({
+          message: leagueError.message,
+        });
+        return;
+      }
+    } catch (error: any) {
+      console.error("Score submission error:", error);
+      res.status(500).json({
+        message: "Error submitting score",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   POST /api/leagues/sessions/submit
+// @desc    Submit the answers of a game session; the server scores them
+// @access  Private
+router.post(
+  "/sessions/submit",
+  auth,
+  validateGameSessionSubmit,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { sessionToken, answers } = req.body;
+
+      try {
+        const { session, league, score, flagged } =
+          await gameSessionService.submit(
+            sessionToken,
+            new Types.ObjectId(req.userId),
+            answers
+          );
 
         res.json({
-          message: "Score submitted successfully",
-          submission: {
-            ...scoreData,
-            submittedAt: new Date(),
+          ...scoreResponse(league, req.userId!, score, flagged),
+          sessionId: session._id,
+          answers: session.answers,
+        });
+      } catch (sessionError: any) {
+        res.status(400).json({
+          message: sessionError.message,
+        });
+        return;
+      }
+    } catch (error: any) {
+      console.error("Game session submission error:", error);
+      res.status(500).json({
+        message: "Error submitting game session",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   POST /api/leagues/:id/sessions
+// @desc    Start a timed game for a league: returns the questions (without
+//          answers) and a signed session token to submit them with
+// @access  Private
+router.post(
+  "/:id/sessions",
+  auth,
+  validateObjectId("id"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const league = await getLeagueRepository().findById(req.params.id);
+
+      if (!league) {
+        res.status(404).json({
+          message: "League not found",
+        });
+        return;
+      }
+
+      try {
+        const { session, sessionToken } = await gameSessionService.start(
+          league,
+          new Types.ObjectId(req.userId)
+        );
+
+        res.status(201).json({
+          message: "Game session started",
+          sessionToken,
+          session: {
+            id: session._id,
+            leagueId: session.leagueId,
+            startedAt: session.startedAt,
+            expiresAt: session.expiresAt,
+            questions: session.questions.map(
+              ({ questionId, prompt, choices }) => ({
+                questionId,
+                prompt,
+                choices,
+              })
+            ),
           },
-          yourRank: userRank,
-          leaderboard: leaderboard.slice(0, 10), // Top 10 for response
         });
       } catch (leagueError: any) {
         res.status(400).json({
@@ -233,9 +521,9 @@ router.post(
         return;
       }
     } catch (error: any) {
-      console.error("Score submission error:", error);
+      console.error("Game session start error:", error);
       res.status(500).json({
-        message: "Error submitting score",
+        message: "Error starting game session",
         error: process.env.NODE_ENV === "development" ? error.message : {},
       });
     }
@@ -253,7 +541,7 @@ router.get(
       const { page = "1", limit = "50" } = req.query;
       const leagueId = req.params.id;
 
-      const league = await League.findById(leagueId);
+      const league = await getLeagueRepository().findById(leagueId);
 
       if (!league) {
         res.status(404).json({
@@ -275,6 +563,11 @@ router.get(
         const participant = league.participants.find(
           (p) => p.userId.toString() === entry.userId.toString()
         );
+        // Improvement is measured from the first counted score above 0;
+        // expired game sessions are recorded as 0 points
+        const baseline = participant?.submissions.find(
+          (s) => s.points > 0 && (!s.review || s.review.status === "approved")
+        );
 
         return {
           ...entry,
@@ -284,11 +577,9 @@ router.get(
             league.rules.maxSubmissions -
             (participant?.submissions.length || 0),
           improvementRate:
-            participant?.submissions.length &&
-            participant.submissions.length > 1
+            baseline && participant!.submissions.length > 1
               ? (
-                  ((entry.points - participant.submissions[0].points) /
-                    participant.submissions[0].points) *
+                  ((entry.points - baseline.points) / baseline.points) *
                   100
                 ).toFixed(1)
               : null,
@@ -302,12 +593,18 @@ router.get(
           name: league.name,
           status: league.status,
           scoringMethod: league.rules.scoringMethod,
+          rankingConvention: league.rules.rankingConvention,
           maxSubmissions: league.rules.maxSubmissions,
           participantCount: league.participants.length,
           startDate: league.startDate,
           endDate: league.endDate,
           prizes: league.prizes,
+          mode: league.mode,
         },
+        // Team leagues also rank teams; all teams are returned
+        ...(league.mode === "team"
+          ? { teamLeaderboard: league.getTeamLeaderboard() }
+          : {}),
         pagination: {
           page: pageNum,
           limit: limitNum,
@@ -325,4 +622,698 @@ router.get(
   }
 );
 
+// @route   GET /api/leagues/:id/teams
+// @desc    Teams in a team league with their members and open spots
+// @access  Public
+router.get(
+  "/:id/teams",
+  validateObjectId("id"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const league = await getLeagueRepository().findById(req.params.id);
+
+      if (!league) {
+        res.status(404).json({
+          message: "League not found",
+        });
+        return;
+      }
+
+      if (league.mode !== "team") {
+        res.status(400).json({
+          message: "This is not a team league",
+        });
+        return;
+      }
+
+      const { maxTeamSize, aggregation, topN } = league.teamSettings;
+
+      res.json({
+        teams: league.teams.map((team) => {
+          const members = league.participants.filter((p) =>
+            team._id?.equals(p.teamId!)
+          );
+
+          return {
+            id: team._id,
+            name: team.name,
+            captainId: team.captainId,
+            members: members.map((p) => ({
+              userId: p.userId,
+              username: p.username,
+            })),
+            spotsRemaining: maxTeamSize - members.length,
+          };
+        }),
+        teamSettings: { maxTeamSize, aggregation, topN },
+      });
+    } catch (error: any) {
+      console.error("Get teams error:", error);
+      res.status(500).json({
+        message: "Error fetching teams",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   GET /api/leagues/:id/bracket
+// @desc    Bracket tree of a knockout league, round by round
+// @access  Public
+router.get(
+  "/:id/bracket",
+  validateObjectId("id"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const found = await getLeagueRepository().findById(req.params.id);
+
+      if (!found) {
+        res.status(404).json({
+          message: "League not found",
+        });
+        return;
+      }
+
+      if (found.format !== "bracket") {
+        res.status(400).json({
+          message: "This league does not use a bracket",
+        });
+        return;
+      }
+
+      const league = await leagueService.advanceBracket(found);
+      const { bracket, bracketSettings } = league;
+
+      if (!bracket) {
+        res.json({
+          drawn: false,
+          seeding: bracketSettings.seeding,
+          drawsAt: league.bracketDrawAt(),
+          participantCount: league.participants.length,
+        });
+        return;
+      }
+
+      const player = (slot: IBracketSlot | null) =>
+        slot
+          ? { userId: slot.userId, username: slot.username, seed: slot.seed }
+          : null;
+      const champion = bracket.rounds[bracket.rounds.length - 1]?.matches
+        .flatMap((match) => [match.playerA, match.playerB])
+        .find((slot) => slot?.userId.equals(bracket.championId!));
+
+      res.json({
+        drawn: true,
+        seeding: bracketSettings.seeding,
+        drawnAt: bracket.drawnAt,
+        size: bracket.size,
+        rounds: bracket.rounds.map((round) => ({
+          round: round.round,
+          name: roundName(round.round, bracket.rounds.length),
+          startsAt: round.startsAt,
+          endsAt: round.endsAt,
+          decided: !!round.decidedAt,
+          matches: round.matches.map((match) => ({
+            id: match._id,
+            slot: match.slot,
+            playerA: player(match.playerA),
+            playerB: player(match.playerB),
+            // Scores stay hidden until the match is decided
+            scoreA: match.decidedAt ? match.scoreA : undefined,
+            scoreB: match.decidedAt ? match.scoreB : undefined,
+            submittedA: !!match.scoreA,
+            submittedB: !!match.scoreB,
+            winnerId: match.winnerId,
+            decidedBy: match.decidedBy,
+            // Where the winner plays next
+            next:
+              round.round < bracket.rounds.length
+                ? { round: round.round + 1, slot: Math.floor(match.slot / 2) }
+                : null,
+          })),
+        })),
+        champion: player(champion || null),
+        completedAt: bracket.completedAt,
+      });
+    } catch (error: any) {
+      console.error("Get bracket error:", error);
+      res.status(500).json({
+        message: "Error fetching bracket",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   GET /api/leagues/:id/results
+// @desc    Final standings and prizes of a completed league
+// @access  Public
+router.get(
+  "/:id/results",
+  validateObjectId("id"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const found = await getLeagueRepository().findById(req.params.id);
+
+      if (!found) {
+        res.status(404).json({
+          message: "League not found",
+        });
+        return;
+      }
+
+      // Pays out the prizes the first time a finished league is looked at
+      const league = await leagueService.settle(found);
+
+      if (league.status !== "completed") {
+        res.status(400).json({
+          message: "Results are available once the league has completed",
+          status: league.status,
+        });
+        return;
+      }
+
+      const awards = league.payout?.awards || [];
+
+      res.json({
+        league: {
+          id: league._id,
+          name: league.name,
+          status: league.status,
+          scoringMethod: league.rules.scoringMethod,
+          participantCount: league.participants.length,
+          startDate: league.startDate,
+          endDate: league.endDate,
+        },
+        standings: league.getLeaderboard().map((entry) => {
+          const award = awards.find(
+            (a) => a.userId.toString() === entry.userId.toString()
+          );
+
+          return {
+            ...entry,
+            prize: award
+              ? { credits: award.credits, badge: award.badge || null }
+              : null,
+          };
+        }),
+        payout: {
+          awards,
+          paidAt: league.payout?.paidAt || null,
+        },
+        ...(league.mode === "team"
+          ? { teamStandings: league.getTeamLeaderboard() }
+          : {}),
+        ...(league.format === "bracket"
+          ? { placements: league.getBracketPlacements() }
+          : {}),
+      });
+    } catch (error: any) {
+      console.error("Get league results error:", error);
+      res.status(500).json({
+        message: "Error fetching league results",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   POST /api/leagues
+// @desc    Create a league
+// @access  Organizer, Admin
+router.post(
+  "/",
+  requireRole("organizer", "admin"),
+  validateLeagueCreate,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const data = {
+        ...req.body,
+        createdBy: new Types.ObjectId(req.userId),
+      };
+      // Defaults the request left out are filled in before checking
+      const problem = new League(data).checkConsistency();
+
+      if (problem) {
+        res.status(400).json({
+          message: problem,
+        });
+        return;
+      }
+
+      const league = await getLeagueRepository().create(data);
+
+      res.status(201).json({
+        message: "League created successfully",
+        league,
+      });
+    } catch (error: any) {
+      console.error("League creation error:", error);
+      res.status(500).json({
+        message: "Error creating league",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   PATCH /api/leagues/:id
+// @desc    Update a league (rules, entry fee and start date lock once it starts)
+// @access  Organizer (own leagues), Admin
+router.patch(
+  "/:id",
+  requireRole("organizer", "admin"),
+  validateObjectId("id"),
+  validateLeagueUpdate,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const league = await getLeagueRepository().findById(req.params.id);
+
+      if (!league) {
+        res.status(404).json({
+          message: "League not found",
+        });
+        return;
+      }
+
+      if (!canManageLeague(league, req)) {
+        res.status(403).json({
+          message: "You can only manage leagues you created",
+        });
+        return;
+      }
+
+      if (league.status === "completed" || league.status === "cancelled") {
+        res.status(400).json({
+          message: `A ${league.status} league cannot be edited`,
+        });
+        return;
+      }
+
+      if (league.status !== "upcoming") {
+        const lockedFields = LOCKED_ONCE_STARTED.filter(
+          (field) => req.body[field] !== undefined
+        );
+
+        if (lockedFields.length > 0) {
+          res.status(400).json({
+            message: "These fields are locked once the league has started",
+            fields: lockedFields,
+          });
+          return;
+        }
+      }
+
+      const { rules, teamSettings, bracketSettings, ...changes } = req.body;
+      league.set(changes);
+      // Merged so a partial scoringWeights keeps the other weights
+      Object.entries(rules || {}).forEach(([rule, value]) =>
+        league.set(`rules.${rule}`, value, { merge: true })
+      );
+      Object.entries(teamSettings || {}).forEach(([setting, value]) =>
+        league.set(`teamSettings.${setting}`, value)
+      );
+      Object.entries(bracketSettings || {}).forEach(([setting, value]) =>
+        league.set(`bracketSettings.${setting}`, value)
+      );
+
+      const problem = league.checkConsistency();
+
+      if (problem) {
+        res.status(400).json({
+          message: problem,
+        });
+        return;
+      }
+
+      await getLeagueRepository().save(league);
+
+      res.json({
+        message: "League updated successfully",
+        league,
+      });
+    } catch (error: any) {
+      console.error("League update error:", error);
+      res.status(500).json({
+        message: "Error updating league",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   POST /api/leagues/:id/cancel
+// @desc    Cancel a league that has not finished
+// @access  Organizer (own leagues), Admin
+router.post(
+  "/:id/cancel",
+  requireRole("organizer", "admin"),
+  validateObjectId("id"),
+  validateLeagueCancel,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const league = await getLeagueRepository().findById(req.params.id);
+
+      if (!league) {
+        res.status(404).json({
+          message: "League not found",
+        });
+        return;
+      }
+
+      if (!canManageLeague(league, req)) {
+        res.status(403).json({
+          message: "You can only manage leagues you created",
+        });
+        return;
+      }
+
+      if (league.status === "completed" || league.status === "cancelled") {
+        res.status(400).json({
+          message: `League is already ${league.status}`,
+        });
+        return;
+      }
+
+      const refunds = await leagueService.cancel(league, req.body.reason);
+
+      res.json({
+        message: "League cancelled",
+        league,
+        refunds,
+      });
+    } catch (error: any) {
+      console.error("League cancellation error:", error);
+      res.status(500).json({
+        message: "Error cancelling league",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   POST /api/leagues/:id/invites
+// @desc    Create an invite code, optionally expiring or with a usage cap
+// @access  Organizer (own leagues), Admin
+router.post(
+  "/:id/invites",
+  requireRole("organizer", "admin"),
+  validateObjectId("id"),
+  validateLeagueInvite,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const league = await findManagedLeague(req, res);
+      if (!league) return;
+
+      if (league.status === "completed" || league.status === "cancelled") {
+        res.status(400).json({
+          message: `League is already ${league.status}`,
+        });
+        return;
+      }
+
+      const invite = await leagueService.createInvite(
+        league,
+        new Types.ObjectId(req.userId),
+        req.body
+      );
+
+      res.status(201).json({
+        message: "Invite created",
+        invite: toInviteSummary(invite),
+      });
+    } catch (error: any) {
+      console.error("Create invite error:", error);
+      res.status(500).json({
+        message: "Error creating invite",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   GET /api/leagues/:id/invites
+// @desc    List a league's invite codes
+// @access  Organizer (own leagues), Admin
+router.get(
+  "/:id/invites",
+  requireRole("organizer", "admin"),
+  validateObjectId("id"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const league = await findManagedLeague(req, res);
+      if (!league) return;
+
+      res.json({
+        invites: league.invites.map(toInviteSummary),
+      });
+    } catch (error: any) {
+      console.error("Get invites error:", error);
+      res.status(500).json({
+        message: "Error fetching invites",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   DELETE /api/leagues/:id/invites/:code
+// @desc    Revoke an invite code
+// @access  Organizer (own leagues), Admin
+router.delete(
+  "/:id/invites/:code",
+  requireRole("organizer", "admin"),
+  validateObjectId("id"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const league = await findManagedLeague(req, res);
+      if (!league) return;
+
+      const invite = league.invites.find(
+        (i) => i.code === req.params.code.toUpperCase()
+      );
+
+      if (!invite) {
+        res.status(404).json({
+          message: "Invite not found",
+        });
+        return;
+      }
+
+      if (!invite.revokedAt) {
+        invite.revokedAt = new Date();
+        await getLeagueRepository().save(league);
+      }
+
+      res.json({
+        message: "Invite revoked",
+        invite: toInviteSummary(invite),
+      });
+    } catch (error: any) {
+      console.error("Revoke invite error:", error);
+      res.status(500).json({
+        message: "Error revoking invite",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   POST /api/leagues/:id/join-requests
+// @desc    Ask to join a private league
+// @access  Private
+router.post(
+  "/:id/join-requests",
+  auth,
+  validateObjectId("id"),
+  validateLeagueJoinRequest,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const league = await getLeagueRepository().findById(req.params.id);
+
+      if (!league) {
+        res.status(404).json({
+          message: "League not found",
+        });
+        return;
+      }
+
+      const request = await leagueService.requestToJoin(
+        league,
+        req.user!,
+        req.body.message
+      );
+
+      res.status(201).json({
+        message: "Join request sent",
+        request,
+      });
+    } catch (error: any) {
+      if (error.message.startsWith("You already have a")) {
+        res.status(409).json({
+          message: error.message,
+        });
+        return;
+      }
+
+      if (
+        error.message === "This league is public, join it directly" ||
+        error.message === "Cannot join league at this time" ||
+        error.message === "User already joined this league"
+      ) {
+        res.status(400).json({
+          message: error.message,
+        });
+        return;
+      }
+
+      console.error("Join request error:", error);
+      res.status(500).json({
+        message: "Error sending join request",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   GET /api/leagues/:id/join-requests
+// @desc    List join requests (optionally by status)
+// @access  Organizer (own leagues), Admin
+router.get(
+  "/:id/join-requests",
+  requireRole("organizer", "admin"),
+  validateObjectId("id"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const league = await findManagedLeague(req, res);
+      if (!league) return;
+
+      const { status } = req.query;
+      const requests = league.joinRequests.filter(
+        (request) => !status || request.status === status
+      );
+
+      res.json({ requests });
+    } catch (error: any) {
+      console.error("Get join requests error:", error);
+      res.status(500).json({
+        message: "Error fetching join requests",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   POST /api/leagues/:id/join-requests/:requestId/approve
+// @route   POST /api/leagues/:id/join-requests/:requestId/reject
+// @desc    Decide on a pending join request
+// @access  Organizer (own leagues), Admin
+router.post(
+  "/:id/join-requests/:requestId/:decision(approve|reject)",
+  requireRole("organizer", "admin"),
+  validateObjectId("id"),
+  validateObjectId("requestId"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const league = await findManagedLeague(req, res);
+      if (!league) return;
+
+      const request = await leagueService.decideJoinRequest(
+        league,
+        req.params.requestId,
+        req.params.decision === "approve" ? "approved" : "rejected",
+        new Types.ObjectId(req.userId)
+      );
+
+      if (!request) {
+        res.status(404).json({
+          message: "Join request not found",
+        });
+        return;
+      }
+
+      res.json({
+        message: `Join request ${request.status}`,
+        request,
+      });
+    } catch (error: any) {
+      if (error.message.startsWith("Join request was already")) {
+        res.status(409).json({
+          message: error.message,
+        });
+        return;
+      }
+
+      console.error("Join request decision error:", error);
+      res.status(500).json({
+        message: "Error updating join request",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   POST /api/leagues/:id/clone
+// @desc    Create a new league with the same settings and new dates
+// @access  Organizer (own leagues), Admin
+router.post(
+  "/:id/clone",
+  requireRole("organizer", "admin"),
+  validateObjectId("id"),
+  validateLeagueClone,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const source = await getLeagueRepository().findById(req.params.id);
+
+      if (!source) {
+        res.status(404).json({
+          message: "League not found",
+        });
+        return;
+      }
+
+      if (!canManageLeague(source, req)) {
+        res.status(403).json({
+          message: "You can only manage leagues you created",
+        });
+        return;
+      }
+
+      const { name, startDate, endDate } = req.body;
+      const settings = source.toObject({ virtuals: false });
+
+      // Settings only: no players, results or status are carried over
+      const league = await getLeagueRepository().create({
+        name: name || `${source.name} (copy)`.slice(0, 100),
+        description: settings.description,
+        startDate,
+        endDate,
+        maxParticipants: settings.maxParticipants,
+        entryFee: settings.entryFee,
+        prizes: settings.prizes.map(({ _id, ...prize }: any) => prize),
+        rules: settings.rules,
+        mode: settings.mode,
+        teamSettings: settings.teamSettings,
+        format: settings.format,
+        bracketSettings: settings.bracketSettings,
+        category: settings.category,
+        isPublic: settings.isPublic,
+        createdBy: new Types.ObjectId(req.userId),
+      });
+
+      res.status(201).json({
+        message: "League cloned successfully",
+        league,
+        clonedFrom: source._id,
+      });
+    } catch (error: any) {
+      console.error("League clone error:", error);
+      res.status(500).json({
+        message: "Error cloning league",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
 export default router;
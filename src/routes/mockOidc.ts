@@ -0,0 +1,209 @@
+import crypto from "crypto";
+import express, { Request, Response } from "express";
+import jwt from "jsonwebtoken";
+import { devOnly } from "../middleware/devOnly";
+import { generateToken } from "../utils/tokens";
+
+// Minimal OpenID Connect provider for local testing of the SSO login.
+// Mounted under /api/dev/oidc, and only answers with ENABLE_DEV_ROUTES=true
+// outside production. Every authorization request is approved straight
+// away for the identity given in the query: login_hint (email), name and
+// email_verified=false to simulate an unverified address. Point
+// OIDC_ISSUER at <BASE_URL>/api/dev/oidc to use it.
+const router = express.Router();
+
+// Approves any identity, so it must never answer on a real deployment
+router.use(devOnly);
+
+const CODE_TTL_MS = 60 * 1000;
+const ID_TOKEN_TTL_SECONDS = 5 * 60;
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  email: string;
+  emailVerified: boolean;
+  name?: string;
+  expiresAt: number;
+}
+
+// Dev-only provider state lives in memory
+const codes = new Map<string, PendingCode>();
+let signingKey: { privateKey: crypto.KeyObject; kid: string } | null = null;
+
+const getSigningKey = () => {
+  if (!signingKey) {
+    const { privateKey } = crypto.generateKeyPairSync("rsa", {
+      modulusLength: 2048,
+    });
+    signingKey = { privateKey, kid: generateToken(8) };
+  }
+  return signingKey;
+};
+
+const issuerFor = (req: Request): string =>
+  `${process.env.BASE_URL || `${req.protocol}://${req.get("host")}`}${
+    req.baseUrl
+  }`;
+
+// @route   GET /api/dev/oidc/.well-known/openid-configuration
+// @desc    Discovery document
+// @access  Public (development only)
+router.get(
+  "/.well-known/openid-configuration",
+  (req: Request, res: Response): void => {
+    const issuer = issuerFor(req);
+
+    res.json({
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ["code"],
+      subject_types_supported: ["public"],
+      id_token_signing_alg_values_supported: ["RS256"],
+      code_challenge_methods_supported: ["S256"],
+      token_endpoint_auth_methods_supported: [
+        "client_secret_basic",
+        "client_secret_post",
+        "none",
+      ],
+      scopes_supported: ["openid", "email", "profile"],
+    });
+  }
+);
+
+// @route   GET /api/dev/oidc/jwks
+// @desc    Public signing keys
+// @access  Public (development only)
+router.get("/jwks", (req: Request, res: Response): void => {
+  const { privateKey, kid } = getSigningKey();
+  const publicJwk = crypto.createPublicKey(privateKey).export({
+    format: "jwk",
+  });
+
+  res.json({
+    keys: [{ ...publicJwk, kid, use: "sig", alg: "RS256" }],
+  });
+});
+
+// @route   GET /api/dev/oidc/authorize
+// @desc    Approve the login and redirect back with a code
+// @access  Public (development only)
+router.get("/authorize", (req: Request, res: Response): void => {
+  const query = req.query as Record<string, string | undefined>;
+
+  if (
+    query.response_type !== "code" ||
+    !query.client_id ||
+    !query.redirect_uri ||
+    !query.code_challenge ||
+    query.code_challenge_method !== "S256"
+  ) {
+    res.status(400).json({
+      error: "invalid_request",
+      error_description:
+        "response_type=code, client_id, redirect_uri and an S256 code_challenge are required",
+    });
+    return;
+  }
+
+  const code = generateToken(16);
+  codes.set(code, {
+    clientId: query.client_id,
+    redirectUri: query.redirect_uri,
+    codeChallenge: query.code_challenge,
+    nonce: query.nonce,
+    email: (query.login_hint || "student@example.com").toLowerCase(),
+    emailVerified: query.email_verified !== "false",
+    name: query.name,
+    expiresAt: Date.now() + CODE_TTL_MS,
+  });
+
+  const redirect = new URL(query.redirect_uri);
+  redirect.searchParams.set("code", code);
+  if (query.state) redirect.searchParams.set("state", query.state);
+
+  res.redirect(redirect.toString());
+});
+
+// @route   POST /api/dev/oidc/token
+// @desc    Exchange an authorization code for an ID token
+// @access  Public (development only)
+router.post("/token", (req: Request, res: Response): void => {
+  const { grant_type, code, redirect_uri, code_verifier } = req.body;
+
+  // Client id from HTTP Basic auth or the form body
+  let clientId = req.body.client_id;
+  const basic = req.get("authorization");
+  if (basic?.startsWith("Basic ")) {
+    const decoded = Buffer.from(basic.slice(6), "base64").toString();
+    clientId = decodeURIComponent(decoded.split(":")[0]);
+  }
+
+  const pending = codes.get(code);
+  codes.delete(code);
+
+  if (
+    grant_type !== "authorization_code" ||
+    !pending ||
+    pending.expiresAt < Date.now() ||
+    pending.clientId !== clientId ||
+    pending.redirectUri !== redirect_uri
+  ) {
+    res.status(400).json({
+      error: "invalid_grant",
+      error_description: "Unknown, expired or mismatched authorization code",
+    });
+    return;
+  }
+
+  const challenge = crypto
+    .createHash("sha256")
+    .update(String(code_verifier || ""))
+    .digest("base64url");
+
+  if (challenge !== pending.codeChallenge) {
+    res.status(400).json({
+      error: "invalid_grant",
+      error_description: "PKCE verification failed",
+    });
+    return;
+  }
+
+  const { privateKey, kid } = getSigningKey();
+  const idToken = jwt.sign(
+    {
+      // Stable subject per email, like a real provider's user id
+      sub: `mock-${crypto
+        .createHash("sha256")
+        .update(pending.email)
+        .digest("hex")
+        .slice(0, 16)}`,
+      nonce: pending.nonce,
+      email: pending.email,
+      email_verified: pending.emailVerified,
+      name: pending.name,
+      preferred_username: pending.email.split("@")[0],
+    },
+    privateKey,
+    {
+      algorithm: "RS256",
+      keyid: kid,
+      issuer: issuerFor(req),
+      audience: clientId,
+      expiresIn: ID_TOKEN_TTL_SECONDS,
+    }
+  );
+
+  res.json({
+    access_token: generateToken(),
+    token_type: "Bearer",
+    expires_in: ID_TOKEN_TTL_SECONDS,
+    id_token: idToken,
+  });
+});
+
+export default router;
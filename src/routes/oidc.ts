@@ -0,0 +1,132 @@
+import express, { Request, Response } from "express";
+import Joi from "joi";
+import { validate } from "../middleware/validation";
+import { oidcService } from "../services/oidcService";
+import { startLogin, sendVerificationEmail } from "../services/loginService";
+
+const router = express.Router();
+
+// Validation schemas
+const callbackSchema = Joi.object({
+  code: Joi.string().required().messages({
+    "any.required": "Authorization code is required",
+  }),
+  state: Joi.string().required().messages({
+    "any.required": "State is required",
+  }),
+});
+
+// @route   GET /api/auth/oidc/authorize
+// @desc    Start an OpenID Connect login; returns the provider URL
+// @access  Public
+router.get("/authorize", async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!oidcService.isConfigured()) {
+      res.status(503).json({
+        message: "Single sign-on is not configured",
+      });
+      return;
+    }
+
+    const { url, expiresAt } = await oidcService.createAuthorizationUrl();
+
+    res.json({
+      authorizationUrl: url,
+      expiresAt,
+    });
+  } catch (error: any) {
+    console.error("OIDC authorize error:", error);
+    res.status(502).json({
+      message: "Could not reach the identity provider",
+      error: process.env.NODE_ENV === "development" ? error.message : {},
+    });
+  }
+});
+
+// @route   POST /api/auth/oidc/callback
+// @desc    Finish an OpenID Connect login with the code from the redirect
+// @access  Public
+router.post(
+  "/callback",
+  validate(callbackSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!oidcService.isConfigured()) {
+      res.status(503).json({
+        message: "Single sign-on is not configured",
+      });
+      return;
+    }
+
+    const { code, state } = req.body;
+
+    let claims;
+    try {
+      claims = await oidcService.handleCallback(code, state);
+    } catch (error: any) {
+      console.error("OIDC callback error:", error);
+      res.status(401).json({
+        message: "Sign-in with the identity provider failed",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+      return;
+    }
+
+    try {
+      const { user, created, linked } = await oidcService.findOrCreateUser(
+        claims
+      );
+
+      if (!user.isActive) {
+        res.status(401).json({
+          message: "User account is deactivated",
+        });
+        return;
+      }
+
+      if (created && !user.emailVerified) {
+        await sendVerificationEmail(user);
+      }
+
+      if (created || linked) {
+        console.log(
+          `🔗 ${created ? "Created" : "Linked"} user ${user.username} for ${
+            claims.iss
+          }`
+        );
+      }
+
+      // Same as a password login from here on, including 2FA
+      const result = await startLogin(user, req);
+
+      res.status(created ? 201 : 200).json({
+        ...result,
+        accountCreated: created,
+        accountLinked: linked,
+      });
+    } catch (error: any) {
+      if (
+        error.message === "The identity provider did not share an email address"
+      ) {
+        res.status(400).json({
+          message: error.message,
+        });
+        return;
+      }
+
+      if (error.message.startsWith("An account with this email already")) {
+        res.status(409).json({
+          message: error.message,
+        });
+        return;
+      }
+
+      console.error("OIDC login error:", error);
+      res.status(500).json({
+        message: "Server error during sign-in",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+export default router;
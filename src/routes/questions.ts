@@ -0,0 +1,409 @@
+import express, { Response } from "express";
+import Joi from "joi";
+import { Types } from "mongoose";
+import Question, {
+  QUESTION_DIFFICULTIES,
+  QUESTION_SUBJECTS,
+} from "../models/Question";
+import { requireRole, AuthRequest } from "../middleware/auth";
+import { validate, validateObjectId } from "../middleware/validation";
+import {
+  questionBankService,
+  QuestionInput,
+} from "../services/questionBankService";
+import { parseCsv } from "../utils/csv";
+
+const router = express.Router();
+
+const MAX_IMPORT_ROWS = 5000;
+
+// Validation schemas
+const choicesSchema = Joi.array()
+  .items(Joi.string().trim().min(1).max(500))
+  .min(2)
+  .max(6)
+  .unique();
+
+// The answer is the index of the right choice
+const checkAnswerIndex: Joi.CustomValidator = (value, helpers) => {
+  if (value.choices && value.answer !== undefined) {
+    if (value.answer >= value.choices.length) {
+      return helpers.message({
+        custom: "answer must be the index of one of the choices",
+      });
+    }
+  }
+  return value;
+};
+
+const questionFields = {
+  subject: Joi.string().valid(...QUESTION_SUBJECTS),
+  difficulty: Joi.string().valid(...QUESTION_DIFFICULTIES),
+  prompt: Joi.string().trim().min(3).max(2000),
+  choices: choicesSchema,
+  answer: Joi.number().integer().min(0),
+  explanation: Joi.string().trim().max(2000).allow(""),
+  tags: Joi.array().items(Joi.string().trim().lowercase().max(40)).max(20),
+  isActive: Joi.boolean(),
+};
+
+const questionCreateSchema = Joi.object({
+  ...questionFields,
+  subject: questionFields.subject.required(),
+  difficulty: questionFields.difficulty.required(),
+  prompt: questionFields.prompt.required(),
+  choices: questionFields.choices.required(),
+  answer: questionFields.answer.required(),
+}).custom(checkAnswerIndex);
+
+// Choices and answer change together so the answer keeps pointing at the
+// right choice
+const questionUpdateSchema = Joi.object(questionFields)
+  .and("choices", "answer")
+  .min(1)
+  .custom(checkAnswerIndex)
+  .messages({
+    "object.min": "Provide at least one field to update",
+  });
+
+const questionListSchema = Joi.object({
+  subject: Joi.string().valid(...QUESTION_SUBJECTS),
+  difficulty: Joi.string().valid(...QUESTION_DIFFICULTIES),
+  tag: Joi.string().trim().lowercase(),
+  search: Joi.string().trim().max(100),
+  isActive: Joi.boolean(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(50),
+});
+
+// JSON: `questions` as objects. CSV: `csv` with the columns subject,
+// difficulty, prompt, choices, answer, explanation and tags, where choices
+// and tags are separated by "|".
+const questionImportSchema = Joi.object({
+  questions: Joi.array().items(Joi.object().unknown()).min(1),
+  csv: Joi.string().max(5 * 1024 * 1024),
+})
+  .xor("questions", "csv")
+  .messages({
+    "object.missing": "Provide either questions (JSON) or csv",
+    "object.xor": "Provide either questions (JSON) or csv, not both",
+  });
+
+const drawSetSchema = Joi.object({
+  category: Joi.string()
+    .valid("math", "science", "language", "general", "mixed")
+    .required(),
+  skillLevel: Joi.string()
+    .valid("beginner", "intermediate", "advanced", "expert")
+    .required(),
+  count: Joi.number().integer().min(1).max(100).default(10),
+});
+
+const splitList = (value: string): string[] =>
+  value
+    .split("|")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+// A CSV row in the shape of a JSON question
+const fromCsvRow = (row: Record<string, string>) => ({
+  subject: row.subject,
+  difficulty: row.difficulty,
+  prompt: row.prompt,
+  choices: splitList(row.choices || ""),
+  answer: row.answer === "" ? undefined : Number(row.answer),
+  explanation: row.explanation || undefined,
+  tags: splitList(row.tags || ""),
+});
+
+// @route   GET /api/questions
+// @desc    Browse the question bank
+// @access  Admin
+router.get(
+  "/",
+  requireRole("admin"),
+  validate(questionListSchema, "query"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { subject, difficulty, tag, search, isActive, page, limit } =
+        req.query as any;
+
+      const filter: Record<string, any> = {};
+      if (subject) filter.subject = subject;
+      if (difficulty) filter.difficulty = difficulty;
+      if (tag) filter.tags = tag;
+      if (isActive !== undefined) filter.isActive = isActive;
+      if (search) {
+        filter.prompt = {
+          $regex: search.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+          $options: "i",
+        };
+      }
+
+      const [questions, total] = await Promise.all([
+        Question.find(filter)
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        Question.countDocuments(filter),
+      ]);
+
+      res.json({
+        questions,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error: any) {
+      console.error("Get questions error:", error);
+      res.status(500).json({
+        message: "Error fetching questions",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   GET /api/questions/draw
+// @desc    Preview a question set as a league would draw it
+// @access  Admin
+router.get(
+  "/draw",
+  requireRole("admin"),
+  validate(drawSetSchema, "query"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { category, skillLevel, count } = req.query as any;
+
+      const questions = await questionBankService.drawSet(
+        { category, rules: { skillLevel } },
+        count
+      );
+
+      res.json({
+        requested: count,
+        drawn: questions.length,
+        questions,
+      });
+    } catch (error: any) {
+      console.error("Draw question set error:", error);
+      res.status(500).json({
+        message: "Error drawing question set",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   GET /api/questions/:id
+// @desc    Get a question
+// @access  Admin
+router.get(
+  "/:id",
+  requireRole("admin"),
+  validateObjectId("id"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const question = await Question.findById(req.params.id);
+
+      if (!question) {
+        res.status(404).json({
+          message: "Question not found",
+        });
+        return;
+      }
+
+      res.json({ question });
+    } catch (error: any) {
+      console.error("Get question error:", error);
+      res.status(500).json({
+        message: "Error fetching question",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   POST /api/questions
+// @desc    Add a question to the bank
+// @access  Admin
+router.post(
+  "/",
+  requireRole("admin"),
+  validate(questionCreateSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const question = await Question.create({
+        ...req.body,
+        createdBy: new Types.ObjectId(req.userId),
+      });
+
+      res.status(201).json({
+        message: "Question created successfully",
+        question,
+      });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        res.status(409).json({
+          message: "This question is already in the bank for its subject",
+        });
+        return;
+      }
+
+      console.error("Question creation error:", error);
+      res.status(500).json({
+        message: "Error creating question",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   POST /api/questions/import
+// @desc    Bulk import questions from JSON (`questions`) or CSV (`csv`).
+//          Nothing is imported if any row is invalid.
+// @access  Admin
+router.post(
+  "/import",
+  requireRole("admin"),
+  validate(questionImportSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const rows: Record<string, any>[] = req.body.csv
+        ? parseCsv(req.body.csv).map(fromCsvRow)
+        : req.body.questions;
+
+      if (rows.length === 0 || rows.length > MAX_IMPORT_ROWS) {
+        res.status(400).json({
+          message: `Import between 1 and ${MAX_IMPORT_ROWS} questions at a time`,
+        });
+        return;
+      }
+
+      const questions: QuestionInput[] = [];
+      const errors: Array<{ row: number; field: string; message: string }> = [];
+
+      rows.forEach((row, index) => {
+        const { error, value } = questionCreateSchema.validate(row, {
+          abortEarly: false,
+          stripUnknown: true,
+        });
+
+        if (error) {
+          error.details.forEach((detail) =>
+            errors.push({
+              row: index + 1,
+              field: detail.path.join("."),
+              message: detail.message,
+            })
+          );
+        } else {
+          questions.push(value);
+        }
+      });
+
+      if (errors.length > 0) {
+        res.status(400).json({
+          message: "Validation error",
+          errors,
+        });
+        return;
+      }
+
+      const summary = await questionBankService.importQuestions(
+        questions,
+        new Types.ObjectId(req.userId)
+      );
+
+      res.status(201).json({
+        message: "Questions imported successfully",
+        ...summary,
+      });
+    } catch (error: any) {
+      console.error("Question import error:", error);
+      res.status(500).json({
+        message: "Error importing questions",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   PATCH /api/questions/:id
+// @desc    Update a question; games already started keep their copy
+// @access  Admin
+router.patch(
+  "/:id",
+  requireRole("admin"),
+  validateObjectId("id"),
+  validate(questionUpdateSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const question = await Question.findById(req.params.id);
+
+      if (!question) {
+        res.status(404).json({
+          message: "Question not found",
+        });
+        return;
+      }
+
+      question.set(req.body);
+      await question.save();
+
+      res.json({
+        message: "Question updated successfully",
+        question,
+      });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        res.status(409).json({
+          message: "This question is already in the bank for its subject",
+        });
+        return;
+      }
+
+      console.error("Question update error:", error);
+      res.status(500).json({
+        message: "Error updating question",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   DELETE /api/questions/:id
+// @desc    Delete a question; games already started keep their copy
+// @access  Admin
+router.delete(
+  "/:id",
+  requireRole("admin"),
+  validateObjectId("id"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const question = await Question.findByIdAndDelete(req.params.id);
+
+      if (!question) {
+        res.status(404).json({
+          message: "Question not found",
+        });
+        return;
+      }
+
+      res.json({
+        message: "Question deleted successfully",
+      });
+    } catch (error: any) {
+      console.error("Question delete error:", error);
+      res.status(500).json({
+        message: "Error deleting question",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+export default router;
@@ -2,6 +2,7 @@ import express, { Request, Response } from "express";
 import { Reader, IReaderModel, IReader } from "../models/Reader";
 import { User } from "../models/User";
 import { auth, optionalAuth, AuthRequest } from "../middleware/auth";
+import { authOrApiKey } from "../middleware/apiKey";
 import { validate, validateObjectId } from "../middleware/validation";
 import Joi from "joi";
 import jwt from "jsonwebtoken";
@@ -34,6 +35,24 @@ const purchaseSchema = Joi.object({
   }),
 });
 
+const createReaderSchema = Joi.object({
+  title: Joi.string().trim().max(100).required(),
+  description: Joi.string().trim().max(500).required(),
+  subject: Joi.string()
+    .valid("math", "science", "english", "general")
+    .required(),
+  difficulty: Joi.string()
+    .valid("beginner", "intermediate", "advanced")
+    .required(),
+  pages: Joi.number().integer().min(1).max(100).required(),
+  price: Joi.number().min(0).required(),
+  fileUrl: Joi.string().uri().required(),
+  fileName: Joi.string().trim().required(),
+  fileSize: Joi.number().min(0).required(),
+  author: Joi.string().trim().max(50).required(),
+  tags: Joi.array().items(Joi.string()).default([]),
+});
+
 // @route   GET /api/readers/catalog
 // @desc    Get readers catalog with filtering and pagination
 // @access  Public (but shows ownership status if authenticated)
@@ -391,7 +410,7 @@ router.get(
 // @access  Private
 router.get(
   "/library",
-  auth,
+  authOrApiKey("readers:read"),
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       // Populate user's purchased readers with full reader details
@@ -442,4 +461,37 @@ router.get(
   }
 );
 
+// @route   POST /api/readers
+// @desc    Add a reader to the catalog (content pipeline)
+// @access  Admin or API key with readers:write
+router.post(
+  "/",
+  authOrApiKey("readers:write"),
+  validate(createReaderSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      if (!req.apiKey && req.user?.role !== "admin") {
+        res.status(403).json({
+          message: "You do not have permission to perform this action",
+        });
+        return;
+      }
+
+      const reader = await Reader.create(req.body);
+
+      res.status(201).json({
+        success: true,
+        message: "Reader created successfully",
+        data: reader,
+      });
+    } catch (error: any) {
+      console.error("Reader creation error:", error);
+      res.status(500).json({
+        message: "Error creating reader",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
 export default router;
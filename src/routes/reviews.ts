@@ -0,0 +1,137 @@
+import express, { Response } from "express";
+import Joi from "joi";
+import { Types } from "mongoose";
+import { requireRole, AuthRequest } from "../middleware/auth";
+import { validate, validateObjectId } from "../middleware/validation";
+import { getLeagueRepository } from "../repositories/leagueRepository";
+import { auditService } from "../services/auditService";
+import { submissionReviewService } from "../services/submissionReviewService";
+
+const router = express.Router();
+
+// Validation schemas
+const reviewQueueSchema = Joi.object({
+  status: Joi.string()
+    .valid("pending", "approved", "rejected")
+    .default("pending"),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+});
+
+const reviewDecisionSchema = Joi.object({
+  note: Joi.string().trim().max(500).allow(""),
+});
+
+// @route   GET /api/reviews/submissions
+// @desc    Review queue of flagged score submissions, oldest first
+// @access  Moderator, Admin
+router.get(
+  "/submissions",
+  requireRole("moderator", "admin"),
+  validate(reviewQueueSchema, "query"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { status, page, limit } = req.query as any;
+
+      const { items, total } = await submissionReviewService.queue(status, {
+        skip: (page - 1) * limit,
+        limit,
+      });
+
+      res.json({
+        submissions: items,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error: any) {
+      console.error("Get review queue error:", error);
+      res.status(500).json({
+        message: "Error fetching review queue",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   POST /api/reviews/submissions/:leagueId/:submissionId/:decision
+// @desc    Approve or reject a flagged submission. Approved submissions
+//          enter the leaderboard and the player's stats.
+// @access  Moderator, Admin
+router.post(
+  "/submissions/:leagueId/:submissionId/:decision(approve|reject)",
+  requireRole("moderator", "admin"),
+  validateObjectId("leagueId"),
+  validateObjectId("submissionId"),
+  validate(reviewDecisionSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { leagueId, submissionId } = req.params;
+      const decision =
+        req.params.decision === "approve" ? "approved" : "rejected";
+
+      const league = await getLeagueRepository().findById(leagueId);
+
+      if (!league) {
+        res.status(404).json({
+          message: "League not found",
+        });
+        return;
+      }
+
+      let decided;
+      try {
+        decided = await submissionReviewService.decide(
+          league,
+          submissionId,
+          decision,
+          new Types.ObjectId(req.userId),
+          req.body.note || undefined
+        );
+      } catch (reviewError: any) {
+        res.status(400).json({
+          message: reviewError.message,
+        });
+        return;
+      }
+
+      if (!decided) {
+        res.status(404).json({
+          message: "Submission not found",
+        });
+        return;
+      }
+
+      await auditService.record(
+        {
+          actorId: req.userId!,
+          action: "submission.reviewed",
+          targetUserId: String(decided.userId),
+          metadata: {
+            leagueId,
+            submissionId,
+            decision,
+            suspicion: decided.submission.review?.suspicion,
+          },
+        },
+        req
+      );
+
+      res.json({
+        message: `Submission ${decision}`,
+        submission: decided.submission,
+      });
+    } catch (error: any) {
+      console.error("Submission review error:", error);
+      res.status(500).json({
+        message: "Error reviewing submission",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+export default router;
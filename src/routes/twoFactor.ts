@@ -0,0 +1,296 @@
+import express, { Request, Response } from "express";
+import Joi from "joi";
+import User from "../models/User";
+import { auth, denyImpersonation, AuthRequest } from "../middleware/auth";
+import { validate } from "../middleware/validation";
+import { tokenService } from "../services/tokenService";
+import { twoFactorService } from "../services/twoFactorService";
+import { loginProtection } from "../services/loginProtection";
+import { completeLogin, recordFailedLogin } from "../services/loginService";
+
+const router = express.Router();
+
+// Validation schemas
+const codeSchema = Joi.object({
+  code: Joi.string().trim().required().messages({
+    "any.required": "Authentication code is required",
+  }),
+});
+
+const challengeSchema = Joi.object({
+  challengeToken: Joi.string().required().messages({
+    "any.required": "Challenge token is required",
+  }),
+  code: Joi.string().trim().required().messages({
+    "any.required": "Authentication or recovery code is required",
+  }),
+});
+
+const disableSchema = Joi.object({
+  password: Joi.string().required().messages({
+    "any.required": "Password is required",
+  }),
+  code: Joi.string().trim().required().messages({
+    "any.required": "Authentication or recovery code is required",
+  }),
+});
+
+// @route   GET /api/auth/2fa/status
+// @desc    Two-factor status of the current user
+// @access  Private
+router.get(
+  "/status",
+  auth,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const user = req.user!;
+
+    res.json({
+      enabled: !!user.twoFactor?.enabled,
+      enabledAt: user.twoFactor?.enabledAt || null,
+      remainingRecoveryCodes: twoFactorService.remainingRecoveryCodes(user),
+    });
+  }
+);
+
+// @route   POST /api/auth/2fa/setup
+// @desc    Generate a TOTP secret and otpauth:// URI for the authenticator app
+// @access  Private
+router.post(
+  "/setup",
+  auth,
+  denyImpersonation,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      try {
+        const enrollment = await twoFactorService.beginEnrollment(req.user!);
+
+        res.json({
+          message:
+            "Scan the URI (or enter the secret) in your authenticator app, then confirm with a code",
+          ...enrollment,
+        });
+      } catch (enrollmentError: any) {
+        res.status(400).json({
+          message: enrollmentError.message,
+        });
+        return;
+      }
+    } catch (error: any) {
+      console.error("2FA setup error:", error);
+      res.status(500).json({
+        message: "Server error during two-factor setup",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   POST /api/auth/2fa/enable
+// @desc    Confirm setup with a code; returns one-time recovery codes
+// @access  Private
+router.post(
+  "/enable",
+  auth,
+  denyImpersonation,
+  validate(codeSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      try {
+        const recoveryCodes = await twoFactorService.confirmEnrollment(
+          req.user!,
+          req.body.code
+        );
+
+        res.json({
+          message: "Two-factor authentication enabled",
+          recoveryCodes,
+          note: "Store these recovery codes somewhere safe. Each can be used once and they will not be shown again.",
+        });
+      } catch (enrollmentError: any) {
+        res.status(400).json({
+          message: enrollmentError.message,
+        });
+        return;
+      }
+    } catch (error: any) {
+      console.error("2FA enable error:", error);
+      res.status(500).json({
+        message: "Server error enabling two-factor authentication",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   POST /api/auth/2fa/verify
+// @desc    Second login step: exchange challenge token + code for a session
+// @access  Public (requires a challenge token from /api/auth/login)
+router.post(
+  "/verify",
+  validate(challengeSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { challengeToken, code } = req.body;
+
+      let userId: string;
+      try {
+        ({ userId } = tokenService.verifyTwoFactorChallenge(challengeToken));
+      } catch (tokenError) {
+        res.status(401).json({
+          message: "Invalid or expired challenge token, please log in again",
+        });
+        return;
+      }
+
+      const user = await User.findById(userId);
+
+      if (!user || !user.isActive) {
+        res.status(401).json({
+          message: "User account is not available",
+        });
+        return;
+      }
+
+      // Code guesses share the failed-login counters with passwords
+      const loginCheck = await loginProtection.check(user.email, req.ip);
+
+      if (!loginCheck.allowed) {
+        res.setHeader("Retry-After", String(loginCheck.retryAfter));
+        res.status(loginCheck.status!).json({
+          message: loginCheck.message,
+          retryAfter: loginCheck.retryAfter,
+          lockedUntil: loginCheck.lockedUntil,
+        });
+        return;
+      }
+
+      const method = await twoFactorService.verify(user, code);
+
+      if (!method) {
+        const failure = await recordFailedLogin(user.email, req, user);
+
+        if (failure.accountLocked) {
+          res.status(423).json({
+            message:
+              "Too many failed login attempts. Your account is temporarily locked.",
+            lockedUntil: failure.lockedUntil,
+          });
+          return;
+        }
+
+        res.status(400).json({
+          message: "Invalid authentication code",
+        });
+        return;
+      }
+
+      await loginProtection.recordSuccess(user.email);
+
+      const result = await completeLogin(user, req);
+
+      res.json({
+        ...result,
+        twoFactorMethod: method,
+        ...(method === "recovery_code" && {
+          remainingRecoveryCodes: twoFactorService.remainingRecoveryCodes(user),
+        }),
+      });
+    } catch (error: any) {
+      console.error("2FA verify error:", error);
+      res.status(500).json({
+        message: "Server error during two-factor verification",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   POST /api/auth/2fa/recovery-codes
+// @desc    Replace all recovery codes (requires a current code)
+// @access  Private
+router.post(
+  "/recovery-codes",
+  auth,
+  denyImpersonation,
+  validate(codeSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = req.user!;
+
+      if (!user.twoFactor?.enabled) {
+        res.status(400).json({
+          message: "Two-factor authentication is not enabled",
+        });
+        return;
+      }
+
+      if (!(await twoFactorService.verify(user, req.body.code))) {
+        res.status(400).json({
+          message: "Invalid authentication code",
+        });
+        return;
+      }
+
+      const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(
+        user
+      );
+
+      res.json({
+        message: "Recovery codes regenerated, previous codes no longer work",
+        recoveryCodes,
+      });
+    } catch (error: any) {
+      console.error("2FA recovery codes error:", error);
+      res.status(500).json({
+        message: "Server error regenerating recovery codes",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   POST /api/auth/2fa/disable
+// @desc    Turn off two-factor authentication
+// @access  Private (password and a current code required)
+router.post(
+  "/disable",
+  auth,
+  denyImpersonation,
+  validate(disableSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { password, code } = req.body;
+      const user = req.user!;
+
+      if (!user.twoFactor?.enabled) {
+        res.status(400).json({
+          message: "Two-factor authentication is not enabled",
+        });
+        return;
+      }
+
+      const isPasswordValid = await user.comparePassword(password);
+
+      if (!isPasswordValid || !(await twoFactorService.verify(user, code))) {
+        res.status(400).json({
+          message: "Invalid password or authentication code",
+        });
+        return;
+      }
+
+      await twoFactorService.disable(user);
+
+      res.json({
+        message: "Two-factor authentication disabled",
+      });
+    } catch (error: any) {
+      console.error("2FA disable error:", error);
+      res.status(500).json({
+        message: "Server error disabling two-factor authentication",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,494 @@
+import express, { Request, Response } from "express";
+import Joi from "joi";
+import { Types } from "mongoose";
+import User from "../models/User";
+import VerificationToken from "../models/VerificationToken";
+import DataExport, { IDataExport } from "../models/DataExport";
+import { auth, denyImpersonation, AuthRequest } from "../middleware/auth";
+import { validate, validateObjectId } from "../middleware/validation";
+import { accountService } from "../services/accountService";
+import { dataExportService } from "../services/dataExportService";
+import { ratingService } from "../services/ratingService";
+import { mailService } from "../services/mailService";
+import { tokenService } from "../services/tokenService";
+import { SKILL_LEVEL_BANDS, SkillLevel } from "../utils/rating";
+import { IUser } from "../types";
+
+const router = express.Router();
+
+const EMAIL_CHANGE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+// Validation schemas
+const updateProfileSchema = Joi.object({
+  username: Joi.string().trim().min(3).max(30),
+  email: Joi.string().trim().lowercase().email().messages({
+    "string.email": "Please provide a valid email",
+  }),
+})
+  .min(1)
+  .messages({
+    "object.min": "Provide a username or email to update",
+  });
+
+const changePasswordSchema = Joi.object({
+  currentPassword: Joi.string().required().messages({
+    "any.required": "Current password is required",
+  }),
+  newPassword: Joi.string().min(6).required().messages({
+    "string.min": "Password must be at least 6 characters",
+    "any.required": "New password is required",
+  }),
+});
+
+const confirmPasswordSchema = Joi.object({
+  password: Joi.string().required().messages({
+    "any.required": "Password is required to confirm this action",
+  }),
+});
+
+const requestExportSchema = Joi.object({
+  format: Joi.string().valid("json", "zip").default("json"),
+});
+
+const ratingHistorySchema = Joi.object({
+  category: Joi.string().valid(
+    "math",
+    "science",
+    "language",
+    "general",
+    "mixed"
+  ),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+});
+
+// Skill levels whose leagues a rating may join
+const skillLevelsFor = (rating: number): SkillLevel[] =>
+  (Object.keys(SKILL_LEVEL_BANDS) as SkillLevel[]).filter((level) => {
+    const { min, max } = SKILL_LEVEL_BANDS[level];
+    const rounded = Math.round(rating);
+    return (min === null || rounded >= min) && (max === null || rounded <= max);
+  });
+
+// Profile fields returned by the /me endpoints
+const toProfile = (user: IUser) => ({
+  id: user._id,
+  username: user.username,
+  email: user.email,
+  emailVerified: user.emailVerified,
+  pendingEmail: user.pendingEmail || null,
+  role: user.role,
+  credits: user.credits,
+  totalPoints: user.totalPoints,
+  stats: user.stats,
+  ratings: user.ratings,
+  purchasedReaders: user.purchasedReaders.length,
+  twoFactorEnabled: !!user.twoFactor?.enabled,
+  lastLoginAt: user.lastLoginAt,
+  createdAt: user.createdAt,
+});
+
+// @route   GET /api/users/me
+// @desc    Get the current user's profile
+// @access  Private
+router.get("/me", auth, (req: AuthRequest, res: Response): void => {
+  res.json({ user: toProfile(req.user!) });
+});
+
+// @route   PATCH /api/users/me
+// @desc    Update username and/or email (new email must be confirmed)
+// @access  Private
+router.patch(
+  "/me",
+  auth,
+  denyImpersonation,
+  validate(updateProfileSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = req.user!;
+      const { username, email } = req.body;
+      let emailChangeRequested = false;
+
+      if (username && username !== user.username) {
+        const taken = await User.exists({
+          username,
+          _id: { $ne: user._id },
+        });
+
+        if (taken) {
+          res.status(400).json({
+            message: "Username is already taken",
+          });
+          return;
+        }
+
+        user.username = username;
+      }
+
+      if (email && email !== user.email) {
+        const taken = await User.exists({ email, _id: { $ne: user._id } });
+
+        if (taken) {
+          res.status(400).json({
+            message: "Email is already in use",
+          });
+          return;
+        }
+
+        // The current address stays active until the new one is confirmed
+        user.pendingEmail = email;
+        emailChangeRequested = true;
+      }
+
+      await user.save();
+
+      if (emailChangeRequested) {
+        const token = await VerificationToken.issue(
+          String(user._id),
+          "email_change",
+          EMAIL_CHANGE_TTL_MS
+        );
+        await mailService.sendEmailChangeConfirmation(email, token);
+      }
+
+      res.json({
+        message: emailChangeRequested
+          ? "Profile updated. Check your new inbox to confirm the email change."
+          : "Profile updated",
+        user: toProfile(user),
+      });
+    } catch (error: any) {
+      console.error("Profile update error:", error);
+      res.status(500).json({
+        message: "Error updating profile",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   POST /api/users/me/password
+// @desc    Change password; other sessions are signed out
+// @access  Private
+router.post(
+  "/me/password",
+  auth,
+  denyImpersonation,
+  validate(changePasswordSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = req.user!;
+      const { currentPassword, newPassword } = req.body;
+
+      const isPasswordValid = await user.comparePassword(currentPassword);
+
+      if (!isPasswordValid) {
+        res.status(400).json({
+          message: "Current password is incorrect",
+        });
+        return;
+      }
+
+      user.password = newPassword;
+      await user.save();
+
+      const revokedTokens = await tokenService.revokeAllSessions(
+        String(user._id),
+        "password_changed",
+        req.sessionId
+      );
+
+      res.json({
+        message: "Password changed successfully",
+        otherSessionsRevoked: revokedTokens,
+      });
+    } catch (error: any) {
+      console.error("Password change error:", error);
+      res.status(500).json({
+        message: "Error changing password",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   POST /api/users/me/deactivate
+// @desc    Deactivate the account (can be restored by an admin)
+// @access  Private
+router.post(
+  "/me/deactivate",
+  auth,
+  denyImpersonation,
+  validate(confirmPasswordSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = req.user!;
+
+      if (!(await user.comparePassword(req.body.password))) {
+        res.status(400).json({
+          message: "Password is incorrect",
+        });
+        return;
+      }
+
+      const summary = await accountService.deactivate(user);
+
+      res.json({
+        message: "Account deactivated",
+        ...summary,
+      });
+    } catch (error: any) {
+      console.error("Account deactivation error:", error);
+      res.status(500).json({
+        message: "Error deactivating account",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   DELETE /api/users/me
+// @desc    Permanently delete the account
+// @access  Private
+router.delete(
+  "/me",
+  auth,
+  denyImpersonation,
+  validate(confirmPasswordSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = req.user!;
+
+      if (!(await user.comparePassword(req.body.password))) {
+        res.status(400).json({
+          message: "Password is incorrect",
+        });
+        return;
+      }
+
+      const summary = await accountService.deleteAccount(user);
+
+      res.json({
+        message: "Account deleted",
+        ...summary,
+      });
+    } catch (error: any) {
+      console.error("Account deletion error:", error);
+      res.status(500).json({
+        message: "Error deleting account",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// Export fields returned to the owner
+const toExportSummary = (dataExport: IDataExport) => ({
+  id: dataExport._id,
+  format: dataExport.format,
+  status: dataExport.status,
+  fileName: dataExport.fileName || null,
+  size: dataExport.size || null,
+  error: dataExport.status === "failed" ? dataExport.error : undefined,
+  requestedAt: dataExport.createdAt,
+  completedAt: dataExport.completedAt || null,
+  availableUntil: dataExport.expiresAt,
+});
+
+// @route   POST /api/users/me/exports
+// @desc    Request an archive of all personal data (built in the background)
+// @access  Private
+router.post(
+  "/me/exports",
+  auth,
+  validate(requestExportSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const dataExport = await dataExportService.requestExport(
+        req.userId!,
+        req.body.format
+      );
+
+      res.status(202).json({
+        message:
+          "Export requested. Check its status to get the download link once it is ready.",
+        export: toExportSummary(dataExport),
+      });
+    } catch (error: any) {
+      if (error.message === "An export is already being prepared") {
+        res.status(409).json({
+          message: error.message,
+        });
+        return;
+      }
+
+      console.error("Data export request error:", error);
+      res.status(500).json({
+        message: "Error requesting data export",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   GET /api/users/me/ratings
+// @desc    Current rating per league category and the rating history
+//          (optional ?category=, ?limit=)
+// @access  Private
+router.get(
+  "/me/ratings",
+  auth,
+  validate(ratingHistorySchema, "query"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { category, limit } = req.query as any;
+      const history = await ratingService.history(
+        req.user!._id as Types.ObjectId,
+        { category, limit }
+      );
+
+      res.json({
+        ratings: req.user!.ratings.map((rating) => ({
+          category: rating.category,
+          rating: Math.round(rating.rating),
+          deviation: Math.round(rating.deviation),
+          leagues: rating.leagues,
+          updatedAt: rating.updatedAt,
+          skillLevels: skillLevelsFor(rating.rating),
+        })),
+        history,
+      });
+    } catch (error: any) {
+      console.error("Rating history error:", error);
+      res.status(500).json({
+        message: "Error fetching ratings",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   GET /api/users/me/exports
+// @desc    List the current user's data exports
+// @access  Private
+router.get(
+  "/me/exports",
+  auth,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      await dataExportService.failStaleExports(req.userId!);
+      const exports = await DataExport.find({ userId: req.userId }).sort({
+        createdAt: -1,
+      });
+
+      res.json({
+        exports: exports.map(toExportSummary),
+      });
+    } catch (error: any) {
+      console.error("Data export list error:", error);
+      res.status(500).json({
+        message: "Error fetching data exports",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   GET /api/users/me/exports/:id
+// @desc    Export status, with a signed download link once ready
+// @access  Private
+router.get(
+  "/me/exports/:id",
+  auth,
+  validateObjectId("id"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const query = { _id: req.params.id, userId: req.userId };
+      await dataExportService.failStaleExports(req.userId!);
+      let dataExport = await DataExport.findOne(query);
+
+      if (!dataExport) {
+        res.status(404).json({
+          message: "Export not found",
+        });
+        return;
+      }
+
+      // Pick up exports whose background job never ran
+      if (dataExport.status === "pending") {
+        await dataExportService.processExport(req.params.id);
+        dataExport = (await DataExport.findOne(query)) || dataExport;
+      }
+
+      const baseUrl =
+        process.env.BASE_URL || `${req.protocol}://${req.get("host")}`;
+
+      res.json({
+        export: toExportSummary(dataExport),
+        download:
+          dataExport.status === "ready"
+            ? {
+                ...dataExportService.createDownloadLink(dataExport, baseUrl),
+                expiresIn: "1 hour",
+              }
+            : null,
+      });
+    } catch (error: any) {
+      console.error("Data export status error:", error);
+      res.status(500).json({
+        message: "Error fetching data export",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+// @route   GET /api/users/exports/file/:token
+// @desc    Download an export archive using a signed token
+// @access  Private via signed token
+router.get(
+  "/exports/file/:token",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const dataExport = await dataExportService.resolveDownload(
+        req.params.token
+      );
+
+      if (!dataExport || !dataExport.data) {
+        res.status(404).json({
+          message: "Export not found or no longer available",
+        });
+        return;
+      }
+
+      res.setHeader("Content-Type", dataExport.contentType!);
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${dataExport.fileName}"`
+      );
+      res.setHeader("Cache-Control", "no-store");
+      res.send(dataExport.data);
+    } catch (error: any) {
+      if (error.name === "TokenExpiredError") {
+        res.status(401).json({
+          message: "Download link has expired. Please generate a new one.",
+        });
+        return;
+      }
+
+      if (error.name === "JsonWebTokenError") {
+        res.status(401).json({
+          message: "Invalid download token",
+        });
+        return;
+      }
+
+      console.error("Data export download error:", error);
+      res.status(500).json({
+        message: "Error downloading data export",
+        error: process.env.NODE_ENV === "development" ? error.message : {},
+      });
+    }
+  }
+);
+
+export default router;
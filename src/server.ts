@@ -5,113 +5,47 @@ import dotenv from "dotenv";
 
 // Import routes
 import authRoutes from "./routes/auth";
-// ✅ COMMENTED OUT - Using mock data instead
-// import leagueRoutes from "./routes/leagues";
+import twoFactorRoutes from "./routes/twoFactor";
+import oidcRoutes from "./routes/oidc";
+import adminRoutes from "./routes/admin";
+import apiKeyRoutes from "./routes/apiKeys";
+import userRoutes from "./routes/users";
+import devRoutes from "./routes/dev";
+import leagueRoutes from "./routes/leagues";
+import leagueTemplateRoutes from "./routes/leagueTemplates";
+import questionRoutes from "./routes/questions";
+import reviewRoutes from "./routes/reviews";
 import leaderboardRoutes from "./routes/leaderboard"; // M14 ROUTES
 import readersRoutes from "./routes/readers"; // NEW M15 ROUTES
+import { resolveLeagueStore } from "./repositories/leagueRepository";
+import { devRoutesEnabled } from "./middleware/devOnly";
 
 // Import models to ensure they're registered
 import "./models/User";
 import "./models/League";
+import "./models/LeagueTemplate";
+import "./models/Question";
 import "./models/LeaderboardSnapshot"; // M14 MODEL
 import "./models/Reader"; // NEW M15 MODEL
 
 // Import services
 import { snapshotJobService } from "./services/snapshotJob"; // M14 SERVICE
+import { leagueLifecycleJobService } from "./services/leagueLifecycleJob";
+import { mailService } from "./services/mailService";
 
 // Load environment variables
 dotenv.config();
 
+// Fails in production when no mail transport is configured
+mailService.getTransport();
+
 const app = express();
 const PORT = process.env.PORT || 5001;
 
-// ============== MOCK LEAGUES DATA ==============
-const MOCK_LEAGUES = [
-  {
-    _id: "league1",
-    id: "league1",
-    name: "Speed Reading Championship",
-    description:
-      "Test your reading speed and comprehension in this weekly challenge",
-    subject: "reading",
-    startDate: new Date().toISOString(),
-    endDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-    maxParticipants: 100,
-    participants: 23,
-    entryFee: 0,
-    prizePool: { total: 1000, distribution: [500, 300, 200] },
-    rules: {
-      submissionsPerUser: 3,
-      timeLimit: 600, // 10 minutes
-      scoringMethod: "accuracy_then_time",
-    },
-    status: "active",
-    difficulty: "Intermediate",
-    category: "Speed",
-    prize: "$1000 Credits + Premium Access",
-    prizeTable: [
-      { rank: 1, reward: "500 Credits + Gold Badge", credits: 500 },
-      { rank: 2, reward: "300 Credits + Silver Badge", credits: 300 },
-      { rank: 3, reward: "200 Credits + Bronze Badge", credits: 200 },
-    ],
-  },
-  {
-    _id: "league2",
-    id: "league2",
-    name: "Math Masters League",
-    description: "Compete in advanced mathematics problems and calculations",
-    subject: "math",
-    startDate: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), // Tomorrow
-    endDate: new Date(Date.now() + 8 * 24 * 60 * 60 * 1000).toISOString(),
-    maxParticipants: 50,
-    participants: 7,
-    entryFee: 0,
-    prizePool: { total: 1500, distribution: [800, 400, 300] },
-    rules: {
-      submissionsPerUser: 1,
-      timeLimit: 900, // 15 minutes
-      scoringMethod: "accuracy_then_time",
-    },
-    status: "upcoming",
-    difficulty: "Advanced",
-    category: "Accuracy",
-    prize: "$1500 Credits + Expert Badge",
-    prizeTable: [
-      { rank: 1, reward: "800 Credits + Math Expert Badge", credits: 800 },
-      { rank: 2, reward: "400 Credits + Calculator Badge", credits: 400 },
-      { rank: 3, reward: "300 Credits + Numbers Badge", credits: 300 },
-    ],
-  },
-  {
-    _id: "league3",
-    id: "league3",
-    name: "Science Quiz Challenge",
-    description:
-      "General science knowledge competition covering physics, chemistry, and biology",
-    subject: "science",
-    startDate: new Date().toISOString(),
-    endDate: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000).toISOString(),
-    maxParticipants: 200,
-    participants: 156,
-    entryFee: 0,
-    prizePool: { total: 2000, distribution: [1000, 600, 400] },
-    rules: {
-      submissionsPerUser: 2,
-      timeLimit: 720, // 12 minutes
-      scoringMethod: "accuracy_then_time",
-    },
-    status: "active",
-    difficulty: "Beginner",
-    category: "Mixed",
-    prize: "$2000 Credits + Science Badge",
-    prizeTable: [
-      { rank: 1, reward: "1000 Credits + Scientist Badge", credits: 1000 },
-      { rank: 2, reward: "600 Credits + Lab Badge", credits: 600 },
-      { rank: 3, reward: "400 Credits + Discovery Badge", credits: 400 },
-    ],
-  },
-];
+// Behind Vercel's proxy - needed for req.ip (login throttling per client)
+app.set("trust proxy", 1);
 
+// ============== MOCK LEADERBOARD DATA ==============
 const MOCK_LEADERBOARD = [
   {
     userId: "user1",
@@ -216,6 +150,7 @@ const corsOptions = {
   allowedHeaders: [
     "Content-Type",
     "Authorization",
+    "X-API-Key",
     "X-Requested-With",
     "Accept",
     "Origin",
@@ -256,7 +191,7 @@ app.use((req, res, next) => {
   );
   res.header(
     "Access-Control-Allow-Headers",
-    "Content-Type, Authorization, X-Requested-With, Accept, Origin"
+    "Content-Type, Authorization, X-API-Key, X-Requested-With, Accept, Origin"
   );
   res.header("Access-Control-Allow-Credentials", "true");
   res.header("Access-Control-Max-Age", "86400");
@@ -284,146 +219,6 @@ app.use((req, res, next) => {
   next();
 });
 
-// ============== MOCK LEAGUE ROUTES (M13) ==============
-
-app.get("/api/leagues", (req, res) => {
-  console.log("📚 Fetching mock leagues catalog");
-  res.json({
-    success: true,
-    data: MOCK_LEAGUES,
-    message: "Mock leagues data - Set up MongoDB Atlas for real data",
-  });
-});
-
-app.get("/api/leagues/:id", (req, res) => {
-  const leagueId = req.params.id;
-  console.log(`🎯 Fetching league details for: ${leagueId}`);
-
-  const league = MOCK_LEAGUES.find(
-    (l) => l.id === leagueId || l._id === leagueId
-  );
-  if (league) {
-    res.json({
-      success: true,
-      data: league,
-    });
-  } else {
-    res.status(404).json({
-      success: false,
-      message: "League not found",
-    });
-  }
-});
-
-app.get("/api/leagues/:id/leaderboard", (req, res) => {
-  const leagueId = req.params.id;
-  console.log(`🏆 Fetching leaderboard for league: ${leagueId}`);
-
-  const league = MOCK_LEAGUES.find(
-    (l) => l.id === leagueId || l._id === leagueId
-  );
-  if (league) {
-    res.json({
-      success: true,
-      data: MOCK_LEADERBOARD,
-    });
-  } else {
-    res.status(404).json({
-      success: false,
-      message: "League not found",
-    });
-  }
-});
-
-app.post("/api/leagues/enter", (req, res) => {
-  const { leagueId } = req.body;
-  console.log(`🚪 User entering league: ${leagueId}`);
-
-  const league = MOCK_LEAGUES.find(
-    (l) => l.id === leagueId || l._id === leagueId
-  );
-  if (league) {
-    league.participants += 1;
-    res.json({
-      success: true,
-      message: "Successfully joined league!",
-    });
-  } else {
-    res.status(404).json({
-      success: false,
-      message: "League not found",
-    });
-  }
-});
-
-app.post("/api/leagues/submit", (req, res) => {
-  const { leagueId, answers, completionTime, accuracy } = req.body;
-  console.log(`📝 Submitting to league: ${leagueId}`, {
-    completionTime,
-    accuracy,
-  });
-
-  const league = MOCK_LEAGUES.find(
-    (l) => l.id === leagueId || l._id === leagueId
-  );
-  if (league) {
-    res.json({
-      success: true,
-      message: "Results submitted successfully!",
-      data: {
-        rank: Math.floor(Math.random() * 10) + 1,
-        accuracy,
-        completionTime,
-      },
-    });
-  } else {
-    res.status(404).json({
-      success: false,
-      message: "League not found",
-    });
-  }
-});
-
-app.post("/api/admin/snapshot/trigger", async (req, res) => {
-  try {
-    console.log("🔄 Manual snapshot trigger requested");
-    await snapshotJobService.triggerManualSnapshot();
-    res.json({
-      success: true,
-      message: "Snapshot creation triggered successfully",
-      timestamp: new Date().toISOString(),
-    });
-  } catch (error: any) {
-    console.error("❌ Error triggering snapshot:", error);
-    res.status(500).json({
-      success: false,
-      message: "Failed to trigger snapshot",
-      error: error.message,
-    });
-  }
-});
-
-// Get snapshot statistics
-app.get("/api/admin/snapshot/stats", async (req, res) => {
-  try {
-    const stats = await snapshotJobService.getSnapshotStats();
-    res.json({
-      success: true,
-      data: stats || {
-        totalSnapshots: 0,
-        message: "No snapshots available (using mock data)",
-      },
-    });
-  } catch (error: any) {
-    console.error("❌ Error getting snapshot stats:", error);
-    res.status(500).json({
-      success: false,
-      message: "Failed to get snapshot stats",
-      error: error.message,
-    });
-  }
-});
-
 // ============== M15 SAMPLE PDF ROUTES ==============
 
 // Serve sample PDF content (mock file download)
@@ -631,6 +426,10 @@ app.get("/api/readers/library", (req, res) => {
   });
 });
 
+// Where league data comes from (LEAGUE_STORE / MONGODB_URI)
+const leagueDataLabel = (): string =>
+  resolveLeagueStore() === "mongo" ? "MongoDB" : "Demo Data";
+
 // Health check endpoint
 app.get("/api/health", (req, res) => {
   res.json({
@@ -638,7 +437,7 @@ app.get("/api/health", (req, res) => {
     message: "50cube API is running on Vercel!",
     timestamp: new Date().toISOString(),
     modules: {
-      M13: "Leagues - ✅ Complete (Mock Data)",
+      M13: `Leagues - ✅ Complete (${leagueDataLabel()})`,
       M14: "Spotlight & Global Leaderboard - ✅ Complete (Mock Data)",
       M15: "Readers - ✅ Complete (Mock Data)",
     },
@@ -648,8 +447,21 @@ app.get("/api/health", (req, res) => {
 });
 
 // API Routes (only non-league routes)
+app.use("/api/auth/2fa", twoFactorRoutes);
+app.use("/api/auth/oidc", oidcRoutes);
 app.use("/api/auth", authRoutes);
-// ✅ REMOVED - Using mock data: app.use("/api/leagues", leagueRoutes);
+app.use("/api/admin", adminRoutes);
+app.use("/api/api-keys", apiKeyRoutes);
+app.use("/api/users", userRoutes);
+// Seeding helpers are opt-in (ENABLE_DEV_ROUTES=true) and never mounted
+// in production
+if (devRoutesEnabled()) {
+  app.use("/api/dev", devRoutes);
+}
+app.use("/api/leagues", leagueRoutes); // M13 ROUTES
+app.use("/api/league-templates", leagueTemplateRoutes);
+app.use("/api/questions", questionRoutes);
+app.use("/api/reviews", reviewRoutes);
 app.use("/api/leaderboard", leaderboardRoutes); // M14 ROUTES
 app.use("/api/readers", readersRoutes); // NEW M15 ROUTES
 
@@ -661,13 +473,13 @@ app.get("/", (req, res) => {
     timestamp: new Date().toISOString(),
     environment: process.env.NODE_ENV || "development",
     modules: {
-      M13: "Leagues - ✅ Complete (Mock Data)",
+      M13: `Leagues - ✅ Complete (${leagueDataLabel()})`,
       M14: "Spotlight & Global Leaderboard - ✅ Complete (Mock Data)",
       M15: "Readers - ✅ Complete (Mock Data)",
     },
     endpoints: [
       "GET /api/health - Health check",
-      "GET /api/leagues - List leagues (MOCK)",
+      "GET /api/leagues - List leagues",
       "GET /api/leaderboard - Global leaderboard (MOCK)",
       "GET /api/readers/catalog - Browse readers (MOCK)",
     ],
@@ -712,19 +524,20 @@ app.use("*", (req, res) => {
   });
 });
 
-// ✅ COMMENTED OUT - MongoDB connection (not needed for mock data)
-/*
+// MongoDB connection - without MONGODB_URI the API runs in demo mode
 async function connectDB() {
+  if (!process.env.MONGODB_URI) {
+    console.log("⚠️ MONGODB_URI not set - leagues are served from demo data");
+    return;
+  }
+
   if (mongoose.connection.readyState === 0) {
     try {
       console.log("🔄 Connecting to MongoDB...");
-      await mongoose.connect(
-        process.env.MONGODB_URI || "mongodb://localhost:27017/50cube",
-        {
-          serverSelectionTimeoutMS: 10000,
-          socketTimeoutMS: 45000,
-        }
-      );
+      await mongoose.connect(process.env.MONGODB_URI, {
+        serverSelectionTimeoutMS: 10000,
+        socketTimeoutMS: 45000,
+      });
       console.log("✅ Connected to MongoDB successfully");
     } catch (error: any) {
       console.error("❌ Failed to connect to MongoDB:", error);
@@ -734,7 +547,6 @@ async function connectDB() {
 
 // Initialize database connection
 connectDB();
-*/
 
 try {
   console.log("🔄 Initializing M14 snapshot job service...");
@@ -746,7 +558,15 @@ try {
   );
 }
 
-console.log("🚀 50cube API starting with MOCK DATA for M13, M14, M15");
+try {
+  leagueLifecycleJobService.initializeJob();
+} catch (error) {
+  console.error("⚠️ League lifecycle job initialization failed:", error);
+}
+
+console.log(
+  `🚀 50cube API starting - leagues: ${leagueDataLabel()}, M14/M15: MOCK DATA`
+);
 
 // Export the app for Vercel
 export default app;
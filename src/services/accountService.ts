@@ -0,0 +1,134 @@
+import { Types } from "mongoose";
+import { User } from "../models/User";
+import { League } from "../models/League";
+import { LeaderboardSnapshot } from "../models/LeaderboardSnapshot";
+import { RefreshToken } from "../models/RefreshToken";
+import { VerificationToken } from "../models/VerificationToken";
+import { ApiKey } from "../models/ApiKey";
+import { DataExport } from "../models/DataExport";
+import { CreditTransaction } from "../models/CreditTransaction";
+import { LeagueTemplate } from "../models/LeagueTemplate";
+import { RatingChange } from "../models/RatingChange";
+import { GameSession } from "../models/GameSession";
+import { loginProtection } from "./loginProtection";
+import { tokenService } from "./tokenService";
+import { creditService } from "./creditService";
+import { IUser } from "../types";
+
+export const DELETED_USERNAME = "Deleted user";
+
+export interface AccountCleanupSummary {
+  leaguesLeft: number;
+  leaguesAnonymized: number;
+  snapshotsCleaned: number;
+  readersRemoved: number;
+}
+
+class AccountService {
+  /**
+   * Deactivate: sign the user out everywhere and free their spots in
+   * leagues that have not started. Results, purchases and history are kept
+   * so an admin can restore the account later.
+   */
+  async deactivate(user: IUser): Promise<{ leaguesLeft: number }> {
+    const userId = user._id as Types.ObjectId;
+
+    user.isActive = false;
+    await user.save();
+
+    await tokenService.revokeAllSessions(String(userId), "account_deactivated");
+
+    const upcoming = await League.find({
+      status: "upcoming",
+      "participants.userId": userId,
+    }).select("_id");
+    const leagueIds = upcoming.map((league) => league._id as Types.ObjectId);
+
+    const result = await League.updateMany(
+      { _id: { $in: leagueIds } },
+      { $pull: { participants: { userId } } }
+    );
+
+    // Entry fees for the freed spots go back to the account
+    if (leagueIds.length > 0) {
+      await creditService.refundLeagueEntries(
+        { leagueId: leagueIds, userId },
+        "account_deactivated"
+      );
+    }
+
+    return { leaguesLeft: result.modifiedCount };
+  }
+
+  /**
+   * Permanently delete an account and everything that identifies the user
+   */
+  async deleteAccount(user: IUser): Promise<AccountCleanupSummary> {
+    const userId = user._id as Types.ObjectId;
+
+    // Drop out of leagues that are still running or have not started
+    const left = await League.updateMany(
+      {
+        status: { $in: ["upcoming", "active"] },
+        "participants.userId": userId,
+      },
+      { $pull: { participants: { userId } } }
+    );
+
+    // Finished leagues keep their standings, but without the user's name
+    const anonymized = await League.updateMany(
+      {
+        status: { $in: ["completed", "cancelled"] },
+        "participants.userId": userId,
+      },
+      { $set: { "participants.$[entry].username": DELETED_USERNAME } },
+      { arrayFilters: [{ "entry.userId": userId }] }
+    );
+    await League.updateMany(
+      { "joinRequests.userId": userId },
+      { $pull: { joinRequests: { userId } } }
+    );
+    await League.updateMany(
+      { "payout.awards.userId": userId },
+      { $set: { "payout.awards.$[award].username": DELETED_USERNAME } },
+      { arrayFilters: [{ "award.userId": userId }] }
+    );
+
+    // Recurring templates stop creating leagues without their organizer
+    await LeagueTemplate.updateMany(
+      { createdBy: userId },
+      { $set: { isActive: false } }
+    );
+
+    // Remove the user's rows from historical leaderboard snapshots
+    const snapshots = await LeaderboardSnapshot.updateMany(
+      { "topPerformers.userId": userId },
+      { $pull: { topPerformers: { userId } } }
+    );
+
+    await Promise.all([
+      RefreshToken.deleteMany({ userId }),
+      VerificationToken.deleteMany({ userId }),
+      ApiKey.deleteMany({ userId }),
+      DataExport.deleteMany({ userId }),
+      CreditTransaction.deleteMany({ userId }),
+      RatingChange.deleteMany({ userId }),
+      GameSession.deleteMany({ userId }),
+      loginProtection.unlockAccount(user.email),
+    ]);
+
+    // Purchased readers live on the user document and go with it
+    const readersRemoved = user.purchasedReaders.length;
+    await User.deleteOne({ _id: userId });
+
+    return {
+      leaguesLeft: left.modifiedCount,
+      leaguesAnonymized: anonymized.modifiedCount,
+      snapshotsCleaned: snapshots.modifiedCount,
+      readersRemoved,
+    };
+  }
+}
+
+// Export singleton instance
+export const accountService = new AccountService();
@@ -0,0 +1,79 @@
+import crypto from "crypto";
+import { Types } from "mongoose";
+import { ApiKey, IApiKey, ApiKeyScope } from "../models/ApiKey";
+import { hashToken, safeEqual } from "../utils/tokens";
+
+const KEY_PREFIX = "50c";
+const LAST_USED_RESOLUTION_MS = 60 * 1000; // avoid a write on every request
+
+export interface CreateApiKeyOptions {
+  name: string;
+  scopes: ApiKeyScope[];
+  createdBy: string;
+  userId?: string | null;
+  organization?: string;
+  expiresInDays?: number;
+}
+
+class ApiKeyService {
+  /**
+   * Create a key. The returned plain key is never stored and cannot be
+   * shown again.
+   */
+  async create(
+    options: CreateApiKeyOptions
+  ): Promise<{ apiKey: IApiKey; key: string }> {
+    const prefix = `${KEY_PREFIX}_${crypto.randomBytes(4).toString("hex")}`;
+    const key = `${prefix}_${crypto.randomBytes(24).toString("hex")}`;
+
+    const apiKey = await ApiKey.create({
+      name: options.name,
+      prefix,
+      keyHash: hashToken(key),
+      scopes: options.scopes,
+      userId: options.userId ? new Types.ObjectId(options.userId) : null,
+      organization: options.organization,
+      createdBy: new Types.ObjectId(options.createdBy),
+      expiresAt: options.expiresInDays
+        ? new Date(Date.now() + options.expiresInDays * 24 * 60 * 60 * 1000)
+        : null,
+    });
+
+    return { apiKey, key };
+  }
+
+  /**
+   * Resolve a presented key; null when unknown, revoked or expired
+   */
+  async authenticate(key: string): Promise<IApiKey | null> {
+    const match = /^([a-z0-9]+_[0-9a-f]{8})_[0-9a-f]+$/.exec(key.trim());
+    if (!match) return null;
+
+    const apiKey = await ApiKey.findOne({ prefix: match[1] });
+
+    if (!apiKey || !safeEqual(apiKey.keyHash, hashToken(key.trim()))) {
+      return null;
+    }
+
+    if (!apiKey.isUsable()) return null;
+
+    const lastUsed = apiKey.lastUsedAt?.getTime() || 0;
+    if (Date.now() - lastUsed > LAST_USED_RESOLUTION_MS) {
+      await ApiKey.updateOne({ _id: apiKey._id }, { lastUsedAt: new Date() });
+    }
+
+    return apiKey;
+  }
+
+  async revoke(apiKey: IApiKey): Promise<IApiKey> {
+    if (!apiKey.revokedAt) {
+      apiKey.revokedAt = new Date();
+      await apiKey.save();
+    }
+
+    return apiKey;
+  }
+}
+
+// Export singleton instance
+export const apiKeyService = new ApiKeyService();
@@ -0,0 +1,32 @@
+import { Request } from "express";
+import { AuditLog, AuditAction, IAuditLog } from "../models/AuditLog";
+
+export interface AuditEntry {
+  actorId: string;
+  action: AuditAction;
+  targetUserId?: string;
+  metadata?: Record<string, any>;
+}
+
+class AuditService {
+  /**
+   * Record a privileged action together with the client it came from
+   */
+  async record(entry: AuditEntry, req?: Request): Promise<IAuditLog> {
+    const log = await AuditLog.create({
+      ...entry,
+      ip: req?.ip,
+      userAgent: req?.get("user-agent"),
+    });
+
+    console.log(
+      `📝 Audit: ${entry.action} by ${entry.actorId}` +
+        (entry.targetUserId ? ` on ${entry.targetUserId}` : "")
+    );
+
+    return log;
+  }
+}
+
+// Export singleton instance
+export const auditService = new AuditService();
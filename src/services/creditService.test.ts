@@ -0,0 +1,179 @@
+import { Types } from "mongoose";
+import { CreditTransaction } from "../models/CreditTransaction";
+import { User } from "../models/User";
+import { creditService } from "./creditService";
+
+// Credit transactions and the user's balance are kept in memory instead
+// of MongoDB
+let transactions: any[];
+let account: { _id: Types.ObjectId; credits: number; appliedCredits: string[] };
+
+const matches = (doc: any, filter: Record<string, any>) =>
+  Object.entries(filter).every(([key, value]) =>
+    value === null ? doc[key] == null : String(doc[key]) === String(value)
+  );
+
+const duplicateKey = () => Object.assign(new Error("E11000"), { code: 11000 });
+
+beforeEach(() => {
+  account = { _id: new Types.ObjectId(), credits: 50, appliedCredits: [] };
+  transactions = [];
+
+  jest.spyOn(CreditTransaction, "create").mockImplementation((async (
+    fields: any
+  ) => {
+    const duplicate = transactions.some(
+      (t) =>
+        (fields.refundOf && String(t.refundOf) === String(fields.refundOf)) ||
+        (fields.type === "league_prize" &&
+          matches(t, {
+            type: "league_prize",
+            leagueId: fields.leagueId,
+            userId: fields.userId,
+          }))
+    );
+    if (duplicate) throw duplicateKey();
+
+    const transaction = {
+      _id: new Types.ObjectId(),
+      refundedAt: null,
+      ...fields,
+    };
+    transactions.push(transaction);
+    return { ...transaction };
+  }) as any);
+  jest.spyOn(CreditTransaction, "findOne").mockImplementation((async (
+    filter: any
+  ) => {
+    const transaction = transactions.find((t) => matches(t, filter));
+    return transaction && { ...transaction };
+  }) as any);
+  jest.spyOn(CreditTransaction, "updateOne").mockImplementation((async (
+    filter: any,
+    update: any
+  ) => {
+    const transaction = transactions.find((t) => matches(t, filter));
+    if (transaction) Object.assign(transaction, update);
+  }) as any);
+
+  jest.spyOn(User, "findOneAndUpdate").mockImplementation((async (
+    filter: any,
+    update: any
+  ) => {
+    const id = String(filter.appliedCredits.$ne);
+    if (account.appliedCredits.includes(id)) return null;
+
+    account.credits += update.$inc.credits;
+    account.appliedCredits.push(id);
+    return { ...account };
+  }) as any);
+  jest
+    .spyOn(User, "findById")
+    .mockReturnValue({ select: async () => ({ ...account }) } as any);
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+const entryFee = (amount: number) => {
+  const entry = {
+    _id: new Types.ObjectId(),
+    userId: account._id,
+    amount: -amount,
+    type: "league_entry",
+    leagueId: new Types.ObjectId(),
+    refundedAt: null,
+  };
+  transactions.push(entry);
+  return entry;
+};
+
+describe("creditService.refund", () => {
+  it("gives the fee back once", async () => {
+    const entry = entryFee(20);
+
+    expect(await creditService.refund(entry._id, "League cancelled")).toBe(20);
+    expect(await creditService.refund(entry._id, "League cancelled")).toBe(0);
+
+    expect(account.credits).toBe(70);
+    expect(entry.refundedAt).toBeInstanceOf(Date);
+    expect(transactions.find((t) => t.type === "league_refund")).toMatchObject({
+      amount: 20,
+      balanceAfter: 70,
+    });
+  });
+
+  it("finishes a refund that stopped before the credit", async () => {
+    const entry = entryFee(20);
+    jest
+      .mocked(User.findOneAndUpdate)
+      .mockRejectedValueOnce(new Error("connection lost"));
+
+    await expect(
+      creditService.refund(entry._id, "League cancelled")
+    ).rejects.toThrow("connection lost");
+    expect(account.credits).toBe(50);
+    expect(entry.refundedAt).toBeNull();
+
+    expect(await creditService.refund(entry._id, "League cancelled")).toBe(20);
+    expect(account.credits).toBe(70);
+    expect(entry.refundedAt).toBeInstanceOf(Date);
+  });
+
+  it("does not credit twice when it stopped after the credit", async () => {
+    const entry = entryFee(20);
+    jest
+      .mocked(CreditTransaction.updateOne)
+      .mockRejectedValueOnce(new Error("connection lost"));
+
+    await expect(
+      creditService.refund(entry._id, "League cancelled")
+    ).rejects.toThrow("connection lost");
+    expect(account.credits).toBe(70);
+
+    expect(await creditService.refund(entry._id, "League cancelled")).toBe(0);
+    expect(account.credits).toBe(70);
+    expect(entry.refundedAt).toBeInstanceOf(Date);
+    expect(transactions.filter((t) => t.type === "league_refund")).toHaveLength(
+      1
+    );
+    expect(transactions.find((t) => t.type === "league_refund")).toMatchObject({
+      balanceAfter: 70,
+    });
+  });
+});
+
+describe("creditService.awardPrize", () => {
+  it("pays each prize once", async () => {
+    const leagueId = new Types.ObjectId();
+
+    expect(await creditService.awardPrize(account._id, leagueId, 30, 1)).toBe(
+      true
+    );
+    expect(await creditService.awardPrize(account._id, leagueId, 30, 1)).toBe(
+      false
+    );
+
+    expect(account.credits).toBe(80);
+  });
+
+  it("credits a prize whose transaction was written before a failure", async () => {
+    const leagueId = new Types.ObjectId();
+    jest
+      .mocked(User.findOneAndUpdate)
+      .mockRejectedValueOnce(new Error("connection lost"));
+
+    await expect(
+      creditService.awardPrize(account._id, leagueId, 30, 1)
+    ).rejects.toThrow("connection lost");
+    expect(account.credits).toBe(50);
+
+    expect(await creditService.awardPrize(account._id, leagueId, 30, 1)).toBe(
+      true
+    );
+    expect(account.credits).toBe(80);
+    expect(transactions.find((t) => t.type === "league_prize")).toMatchObject({
+      amount: 30,
+      balanceAfter: 80,
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { Types } from "mongoose";
+import { User } from "../models/User";
+import {
+  CreditTransaction,
+  ICreditTransaction,
+} from "../models/CreditTransaction";
+
+export interface RefundSummary {
+  refunds: number;
+  credits: number;
+}
+
+class CreditService {
+  /**
+   * Take an entry fee. The balance check and the debit are one atomic
+   * update, so concurrent entries cannot overdraw the account.
+   */
+  async chargeLeagueEntry(
+    userId: Types.ObjectId,
+    leagueId: Types.ObjectId,
+    amount: number
+  ): Promise<ICreditTransaction> {
+    const user = await User.findOneAndUpdate(
+      { _id: userId, credits: { $gte: amount } },
+      { $inc: { credits: -amount } },
+      { new: true }
+    );
+
+    if (!user) {
+      throw new Error("Insufficient credits");
+    }
+
+    return CreditTransaction.create({
+      userId,
+      amount: -amount,
+      type: "league_entry",
+      leagueId,
+      balanceAfter: user.credits,
+    });
+  }
+
+  /**
+   * Give an entry fee back. The refund is recorded once per entry and its
+   * credit lands once, so this is safe to call more than once and resumes
+   * a refund that was interrupted. Returns the amount this call paid out.
+   */
+  async refund(entryId: Types.ObjectId, reason: string): Promise<number> {
+    const entry = await CreditTransaction.findOne({
+      _id: entryId,
+      type: "league_entry",
+      refundedAt: null,
+    });
+
+    if (!entry) return 0;
+
+    const refund = await this.recordOnce(
+      {
+        userId: entry.userId,
+        amount: -entry.amount,
+        type: "league_refund",
+        leagueId: entry.leagueId,
+        refundOf: entry._id as Types.ObjectId,
+        reason,
+      },
+      { refundOf: entry._id }
+    );
+    const credited = await this.creditOnce(refund);
+
+    await CreditTransaction.updateOne(
+      { _id: entry._id, refundedAt: null },
+      { refundedAt: new Date() }
+    );
+
+    return credited ? refund.amount : 0;
+  }
+
+  /**
+   * Pay a league prize. The transaction is unique per league and user and
+   * its credit lands once, so a retried payout cannot credit a winner twice
+   * and finishes a prize that was interrupted. Returns false when the prize
+   * was already paid.
+   */
+  async awardPrize(
+    userId: Types.ObjectId,
+    leagueId: Types.ObjectId,
+    amount: number,
+    rank: number
+  ): Promise<boolean> {
+    const transaction = await this.recordOnce(
+      {
+        userId,
+        amount,
+        type: "league_prize",
+        leagueId,
+        reason: `Rank ${rank}`,
+      },
+      { type: "league_prize", leagueId, userId }
+    );
+
+    return this.creditOnce(transaction);
+  }
+
+  /**
+   * Create a transaction, or load it if an earlier call already did
+   */
+  private async recordOnce(
+    fields: Partial<ICreditTransaction>,
+    existing: Record<string, any>
+  ): Promise<ICreditTransaction> {
+    try {
+      return await CreditTransaction.create(fields);
+    } catch (error: any) {
+      if (error.code !== 11000) throw error;
+
+      const recorded = await CreditTransaction.findOne(existing);
+      if (!recorded) throw error;
+      return recorded;
+    }
+  }
+
+  /**
+   * Add a transaction to the user's balance. The transaction id is stored
+   * on the user in the same update, so the credit lands at most once
+   * however often it is retried. False if it had already landed.
+   */
+  private async creditOnce(transaction: ICreditTransaction): Promise<boolean> {
+    if (transaction.balanceAfter !== undefined) return false;
+
+    const credited = await User.findOneAndUpdate(
+      { _id: transaction.userId, appliedCredits: { $ne: transaction._id } },
+      {
+        $inc: { credits: transaction.amount },
+        $push: { appliedCredits: transaction._id },
+      },
+      { new: true }
+    );
+    const user =
+      credited || (await User.findById(transaction.userId).select("credits"));
+
+    await CreditTransaction.updateOne(
+      { _id: transaction._id },
+      { balanceAfter: user?.credits }
+    );
+
+    return !!credited;
+  }
+
+  /**
+   * Refund every entry fee still held for a league and/or user
+   */
+  async refundLeagueEntries(
+    filter: {
+      leagueId?: Types.ObjectId | Types.ObjectId[];
+      userId?: Types.ObjectId;
+    },
+    reason: string
+  ): Promise<RefundSummary> {
+    const query: Record<string, any> = {
+      type: "league_entry",
+      refundedAt: null,
+    };
+    if (filter.userId) query.userId = filter.userId;
+    if (filter.leagueId) {
+      query.leagueId = Array.isArray(filter.leagueId)
+        ? { $in: filter.leagueId }
+        : filter.leagueId;
+    }
+
+    const entries = await CreditTransaction.find(query).select("_id");
+    const summary: RefundSummary = { refunds: 0, credits: 0 };
+
+    for (const entry of entries) {
+      const amount = await this.refund(entry._id as Types.ObjectId, reason);
+      if (amount > 0) {
+        summary.refunds += 1;
+        summary.credits += amount;
+      }
+    }
+
+    return summary;
+  }
+}
+
+// Export singleton instance
+export const creditService = new CreditService();
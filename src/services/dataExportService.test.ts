@@ -0,0 +1,75 @@
+import { Types } from "mongoose";
+import { DataExport } from "../models/DataExport";
+import { dataExportService } from "./dataExportService";
+
+const MINUTE_MS = 60 * 1000;
+
+// Exports are kept in memory instead of MongoDB
+let stored: any[];
+
+const matches = (doc: any, filter: Record<string, any>) =>
+  Object.entries(filter).every(([key, value]) =>
+    value && value.$lt
+      ? doc[key] < value.$lt
+      : String(doc[key]) === String(value)
+  );
+
+beforeEach(() => {
+  stored = [];
+
+  jest.spyOn(DataExport, "findOneAndUpdate").mockImplementation((async (
+    filter: any,
+    update: any
+  ) => {
+    const dataExport = stored.find((e) => matches(e, filter));
+    if (!dataExport) return null;
+    Object.assign(dataExport, update, { updatedAt: new Date() });
+    return { ...dataExport };
+  }) as any);
+  jest.spyOn(DataExport, "updateOne").mockImplementation((async (
+    filter: any,
+    update: any
+  ) => {
+    const dataExport = stored.find((e) => matches(e, filter));
+    if (dataExport) Object.assign(dataExport, update);
+    return { matchedCount: dataExport ? 1 : 0 };
+  }) as any);
+  jest.spyOn(DataExport, "updateMany").mockImplementation((async (
+    filter: any,
+    update: any
+  ) => {
+    const stale = stored.filter((e) => matches(e, filter));
+    stale.forEach((e) => Object.assign(e, update));
+    return { modifiedCount: stale.length };
+  }) as any);
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe("dataExportService.processExport", () => {
+  it("leaves an export failed when its build finishes after it was given up", async () => {
+    const userId = new Types.ObjectId();
+    const dataExport = {
+      _id: new Types.ObjectId(),
+      userId,
+      format: "json",
+      status: "pending",
+      updatedAt: new Date(),
+    };
+    stored.push(dataExport);
+
+    // The build stalls long enough to be failed as stale
+    jest
+      .spyOn(dataExportService as any, "collectUserData")
+      .mockImplementation(async () => {
+        dataExport.updatedAt = new Date(Date.now() - 20 * MINUTE_MS);
+        await dataExportService.failStaleExports(String(userId));
+        return { profile: {} };
+      });
+
+    await dataExportService.processExport(String(dataExport._id));
+
+    expect(dataExport.status).toBe("failed");
+    expect(dataExport).not.toHaveProperty("data");
+  });
+});
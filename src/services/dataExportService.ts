@@ -0,0 +1,278 @@
+import jwt from "jsonwebtoken";
+import { Types } from "mongoose";
+import { DataExport, IDataExport } from "../models/DataExport";
+import { User } from "../models/User";
+import { League } from "../models/League";
+import { LeaderboardSnapshot } from "../models/LeaderboardSnapshot";
+import { CreditTransaction } from "../models/CreditTransaction";
+import { RatingChange } from "../models/RatingChange";
+import { createZip } from "../utils/zip";
+
+const ARCHIVE_RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // archive kept 7 days
+const DOWNLOAD_LINK_TTL = "1h";
+// A build still "processing" after this long lost its process
+const STALE_PROCESSING_MS = 15 * 60 * 1000;
+
+class DataExportService {
+  /**
+   * Queue a new export. Generation runs in the background; on serverless
+   * hosts where background work may be frozen, checking the export's status
+   * picks up anything still pending.
+   */
+  async requestExport(
+    userId: string,
+    format: "json" | "zip"
+  ): Promise<IDataExport> {
+    await this.failStaleExports(userId);
+
+    const inProgress = await DataExport.exists({
+      userId,
+      status: { $in: ["pending", "processing"] },
+    });
+
+    if (inProgress) {
+      throw new Error("An export is already being prepared");
+    }
+
+    const dataExport = await DataExport.create({
+      userId,
+      format,
+      expiresAt: new Date(Date.now() + ARCHIVE_RETENTION_MS),
+    });
+
+    setImmediate(() => {
+      this.processExport(String(dataExport._id)).catch((error) =>
+        console.error("❌ Data export failed:", error)
+      );
+    });
+
+    return dataExport;
+  }
+
+  /**
+   * Build the archive if the export is still pending. Safe to call from
+   * several places: only one caller claims the work.
+   */
+  async processExport(exportId: string): Promise<void> {
+    const dataExport = await DataExport.findOneAndUpdate(
+      { _id: exportId, status: "pending" },
+      { status: "processing" },
+      { new: true }
+    );
+
+    if (!dataExport) return;
+
+    try {
+      const sections = await this.collectUserData(String(dataExport.userId));
+      const exportedAt = new Date();
+      const date = exportedAt.toISOString().slice(0, 10);
+
+      const file =
+        dataExport.format === "zip"
+          ? {
+              fileName: `50cube-data-${date}.zip`,
+              contentType: "application/zip",
+              data: createZip([
+                { name: "README.txt", content: this.readme(exportedAt) },
+                ...Object.entries(sections).map(([section, content]) => ({
+                  name: `${section}.json`,
+                  content: JSON.stringify(content, null, 2),
+                })),
+              ]),
+            }
+          : {
+              fileName: `50cube-data-${date}.json`,
+              contentType: "application/json",
+              data: Buffer.from(
+                JSON.stringify({ exportedAt, ...sections }, null, 2)
+              ),
+            };
+
+      // An export given up as stalled in the meantime stays failed
+      const { matchedCount } = await DataExport.updateOne(
+        { _id: dataExport._id, status: "processing" },
+        {
+          ...file,
+          size: file.data.length,
+          status: "ready",
+          completedAt: new Date(),
+        }
+      );
+
+      if (matchedCount === 0) {
+        console.log(`📦 Data export ${exportId} finished after it was failed`);
+        return;
+      }
+
+      console.log(
+        `📦 Data export ${exportId} ready (${file.data.length} bytes)`
+      );
+    } catch (error: any) {
+      await DataExport.updateOne(
+        { _id: dataExport._id, status: "processing" },
+        { status: "failed", error: error.message }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Mark the user's exports whose build died mid-way as failed, so they
+   * stop blocking new requests
+   */
+  async failStaleExports(userId: string): Promise<void> {
+    const { modifiedCount } = await DataExport.updateMany(
+      {
+        userId,
+        status: "processing",
+        updatedAt: { $lt: new Date(Date.now() - STALE_PROCESSING_MS) },
+      },
+      { status: "failed", error: "The export stopped before it finished" }
+    );
+
+    if (modifiedCount > 0) {
+      console.log(`📦 Marked ${modifiedCount} stalled data export(s) failed`);
+    }
+  }
+
+  /**
+   * Signed, time-limited link to download a ready export
+   */
+  createDownloadLink(
+    dataExport: IDataExport,
+    baseUrl: string
+  ): { url: string; expiresAt: Date } {
+    const token = jwt.sign(
+      {
+        userId: String(dataExport.userId),
+        exportId: String(dataExport._id),
+        purpose: "data_export",
+      },
+      process.env.JWT_SECRET || "default-secret",
+      { expiresIn: DOWNLOAD_LINK_TTL }
+    );
+
+    return {
+      url: `${baseUrl}/api/users/exports/file/${token}`,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    };
+  }
+
+  /**
+   * Resolve a download token to the export including its archive
+   */
+  async resolveDownload(token: string): Promise<IDataExport | null> {
+    const decoded = jwt.verify(
+      token,
+      process.env.JWT_SECRET || "default-secret"
+    ) as { userId: string; exportId: string; purpose: string };
+
+    if (decoded.purpose !== "data_export") return null;
+
+    return DataExport.findOne({
+      _id: decoded.exportId,
+      userId: decoded.userId,
+      status: "ready",
+    }).select("+data");
+  }
+
+  /**
+   * Everything we store about a user, grouped by section
+   */
+  private async collectUserData(userId: string): Promise<Record<string, any>> {
+    const objectId = new Types.ObjectId(userId);
+
+    const user = await User.findById(objectId)
+      .populate("purchasedReaders.readerId", "title author subject price")
+      .lean();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const [leagues, snapshots, creditTransactions, ratingHistory] =
+      await Promise.all([
+        League.find({ "participants.userId": objectId }),
+        LeaderboardSnapshot.find({ "topPerformers.userId": objectId })
+          .sort({ date: -1 })
+          .lean(),
+        CreditTransaction.find({ userId: objectId })
+          .select("-userId -__v")
+          .sort({ createdAt: 1 })
+          .lean(),
+        RatingChange.find({ userId: objectId })
+          .select("-userId -__v")
+          .sort({ createdAt: 1 })
+          .lean(),
+      ]);
+
+    const { password, twoFactor, purchasedReaders, stats, ...profile } =
+      user as any;
+
+    return {
+      profile: {
+        ...profile,
+        twoFactorEnabled: !!twoFactor?.enabled,
+      },
+      stats: {
+        ...stats,
+        totalPoints: user.totalPoints,
+        credits: user.credits,
+      },
+      purchasedReaders: (purchasedReaders || []).map((purchase: any) => ({
+        reader: purchase.readerId,
+        purchasedAt: purchase.purchasedAt,
+        downloadCount: purchase.downloadCount,
+      })),
+      leagues: leagues.map((league) => {
+        const participant = league.participants.find(
+          (p) => p.userId.toString() === userId
+        );
+        const standing = league
+          .getLeaderboard()
+          .find((entry) => entry.userId.toString() === userId);
+
+        return {
+          leagueId: league._id,
+          name: league.name,
+          category: league.category,
+          status: league.status,
+          startDate: league.startDate,
+          endDate: league.endDate,
+          joinedAt: participant?.joinedAt,
+          rank: standing?.rank || null,
+          bestSubmission: participant?.bestSubmission,
+          submissions: participant?.submissions || [],
+        };
+      }),
+      leaderboardSnapshots: snapshots.map((snapshot: any) => ({
+        date: snapshot.date,
+        scope: snapshot.scope,
+        entries: snapshot.topPerformers.filter(
+          (row: any) => row.userId?.toString() === userId
+        ),
+      })),
+      creditTransactions,
+      ratingHistory,
+    };
+  }
+
+  private readme(exportedAt: Date): string {
+    return [
+      "50cube personal data export",
+      "",
+      "profile.json              Account details",
+      "stats.json                Game statistics, points and credits",
+      "purchasedReaders.json     Readers you bought",
+      "leagues.json              Every league you joined, with all submissions",
+      "leaderboardSnapshots.json Your rows in daily leaderboard snapshots",
+      "creditTransactions.json   League entry fees and refunds",
+      "ratingHistory.json        Rating changes from completed leagues",
+      "",
+      `Generated at ${exportedAt.toISOString()}`,
+    ].join("\n");
+  }
+}
+
+// Export singleton instance
+export const dataExportService = new DataExportService();
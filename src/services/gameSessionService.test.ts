@@ -0,0 +1,61 @@
+import { Types } from "mongoose";
+import { GameSession } from "../models/GameSession";
+import User from "../models/User";
+import { DEMO_LEAGUE_IDS } from "../repositories/demoLeagues";
+import { getLeagueRepository } from "../repositories/leagueRepository";
+import { gameSessionService } from "./gameSessionService";
+
+process.env.LEAGUE_STORE = "memory";
+
+// First demo player; already has one of the league's three submissions
+const playerId = new Types.ObjectId("64f0000000000000000000a1");
+
+const abandonedSession = (startedAt: Date) =>
+  new GameSession({
+    userId: playerId,
+    leagueId: new Types.ObjectId(DEMO_LEAGUE_IDS.speedReading),
+    questions: [
+      { questionId: "q1", prompt: "1 + 1 = ?", choices: ["2", "3"], answer: 0 },
+    ],
+    status: "active",
+    startedAt,
+    expiresAt: new Date(startedAt.getTime() + 30 * 1000),
+  });
+
+describe("gameSessionService.start", () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it("scores games left to run out as zero before starting another", async () => {
+    const league = (await getLeagueRepository().findById(
+      DEMO_LEAGUE_IDS.speedReading
+    ))!;
+    const startedAt = new Date(Date.now() - 10 * 60 * 1000);
+    const abandoned = [
+      abandonedSession(startedAt),
+      abandonedSession(new Date(startedAt.getTime() + 60 * 1000)),
+    ];
+
+    jest.spyOn(GameSession, "find").mockResolvedValue(abandoned as any);
+    const claim = jest
+      .spyOn(GameSession, "findOneAndUpdate")
+      .mockImplementation(
+        (filter: any) =>
+          abandoned.find((s) => String(s._id) === String(filter._id)) as any
+      );
+    jest.spyOn(User, "findById").mockResolvedValue(null);
+
+    // Two zeros on top of the earlier score use up all three submissions
+    await expect(gameSessionService.start(league, playerId)).rejects.toThrow(
+      "Maximum submissions reached"
+    );
+
+    expect(claim).toHaveBeenCalledTimes(2);
+    const stored = await getLeagueRepository().findById(
+      DEMO_LEAGUE_IDS.speedReading
+    );
+    const submissions = stored!.participants.find((p) =>
+      p.userId.equals(playerId)
+    )!.submissions;
+    expect(submissions.map((s) => s.points)).toEqual([96, 0, 0]);
+  });
+});
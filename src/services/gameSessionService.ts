@@ -0,0 +1,289 @@
+import jwt from "jsonwebtoken";
+import { Types } from "mongoose";
+import { GameSession, IGameSession } from "../models/GameSession";
+import { getLeagueRepository } from "../repositories/leagueRepository";
+import { leagueService } from "./leagueService";
+import { getQuestionProvider } from "./questionProvider";
+import { IGameScore, ILeague } from "../types";
+
+// Answers arriving this long after the deadline still count (network lag)
+const SUBMIT_GRACE_MS = 5 * 1000;
+
+const POINTS_PER_ANSWER = 100;
+// Extra points per correct answer for finishing with the whole time left
+const MAX_SPEED_BONUS = 50;
+
+export interface GameSessionStart {
+  session: IGameSession;
+  sessionToken: string;
+}
+
+export interface GameSessionResult {
+  session: IGameSession;
+  league: ILeague;
+  score: IGameScore;
+  // Held for moderator review instead of entering the leaderboard
+  flagged: boolean;
+}
+
+interface SessionTokenPayload {
+  sessionId: string;
+  userId: string;
+  purpose: "game_session";
+}
+
+class GameSessionService {
+  private get config() {
+    return {
+      secret: process.env.JWT_SECRET || "default-secret",
+      questions: Number(process.env.GAME_SESSION_QUESTIONS) || 10,
+      secondsPerQuestion:
+        Number(process.env.GAME_SESSION_SECONDS_PER_QUESTION) || 30,
+    };
+  }
+
+  /**
+   * Start a timed game for a league. The league must accept a score from
+   * the user right now; a game still in progress is handed out again
+   * rather than starting a second one. Games the user left to run out
+   * are scored as zero first, so they use up a submission.
+   */
+  async start(
+    league: ILeague,
+    userId: Types.ObjectId
+  ): Promise<GameSessionStart> {
+    const leagueId = league._id as Types.ObjectId;
+
+    await leagueService.advanceBracket(league);
+
+    const abandoned = await GameSession.find({
+      userId,
+      leagueId,
+      status: "active",
+      expiresAt: { $lte: new Date(Date.now() - SUBMIT_GRACE_MS) },
+    });
+    for (const session of abandoned) {
+      await this.forfeit(session, league);
+    }
+
+    // Dry run on our copy for a clear error before any questions are drawn
+    league.submitScore(userId, { accuracy: 0, timeInSeconds: 0, points: 0 });
+
+    const running = await GameSession.findOne({
+      userId,
+      leagueId,
+      status: "active",
+      expiresAt: { $gt: new Date() },
+    });
+
+    if (running) {
+      return { session: running, sessionToken: this.signToken(running) };
+    }
+
+    const { secondsPerQuestion } = this.config;
+    const questions = await getQuestionProvider().drawQuestions(
+      league,
+      this.config.questions
+    );
+    const startedAt = new Date();
+    const session = await GameSession.create({
+      userId,
+      leagueId,
+      questions,
+      status: "active",
+      startedAt,
+      expiresAt: new Date(
+        startedAt.getTime() + questions.length * secondsPerQuestion * 1000
+      ),
+    });
+
+    return { session, sessionToken: this.signToken(session) };
+  }
+
+  /**
+   * Score the answers of a running game and record the result in its
+   * league. A session is scored once; the time taken is measured by the
+   * server from the start of the session.
+   */
+  async submit(
+    sessionToken: string,
+    userId: Types.ObjectId,
+    answers: Array<{ questionId: string; choice: number }>
+  ): Promise<GameSessionResult> {
+    const payload = this.verifyToken(sessionToken);
+
+    if (!payload || payload.userId !== String(userId)) {
+      throw new Error("Invalid or expired session token");
+    }
+
+    const now = new Date();
+    const session = await GameSession.findById(payload.sessionId);
+
+    if (!session || session.status !== "active") {
+      throw new Error("This game session is already finished");
+    }
+
+    if (now.getTime() > session.expiresAt.getTime() + SUBMIT_GRACE_MS) {
+      const league = await getLeagueRepository().findById(
+        String(session.leagueId)
+      );
+      if (league) await this.forfeit(session, league);
+
+      throw new Error("Time is up for this game session");
+    }
+
+    const { graded, score } = this.grade(session, answers, now);
+
+    // Claim the session so a double submit cannot score twice
+    const completed = await GameSession.findOneAndUpdate(
+      { _id: session._id, status: "active" },
+      {
+        $set: {
+          status: "completed",
+          completedAt: now,
+          answers: graded,
+          result: score,
+        },
+      },
+      { new: true }
+    );
+
+    if (!completed) {
+      throw new Error("This game session is already finished");
+    }
+
+    const league = await getLeagueRepository().findById(
+      String(session.leagueId)
+    );
+
+    if (!league) {
+      throw new Error("League not found");
+    }
+
+    const { flagged } = await leagueService.recordScore(league, userId, score);
+
+    return { session: completed, league, score, flagged };
+  }
+
+  /**
+   * Close a game that ran out without answers and record it as a zero
+   * score, so dropping a game to draw new questions costs a submission.
+   * The zero only goes where the game was started for: a knockout match
+   * round that has moved on since, or a league that no longer takes
+   * scores, leaves it unrecorded.
+   */
+  private async forfeit(session: IGameSession, league: ILeague): Promise<void> {
+    const score = this.grade(session, [], session.expiresAt).score;
+
+    // Claimed first, so the zero is recorded once
+    const expired = await GameSession.findOneAndUpdate(
+      { _id: session._id, status: "active" },
+      { $set: { status: "expired", result: score } },
+      { new: true }
+    );
+    if (!expired) return;
+
+    await leagueService.advanceBracket(league);
+
+    const now = new Date();
+    const phaseStart = league.bracket
+      ? league.bracket.rounds.find(
+          (round) =>
+            !round.decidedAt && round.startsAt <= now && round.endsAt > now
+        )?.startsAt
+      : league.startDate;
+
+    if (!phaseStart || session.startedAt < phaseStart) return;
+
+    try {
+      await leagueService.recordScore(league, session.userId, score);
+    } catch (error: any) {
+      console.log(
+        `⏱️ Game session ${session._id} expired without a recorded score: ${error.message}`
+      );
+    }
+  }
+
+  /**
+   * Accuracy is the share of questions answered correctly, time runs from
+   * the start of the session (capped at its limit) and points reward every
+   * correct answer, plus a bonus for time left.
+   */
+  private grade(
+    session: IGameSession,
+    answers: Array<{ questionId: string; choice: number }>,
+    now: Date
+  ): { graded: IGameSession["answers"]; score: IGameScore } {
+    const choiceFor = new Map(
+      answers.map((answer) => [answer.questionId, answer.choice])
+    );
+
+    const graded = session.questions.map((question) => {
+      const choice = choiceFor.get(question.questionId);
+      return {
+        questionId: question.questionId,
+        choice: choice ?? null,
+        correct: choice === question.answer,
+      };
+    });
+
+    const total = session.questions.length;
+    const correct = graded.filter((answer) => answer.correct).length;
+    const limitMs = session.expiresAt.getTime() - session.startedAt.getTime();
+    const elapsedMs = Math.min(
+      Math.max(now.getTime() - session.startedAt.getTime(), 0),
+      limitMs
+    );
+    const timeLeft = limitMs > 0 ? 1 - elapsedMs / limitMs : 0;
+
+    return {
+      graded,
+      score: {
+        accuracy: total > 0 ? Math.round((correct / total) * 10000) / 100 : 0,
+        timeInSeconds: Math.round(elapsedMs / 100) / 10,
+        points: Math.round(
+          correct * (POINTS_PER_ANSWER + MAX_SPEED_BONUS * timeLeft)
+        ),
+        gameData: {
+          questionsAnswered: graded.filter((answer) => answer.choice !== null)
+            .length,
+          correctAnswers: correct,
+          gameMode: "session",
+        },
+      },
+    };
+  }
+
+  private signToken(session: IGameSession): string {
+    const payload: SessionTokenPayload = {
+      sessionId: String(session._id),
+      userId: String(session.userId),
+      purpose: "game_session",
+    };
+    const expiresIn = Math.ceil(
+      (session.expiresAt.getTime() + SUBMIT_GRACE_MS - Date.now()) / 1000
+    );
+
+    return jwt.sign(payload, this.config.secret, { expiresIn });
+  }
+
+  private verifyToken(token: string): SessionTokenPayload | null {
+    try {
+      const decoded = jwt.verify(
+        token,
+        this.config.secret
+      ) as Partial<SessionTokenPayload>;
+
+      return decoded.purpose === "game_session" &&
+        decoded.sessionId &&
+        decoded.userId
+        ? (decoded as SessionTokenPayload)
+        : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Export singleton instance
+export const gameSessionService = new GameSessionService();
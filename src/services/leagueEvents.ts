@@ -0,0 +1,29 @@
+import { EventEmitter } from "events";
+import { ILeague, LeagueLifecycleEvent } from "../types";
+
+export type LeagueLifecycleListener = (league: ILeague) => void | Promise<void>;
+
+// Lifecycle hooks for leagues, fired by the lifecycle job exactly once per
+// league: "started", "closingSoon" and "completed"
+class LeagueEvents extends EventEmitter {
+  onLifecycle(
+    event: LeagueLifecycleEvent,
+    listener: LeagueLifecycleListener
+  ): this {
+    // A failing hook is logged and must not stop the others
+    return this.on(event, (league: ILeague) => {
+      Promise.resolve()
+        .then(() => listener(league))
+        .catch((error) =>
+          console.error(`❌ League ${event} hook failed:`, error)
+        );
+    });
+  }
+
+  emitLifecycle(event: LeagueLifecycleEvent, league: ILeague): boolean {
+    return this.emit(event, league);
+  }
+}
+
+// Export singleton instance
+export const leagueEvents = new LeagueEvents();
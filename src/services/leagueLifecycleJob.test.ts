@@ -0,0 +1,67 @@
+import { Types } from "mongoose";
+import { getLeagueRepository } from "../repositories/leagueRepository";
+import { leagueLifecycleJobService } from "./leagueLifecycleJob";
+import { ratingService } from "./ratingService";
+
+process.env.LEAGUE_STORE = "memory";
+
+const MINUTE_MS = 60 * 1000;
+
+// A league that ended and whose "completed" hook fired `minutesAgo`
+const completedLeague = async (minutesAgo: number) => {
+  const league = await getLeagueRepository().create({
+    name: `Ended ${minutesAgo} minutes ago`,
+    description: "Completed",
+    startDate: new Date(Date.now() - 120 * MINUTE_MS),
+    endDate: new Date(Date.now() - 60 * MINUTE_MS),
+    createdBy: new Types.ObjectId(),
+  });
+
+  league.lifecycleEvents.completed = new Date(
+    Date.now() - minutesAgo * MINUTE_MS
+  );
+  return getLeagueRepository().save(league);
+};
+
+describe("leagueLifecycleJobService.runTransitions", () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it("rates completed leagues whose hook failed, once", async () => {
+    const stalled = await completedLeague(15);
+    const rateLeague = jest
+      .spyOn(ratingService, "rateLeague")
+      .mockRejectedValueOnce(new Error("connection lost"))
+      .mockResolvedValue(0);
+
+    await leagueLifecycleJobService.runTransitions();
+    let stored = await getLeagueRepository().findById(String(stalled._id));
+    expect(stored!.ratedAt).toBeNull();
+
+    await leagueLifecycleJobService.runTransitions();
+    stored = await getLeagueRepository().findById(String(stalled._id));
+    expect(stored!.ratedAt).toBeInstanceOf(Date);
+    expect(stored!.payout?.paidAt).toBeInstanceOf(Date);
+
+    await leagueLifecycleJobService.runTransitions();
+    expect(
+      rateLeague.mock.calls.filter(
+        ([league]) => String(league._id) === String(stalled._id)
+      )
+    ).toHaveLength(2);
+  });
+
+  it("leaves leagues whose hook may still be running", async () => {
+    const fresh = await completedLeague(1);
+    const rateLeague = jest
+      .spyOn(ratingService, "rateLeague")
+      .mockResolvedValue(0);
+
+    await leagueLifecycleJobService.runTransitions();
+
+    expect(
+      rateLeague.mock.calls.some(
+        ([league]) => String(league._id) === String(fresh._id)
+      )
+    ).toBe(false);
+  });
+});
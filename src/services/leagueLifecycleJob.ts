@@ -0,0 +1,173 @@
+import cron from "node-cron";
+import { getLeagueRepository } from "../repositories/leagueRepository";
+import { leagueEvents } from "./leagueEvents";
+import { leagueService } from "./leagueService";
+import { leagueTemplateService } from "./leagueTemplateService";
+import { ratingService } from "./ratingService";
+import { ILeague, LeagueLifecycleEvent } from "../types";
+
+const HOUR_MS = 60 * 60 * 1000;
+// A completed league not rated this long after its hook fired is retried
+const SETTLE_RETRY_MS = 10 * 60 * 1000;
+
+class LeagueLifecycleJobService {
+  private isJobRunning = false;
+
+  private get config() {
+    return {
+      schedule: process.env.LEAGUE_LIFECYCLE_CRON || "* * * * *",
+      closingSoonHours: Number(process.env.LEAGUE_CLOSING_SOON_HOURS) || 24,
+      templateSchedule: process.env.LEAGUE_TEMPLATE_CRON || "0 * * * *",
+    };
+  }
+
+  /**
+   * Initialize the lifecycle job and the built-in hooks
+   * Runs every minute unless LEAGUE_LIFECYCLE_CRON says otherwise; leagues
+   * from recurring templates are created hourly (LEAGUE_TEMPLATE_CRON)
+   */
+  initializeJob(): void {
+    console.log("🕐 Initializing league lifecycle job...");
+
+    leagueEvents.onLifecycle("started", (league) => {
+      console.log(`🏁 League started: ${league.name}`);
+    });
+    leagueEvents.onLifecycle("closingSoon", (league) => {
+      console.log(
+        `⏳ League closing soon: ${
+          league.name
+        } (ends ${league.endDate.toISOString()})`
+      );
+    });
+    leagueEvents.onLifecycle("completed", async (league) => {
+      console.log(`🏆 League completed: ${league.name}`);
+      await this.settleAndRate(league);
+    });
+
+    cron.schedule(this.config.schedule, () => this.runTransitions(), {
+      scheduled: true,
+      timezone: "UTC",
+    });
+    cron.schedule(
+      this.config.templateSchedule,
+      () => leagueTemplateService.spawnDueLeagues(),
+      { scheduled: true, timezone: "UTC" }
+    );
+
+    console.log("✅ League lifecycle job initialized successfully");
+  }
+
+  /**
+   * Move leagues along upcoming -> active -> completed, fire each hook
+   * that is due, retry completed leagues that were never rated and move
+   * knockout brackets on. Hooks are claimed in storage first, so every hook
+   * fires once even with several server instances running the job.
+   */
+  async runTransitions(): Promise<number> {
+    if (this.isJobRunning) {
+      console.log("⚠️ League lifecycle job already running, skipping...");
+      return 0;
+    }
+
+    this.isJobRunning = true;
+    let fired = 0;
+
+    try {
+      const now = new Date();
+      const closingSoonBefore = new Date(
+        now.getTime() + this.config.closingSoonHours * HOUR_MS
+      );
+
+      const leagues = await getLeagueRepository().listLifecycleDue({
+        now,
+        closingSoonBefore,
+      });
+
+      for (const league of leagues) {
+        for (const event of this.dueEvents(league, now, closingSoonBefore)) {
+          const claimed = await getLeagueRepository().claimLifecycleEvent(
+            String(league._id),
+            event,
+            event === "completed" ? "completed" : "active"
+          );
+
+          if (claimed) {
+            leagueEvents.emitLifecycle(event, claimed);
+            fired += 1;
+          }
+        }
+      }
+
+      if (fired > 0) {
+        console.log(`✅ League lifecycle job fired ${fired} hook(s)`);
+      }
+
+      // Completed leagues whose hook failed to pay out or rate them
+      const unrated = await getLeagueRepository().listUnrated(
+        new Date(now.getTime() - SETTLE_RETRY_MS)
+      );
+      for (const league of unrated) {
+        await this.settleAndRate(league).catch((error) =>
+          console.error(`❌ Rating failed for ${league.name}:`, error)
+        );
+      }
+
+      // Knockout leagues: draw brackets and close finished rounds
+      const brackets = await getLeagueRepository().listOpenBrackets(now);
+      for (const league of brackets) {
+        await leagueService
+          .advanceBracket(league, now)
+          .catch((error) =>
+            console.error(`❌ Bracket update failed for ${league.name}:`, error)
+          );
+      }
+    } catch (error) {
+      console.error("❌ Error running league lifecycle job:", error);
+    } finally {
+      this.isJobRunning = false;
+    }
+
+    return fired;
+  }
+
+  /**
+   * Pay out a completed league's prizes and rate its players. Both are
+   * safe to repeat, and the league is only marked rated once both
+   * succeeded, so a failure is retried by the next runs.
+   */
+  private async settleAndRate(league: ILeague): Promise<void> {
+    const settled = await leagueService.settle(league);
+    if (settled.status !== "completed") return;
+
+    await ratingService.rateLeague(settled);
+    settled.ratedAt = new Date();
+    await getLeagueRepository().save(settled);
+  }
+
+  /**
+   * Hooks still to fire for a league, in the order they happen. A league
+   * that ended while nobody was watching only completes.
+   */
+  private dueEvents(
+    league: ILeague,
+    now: Date,
+    closingSoonBefore: Date
+  ): LeagueLifecycleEvent[] {
+    const fired = league.lifecycleEvents;
+    const running = league.startDate <= now && league.endDate > now;
+
+    if (league.endDate <= now) {
+      return fired.completed ? [] : ["completed"];
+    }
+
+    const events: LeagueLifecycleEvent[] = [];
+    if (running && !fired.started) events.push("started");
+    if (running && !fired.closingSoon && league.endDate <= closingSoonBefore) {
+      events.push("closingSoon");
+    }
+    return events;
+  }
+}
+
+// Export singleton instance
+export const leagueLifecycleJobService = new LeagueLifecycleJobService();
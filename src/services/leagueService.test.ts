@@ -0,0 +1,203 @@
+import { Types } from "mongoose";
+import League from "../models/League";
+import User from "../models/User";
+import { getLeagueRepository } from "../repositories/leagueRepository";
+import { leagueService } from "./leagueService";
+
+process.env.LEAGUE_STORE = "memory";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const organizerId = new Types.ObjectId();
+
+const player = (username: string) =>
+  new User({
+    _id: new Types.ObjectId(),
+    username,
+    email: `${username}@example.com`,
+    password: "not-used-here",
+  });
+
+// A free private league that has not started yet
+const privateLeague = () =>
+  getLeagueRepository().create({
+    name: "Private league",
+    description: "Invite only",
+    startDate: new Date(Date.now() + HOUR_MS),
+    endDate: new Date(Date.now() + 48 * HOUR_MS),
+    createdBy: organizerId,
+    isPublic: false,
+  });
+
+const knockoutLeague = (players: string[]) => {
+  const start = new Date(Date.now() - HOUR_MS);
+
+  return new League({
+    name: "Knockout",
+    description: "Seeded by rating",
+    category: "math",
+    startDate: start,
+    endDate: new Date(start.getTime() + 48 * HOUR_MS),
+    createdBy: new Types.ObjectId(),
+    format: "bracket",
+    bracketSettings: { seeding: "rating", roundHours: 12 },
+    participants: players.map((username, index) => ({
+      userId: new Types.ObjectId(),
+      username,
+      joinedAt: new Date(start.getTime() - (10 - index) * HOUR_MS),
+      submissions: [],
+      bestSubmission: { accuracy: 0, timeInSeconds: 0, points: 0 },
+    })),
+  });
+};
+
+describe("leagueService.advanceBracket", () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it("seeds by the rating in the league's category, not by total points", async () => {
+    const league = knockoutLeague(["veteran", "rising", "rookie", "gone"]);
+    const [veteran, rising, rookie] = league.participants;
+
+    const users = [
+      // Most points overall, but a weak math rating
+      new User({
+        _id: veteran.userId,
+        totalPoints: 90000,
+        ratings: [
+          { category: "math", rating: 1350, deviation: 60, volatility: 0.06 },
+          {
+            category: "science",
+            rating: 2200,
+            deviation: 60,
+            volatility: 0.06,
+          },
+        ],
+      }),
+      new User({
+        _id: rising.userId,
+        totalPoints: 100,
+        ratings: [
+          { category: "math", rating: 1900, deviation: 60, volatility: 0.06 },
+        ],
+      }),
+      // Never rated in math: starts at 1500
+      new User({ _id: rookie.userId, totalPoints: 5000 }),
+    ];
+    jest
+      .spyOn(User, "find")
+      .mockReturnValue({ select: async () => users } as any);
+
+    await leagueService.advanceBracket(league);
+
+    // "gone" has no user left and also counts as 1500, after the earlier
+    // joiner "rookie"
+    const seeds = league
+      .bracket!.rounds[0].matches.flatMap((match) => [
+        match.playerA,
+        match.playerB,
+      ])
+      .sort((a, b) => a!.seed - b!.seed)
+      .map((slot) => slot!.username);
+    expect(seeds).toEqual(["rising", "rookie", "gone", "veteran"]);
+  });
+});
+
+describe("leagueService private leagues", () => {
+  it("lets a player in with an invite code and counts the use", async () => {
+    const league = await privateLeague();
+    const invite = await leagueService.createInvite(league, organizerId, {});
+
+    await expect(
+      leagueService.enter(league, player("uninvited"))
+    ).rejects.toThrow("This league is private");
+
+    const { league: joined } = await leagueService.enter(
+      league,
+      player("invited"),
+      { inviteCode: invite.code.toLowerCase() }
+    );
+
+    expect(joined.participants.map((p) => p.username)).toEqual(["invited"]);
+    expect(joined.invites[0].uses).toBe(1);
+  });
+
+  it("refuses an invite that is used up or revoked", async () => {
+    const league = await privateLeague();
+    const single = await leagueService.createInvite(league, organizerId, {
+      maxUses: 1,
+    });
+    const revoked = await leagueService.createInvite(league, organizerId, {});
+    league.invites[1].revokedAt = new Date();
+    await getLeagueRepository().save(league);
+
+    const { league: joined } = await leagueService.enter(
+      league,
+      player("first"),
+      { inviteCode: single.code }
+    );
+
+    await expect(
+      leagueService.enter(joined, player("second"), {
+        inviteCode: single.code,
+      })
+    ).rejects.toThrow("Invalid or expired invite code");
+    await expect(
+      leagueService.enter(joined, player("third"), {
+        inviteCode: revoked.code,
+      })
+    ).rejects.toThrow("Invalid or expired invite code");
+  });
+
+  it("lets a player with an approved join request in without a code", async () => {
+    const league = await privateLeague();
+    const asking = player("asking");
+
+    const request = await leagueService.requestToJoin(
+      league,
+      asking,
+      "Let me in"
+    );
+    await expect(leagueService.requestToJoin(league, asking)).rejects.toThrow(
+      "already have a pending join request"
+    );
+
+    await leagueService.decideJoinRequest(
+      league,
+      String(request._id),
+      "approved",
+      organizerId
+    );
+    const { league: joined } = await leagueService.enter(league, asking);
+
+    expect(joined.participants.map((p) => p.username)).toEqual(["asking"]);
+  });
+
+  it("lets a rejected player ask again, but not join", async () => {
+    const league = await privateLeague();
+    const asking = player("asking");
+    const request = await leagueService.requestToJoin(league, asking);
+
+    await leagueService.decideJoinRequest(
+      league,
+      String(request._id),
+      "rejected",
+      organizerId
+    );
+
+    await expect(leagueService.enter(league, asking)).rejects.toThrow(
+      "This league is private"
+    );
+    await expect(
+      leagueService.decideJoinRequest(
+        league,
+        String(request._id),
+        "approved",
+        organizerId
+      )
+    ).rejects.toThrow("already rejected");
+
+    const again = await leagueService.requestToJoin(league, asking);
+    expect(again.status).toBe("pending");
+    expect(league.joinRequests).toHaveLength(1);
+  });
+});
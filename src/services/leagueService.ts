@@ -0,0 +1,434 @@
+import { Types } from "mongoose";
+import { User } from "../models/User";
+import { getLeagueRepository } from "../repositories/leagueRepository";
+import { creditService, RefundSummary } from "./creditService";
+import { ratingService } from "./ratingService";
+import { submissionReviewService } from "./submissionReviewService";
+import { generateCode } from "../utils/tokens";
+import { DEFAULT_RATING } from "../utils/rating";
+import {
+  ILeague,
+  ILeagueInvite,
+  ILeagueJoinRequest,
+  ILeaguePrizeAward,
+  IUser,
+  IBracketSlot,
+  IGameScore,
+  LeagueJoinOptions,
+} from "../types";
+
+export interface LeagueEntryResult {
+  league: ILeague;
+  entryFeePaid: number;
+}
+
+class LeagueService {
+  /**
+   * Join a league, paying its entry fee. Private leagues also need an
+   * invite code or an approved join request; team leagues need a team, and
+   * the player's rating must fit the league's skill level. The fee is
+   * taken before the seat is claimed and given back if the seat is gone by
+   * then, so neither a full league nor a double submit leaves the user
+   * charged.
+   */
+  async enter(
+    league: ILeague,
+    user: IUser,
+    options: LeagueJoinOptions = {}
+  ): Promise<LeagueEntryResult> {
+    const userId = user._id as Types.ObjectId;
+    const leagueId = league._id as Types.ObjectId;
+
+    // Skill level gating uses the rating in the league's category
+    options = {
+      ...options,
+      rating: ratingService.ratingFor(user, league.category).rating,
+    };
+
+    // Dry run on our copy for a clear error before any credits move
+    const join = league.addParticipant(userId, user.username, options);
+
+    const entry =
+      league.entryFee > 0
+        ? await creditService.chargeLeagueEntry(
+            userId,
+            leagueId,
+            league.entryFee
+          )
+        : null;
+
+    const joined = await getLeagueRepository().addParticipant(
+      String(leagueId),
+      userId,
+      user.username,
+      join
+    );
+
+    if (!joined) {
+      if (entry) {
+        await creditService.refund(entry._id as Types.ObjectId, "entry_failed");
+      }
+
+      // Someone else changed the league in the meantime; explain what
+      const latest = await getLeagueRepository().findById(String(leagueId));
+      latest?.addParticipant(userId, user.username, options);
+      throw new Error("Could not join the league, please try again");
+    }
+
+    return { league: joined, entryFeePaid: entry ? -entry.amount : 0 };
+  }
+
+  /**
+   * Record a score for a participant and add it to their overall stats.
+   * Knockout leagues are brought up to date first so the score lands in
+   * the right match. A suspicious leaderboard score is held for review
+   * instead (`flagged`).
+   */
+  async recordScore(
+    league: ILeague,
+    userId: Types.ObjectId,
+    scoreData: IGameScore
+  ): Promise<{ league: ILeague; flagged: boolean }> {
+    await this.advanceBracket(league);
+
+    const user = await User.findById(userId);
+
+    // Leaderboard scores are screened against the player's history;
+    // bracket match scores are settled head to head
+    const toLeaderboard = league.format !== "bracket" || !league.bracket;
+    const review =
+      user && toLeaderboard
+        ? submissionReviewService.screen(scoreData, user)
+        : null;
+
+    league.submitScore(userId, { ...scoreData, review });
+    await getLeagueRepository().save(league);
+
+    // A held submission counts towards the stats once it is approved
+    if (user && !review) {
+      user.updateStats(scoreData);
+      await user.save();
+    }
+
+    return { league, flagged: review !== null };
+  }
+
+  /**
+   * Create an invite code for a league. Without expiresAt or maxUses the
+   * code works until it is revoked.
+   */
+  async createInvite(
+    league: ILeague,
+    createdBy: Types.ObjectId,
+    options: { expiresAt?: Date; maxUses?: number }
+  ): Promise<ILeagueInvite> {
+    const invite: ILeagueInvite = {
+      code: generateCode(),
+      createdBy,
+      createdAt: new Date(),
+      expiresAt: options.expiresAt || null,
+      maxUses: options.maxUses || null,
+      uses: 0,
+      revokedAt: null,
+    };
+
+    league.invites.push(invite);
+    await getLeagueRepository().save(league);
+
+    return invite;
+  }
+
+  /**
+   * Ask the organizer of a private league to let the user in
+   */
+  async requestToJoin(
+    league: ILeague,
+    user: IUser,
+    message?: string
+  ): Promise<ILeagueJoinRequest> {
+    const userId = user._id as Types.ObjectId;
+
+    if (league.isPublic) {
+      throw new Error("This league is public, join it directly");
+    }
+
+    if (league.status !== "upcoming" && league.status !== "active") {
+      throw new Error("Cannot join league at this time");
+    }
+
+    if (league.participants.some((p) => p.userId.equals(userId))) {
+      throw new Error("User already joined this league");
+    }
+
+    const existing = league.joinRequests.find((request) =>
+      request.userId.equals(userId)
+    );
+
+    if (existing && existing.status !== "rejected") {
+      throw new Error(`You already have a ${existing.status} join request`);
+    }
+
+    // A rejected user may ask again; the old request is replaced
+    league.joinRequests = league.joinRequests.filter(
+      (request) => !request.userId.equals(userId)
+    );
+    league.joinRequests.push({
+      userId,
+      username: user.username,
+      message,
+      status: "pending",
+      requestedAt: new Date(),
+    });
+    await getLeagueRepository().save(league);
+
+    return league.joinRequests[league.joinRequests.length - 1];
+  }
+
+  /**
+   * Approve or reject a pending join request. Approved users still enter
+   * the league themselves, which is when any entry fee is paid.
+   */
+  async decideJoinRequest(
+    league: ILeague,
+    requestId: string,
+    decision: "approved" | "rejected",
+    decidedBy: Types.ObjectId
+  ): Promise<ILeagueJoinRequest | null> {
+    const request = league.joinRequests.find(
+      (r) => String(r._id) === requestId
+    );
+
+    if (!request) return null;
+
+    if (request.status !== "pending") {
+      throw new Error(`Join request was already ${request.status}`);
+    }
+
+    request.status = decision;
+    request.decidedAt = new Date();
+    request.decidedBy = decidedBy;
+    await getLeagueRepository().save(league);
+
+    return request;
+  }
+
+  /**
+   * Leave a league before it starts and get the entry fee back
+   */
+  async withdraw(
+    leagueId: string,
+    userId: Types.ObjectId
+  ): Promise<{ league: ILeague; refund: RefundSummary } | null> {
+    const league = await getLeagueRepository().removeParticipant(
+      leagueId,
+      userId
+    );
+
+    if (!league) return null;
+
+    const refund = await creditService.refundLeagueEntries(
+      { leagueId: league._id as Types.ObjectId, userId },
+      "withdrawn"
+    );
+
+    return { league, refund };
+  }
+
+  /**
+   * Cancel a league and refund every entry fee paid for it
+   */
+  async cancel(league: ILeague, reason?: string): Promise<RefundSummary> {
+    league.status = "cancelled";
+    league.cancelledAt = new Date();
+    league.cancellationReason = reason;
+    await getLeagueRepository().save(league);
+
+    return creditService.refundLeagueEntries(
+      { leagueId: league._id as Types.ObjectId },
+      "league_cancelled"
+    );
+  }
+
+  /**
+   * Draw a knockout league's bracket once it is due and settle every round
+   * whose window has closed. Saves with a version check, so two servers
+   * doing this at once cannot both write.
+   */
+  async advanceBracket(
+    league: ILeague,
+    now: Date = new Date()
+  ): Promise<ILeague> {
+    if (league.format !== "bracket" || league.status === "cancelled") {
+      return league;
+    }
+
+    let changed = false;
+
+    if (!league.bracket && now >= league.bracketDrawAt()) {
+      league.drawBracket(await this.bracketSeeds(league), now);
+      changed = true;
+    }
+
+    if (league.advanceBracket(now)) {
+      changed = true;
+    }
+
+    if (changed) {
+      league.increment();
+      await getLeagueRepository().save(league);
+    }
+
+    return league;
+  }
+
+  /**
+   * Players in seed order: by their Glicko rating in the league's category
+   * (earlier joiners first on equal ratings), or by the qualifying
+   * leaderboard where only players who submitted a score qualify
+   */
+  private async bracketSeeds(league: ILeague): Promise<IBracketSlot[]> {
+    if (league.bracketSettings.seeding === "qualifying") {
+      return league.getLeaderboard().map((entry, index) => ({
+        userId: entry.userId,
+        username: entry.username,
+        seed: index + 1,
+      }));
+    }
+
+    const users = await User.find({
+      _id: { $in: league.participants.map((p) => p.userId) },
+    }).select("ratings");
+    const ratingOf = new Map(
+      users.map((user) => [
+        String(user._id),
+        ratingService.ratingFor(user, league.category).rating,
+      ])
+    );
+    const rating = (userId: Types.ObjectId): number =>
+      ratingOf.get(userId.toString()) ?? DEFAULT_RATING.rating;
+
+    return [...league.participants]
+      .sort(
+        (a, b) =>
+          rating(b.userId) - rating(a.userId) ||
+          a.joinedAt.getTime() - b.joinedAt.getTime()
+      )
+      .map((p, index) => ({
+        userId: p.userId,
+        username: p.username,
+        seed: index + 1,
+      }));
+  }
+
+  /**
+   * Pay out the prizes of a league that has completed. Safe to call
+   * repeatedly and from several places at once: prizes are recorded once
+   * and each one is paid once.
+   */
+  async settle(league: ILeague): Promise<ILeague> {
+    league.refreshStatus();
+
+    // The last bracket round must be settled before prizes are decided
+    if (league.format === "bracket" && league.status === "completed") {
+      league = await this.advanceBracket(league);
+    }
+
+    if (league.status !== "completed" || league.payout?.paidAt) {
+      return league;
+    }
+
+    return this.payOut(league);
+  }
+
+  private async payOut(league: ILeague): Promise<ILeague> {
+    const leagueId = league._id as Types.ObjectId;
+
+    // The final standings are frozen into the payout on the first run
+    const settled = league.payout
+      ? league
+      : (await getLeagueRepository().claimPayout(
+          String(leagueId),
+          this.computeAwards(league)
+        )) || (await getLeagueRepository().findById(String(leagueId)));
+
+    if (!settled?.payout) return league;
+    if (settled.payout.paidAt) return settled;
+
+    for (const award of settled.payout.awards) {
+      if (award.credits > 0) {
+        await creditService.awardPrize(
+          award.userId,
+          leagueId,
+          award.credits,
+          award.rank
+        );
+      }
+
+      if (award.badge) {
+        await User.updateOne(
+          {
+            _id: award.userId,
+            badges: { $not: { $elemMatch: { leagueId } } },
+          },
+          {
+            $push: {
+              badges: {
+                name: award.badge,
+                leagueId,
+                rank: award.rank,
+                awardedAt: new Date(),
+              },
+            },
+          }
+        );
+      }
+    }
+
+    settled.payout.paidAt = new Date();
+    await getLeagueRepository().save(settled);
+
+    console.log(
+      `🏆 Paid ${settled.payout.awards.length} prize(s) for league ${settled.name}`
+    );
+
+    return settled;
+  }
+
+  /**
+   * Match the league's prizes to its final leaderboard (bracket placements
+   * for knockout leagues). Players tied on a prize's rank each get it;
+   * ranks nobody reached are not awarded.
+   */
+  private computeAwards(league: ILeague): ILeaguePrizeAward[] {
+    const leaderboard: Array<{
+      rank: number;
+      userId: Types.ObjectId;
+      username: string;
+    }> =
+      league.format === "bracket"
+        ? league.getBracketPlacements()
+        : league.getLeaderboard();
+    const awards: ILeaguePrizeAward[] = [];
+
+    for (const prize of league.prizes) {
+      if (!(prize.credits > 0 || prize.badge)) continue;
+
+      for (const winner of leaderboard.filter(
+        (entry) => entry.rank === prize.rank
+      )) {
+        awards.push({
+          userId: winner.userId,
+          username: winner.username,
+          rank: prize.rank,
+          credits: prize.credits || 0,
+          badge: prize.badge,
+        });
+      }
+    }
+
+    return awards.sort((a, b) => a.rank - b.rank);
+  }
+}
+
+// Export singleton instance
+export const leagueService = new LeagueService();
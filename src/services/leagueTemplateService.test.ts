@@ -0,0 +1,30 @@
+import { Types } from "mongoose";
+import { LeagueTemplate } from "../models/LeagueTemplate";
+import { leagueTemplateService } from "./leagueTemplateService";
+
+const template = (rules: Record<string, any>) =>
+  new LeagueTemplate({
+    name: "Weekly sprint",
+    description: "Every Monday",
+    rules,
+    recurrence: { frequency: "weekly", dayOfWeek: 1, durationDays: 7 },
+    createdBy: new Types.ObjectId(),
+  });
+
+describe("leagueTemplateService.checkTemplate", () => {
+  it("accepts a template whose leagues are consistent", () => {
+    expect(
+      leagueTemplateService.checkTemplate(
+        template({ scoringMethod: "best_n_average", maxSubmissions: 5 })
+      )
+    ).toBeNull();
+  });
+
+  it("rejects a best-of average over more submissions than allowed", () => {
+    expect(
+      leagueTemplateService.checkTemplate(
+        template({ scoringMethod: "best_n_average", maxSubmissions: 1 })
+      )
+    ).toBe("bestOf cannot be more than maxSubmissions");
+  });
+});
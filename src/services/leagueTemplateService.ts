@@ -0,0 +1,228 @@
+import { Types } from "mongoose";
+import {
+  LeagueTemplate,
+  ILeagueTemplate,
+  ILeagueRecurrence,
+} from "../models/LeagueTemplate";
+import League from "../models/League";
+import { getLeagueRepository } from "../repositories/leagueRepository";
+import { ILeague } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+class LeagueTemplateService {
+  private isJobRunning = false;
+
+  /**
+   * Start times of a recurrence after `after`, up to and including `until`
+   */
+  nextOccurrences(
+    recurrence: ILeagueRecurrence,
+    after: Date,
+    until: Date
+  ): Date[] {
+    const occurrences: Date[] = [];
+    let next = this.firstOccurrence(recurrence, after);
+
+    while (next <= until) {
+      occurrences.push(next);
+      next =
+        recurrence.frequency === "weekly"
+          ? new Date(next.getTime() + 7 * DAY_MS)
+          : new Date(
+              Date.UTC(
+                next.getUTCFullYear(),
+                next.getUTCMonth() + 1,
+                recurrence.dayOfMonth,
+                recurrence.hour,
+                recurrence.minute
+              )
+            );
+    }
+
+    return occurrences;
+  }
+
+  private firstOccurrence(recurrence: ILeagueRecurrence, after: Date): Date {
+    const { hour, minute } = recurrence;
+    const year = after.getUTCFullYear();
+    const month = after.getUTCMonth();
+
+    if (recurrence.frequency === "monthly") {
+      const thisMonth = new Date(
+        Date.UTC(year, month, recurrence.dayOfMonth, hour, minute)
+      );
+      return thisMonth > after
+        ? thisMonth
+        : new Date(
+            Date.UTC(year, month + 1, recurrence.dayOfMonth, hour, minute)
+          );
+    }
+
+    const daysAhead = ((recurrence.dayOfWeek || 0) - after.getUTCDay() + 7) % 7;
+    const candidate = new Date(
+      Date.UTC(year, month, after.getUTCDate() + daysAhead, hour, minute)
+    );
+    return candidate > after
+      ? candidate
+      : new Date(candidate.getTime() + 7 * DAY_MS);
+  }
+
+  /**
+   * Create the leagues of every active template that start within the
+   * template's createAheadDays. Runs hourly from the lifecycle job.
+   */
+  async spawnDueLeagues(now: Date = new Date()): Promise<number> {
+    if (this.isJobRunning) {
+      console.log("⚠️ League template job already running, skipping...");
+      return 0;
+    }
+
+    this.isJobRunning = true;
+    let created = 0;
+
+    try {
+      const templates = await LeagueTemplate.find({ isActive: true });
+
+      for (const template of templates) {
+        created += (await this.scheduleTemplate(template, now)).length;
+      }
+
+      if (created > 0) {
+        console.log(`✅ League template job created ${created} league(s)`);
+      }
+    } catch (error) {
+      console.error("❌ Error running league template job:", error);
+    } finally {
+      this.isJobRunning = false;
+    }
+
+    return created;
+  }
+
+  /**
+   * Create the template's leagues that are due. Occurrences that already
+   * started are not created after the fact. Each occurrence is claimed on
+   * the template before its league is created, so several servers running
+   * the job never create the same league twice.
+   */
+  async scheduleTemplate(
+    template: ILeagueTemplate,
+    now: Date = new Date()
+  ): Promise<ILeague[]> {
+    const leagues: ILeague[] = [];
+    if (!template.isActive) return leagues;
+
+    const last = template.lastScheduledStart || null;
+    const after = last && last > now ? last : now;
+    const until = new Date(now.getTime() + template.createAheadDays * DAY_MS);
+    let previous = last;
+
+    for (const startDate of this.nextOccurrences(
+      template.recurrence,
+      after,
+      until
+    )) {
+      const claimed = await LeagueTemplate.findOneAndUpdate(
+        { _id: template._id, isActive: true, lastScheduledStart: previous },
+        { $set: { lastScheduledStart: startDate } },
+        { new: true }
+      );
+
+      // Another server got there first or the template was stopped
+      if (!claimed) break;
+
+      try {
+        leagues.push(await this.createLeague(template, startDate));
+      } catch (error: any) {
+        if (error.code !== 11000) {
+          // Give the occurrence back so the next run tries again
+          await LeagueTemplate.updateOne(
+            { _id: template._id, lastScheduledStart: startDate },
+            { $set: { lastScheduledStart: previous } }
+          );
+          console.error(
+            `❌ Could not create league from template ${template.name}:`,
+            error
+          );
+          break;
+        }
+      }
+
+      previous = startDate;
+    }
+
+    template.lastScheduledStart = previous;
+    return leagues;
+  }
+
+  /**
+   * Leagues created from a template, newest first
+   */
+  async listSpawnedLeagues(
+    templateId: Types.ObjectId,
+    limit = 20
+  ): Promise<ILeague[]> {
+    // Listing is by start date, so the newest are at the end
+    const { total } = await getLeagueRepository().list(
+      { templateId },
+      { skip: 0, limit: 1 }
+    );
+    const { leagues } = await getLeagueRepository().list(
+      { templateId },
+      { skip: Math.max(total - limit, 0), limit }
+    );
+    return leagues.reverse();
+  }
+
+  /**
+   * Why leagues from this template would be invalid, or null when they are
+   * fine
+   */
+  checkTemplate(template: ILeagueTemplate): string | null {
+    return new League(
+      this.leagueFields(template, new Date())
+    ).checkConsistency();
+  }
+
+  private createLeague(
+    template: ILeagueTemplate,
+    startDate: Date
+  ): Promise<ILeague> {
+    const fields = this.leagueFields(template, startDate);
+    const problem = new League(fields).checkConsistency();
+
+    if (problem) {
+      throw new Error(`Invalid league settings: ${problem}`);
+    }
+
+    return getLeagueRepository().create(fields);
+  }
+
+  private leagueFields(
+    template: ILeagueTemplate,
+    startDate: Date
+  ): Partial<ILeague> {
+    const { prizes, rules } = template.toObject();
+
+    return {
+      name: `${template.name} (${startDate.toISOString().slice(0, 10)})`,
+      description: template.description,
+      startDate,
+      endDate: new Date(
+        startDate.getTime() + template.recurrence.durationDays * DAY_MS
+      ),
+      maxParticipants: template.maxParticipants,
+      entryFee: template.entryFee,
+      prizes,
+      rules,
+      category: template.category,
+      isPublic: template.isPublic,
+      templateId: template._id as Types.ObjectId,
+      createdBy: template.createdBy,
+    };
+  }
+}
+
+// Export singleton instance
+export const leagueTemplateService = new LeagueTemplateService();
@@ -0,0 +1,111 @@
+import { LoginAttempt } from "../models/LoginAttempt";
+import { loginProtection } from "./loginProtection";
+
+// Login attempts are kept in memory instead of MongoDB
+let stored: any[];
+
+const findAttempt = (filter: any) =>
+  stored.find(
+    (a) =>
+      a.key === filter.key &&
+      (!filter.failures || a.failures >= filter.failures.$gte)
+  );
+
+beforeEach(() => {
+  stored = [];
+
+  jest
+    .spyOn(LoginAttempt, "findOne")
+    .mockImplementation(
+      (async (filter: any) => findAttempt(filter) || null) as any
+    );
+  jest.spyOn(LoginAttempt, "findOneAndUpdate").mockImplementation((async (
+    filter: any,
+    update: any,
+    options: any = {}
+  ) => {
+    let attempt = findAttempt(filter);
+    if (!attempt && !options.upsert) return null;
+    if (!attempt) {
+      attempt = { key: filter.key, failures: 0, ...update.$setOnInsert };
+      stored.push(attempt);
+    }
+    if (update.$inc) attempt.failures += update.$inc.failures;
+    Object.assign(attempt, update.$set);
+    return attempt;
+  }) as any);
+  jest.spyOn(LoginAttempt, "deleteOne").mockImplementation((async (
+    filter: any
+  ) => {
+    const before = stored.length;
+    stored = stored.filter((a) => a.key !== filter.key);
+    return { deletedCount: before - stored.length };
+  }) as any);
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+const fail = async (times: number, email: string, ip?: string) => {
+  let result;
+  for (let i = 0; i < times; i++) {
+    result = await loginProtection.recordFailure(email, ip);
+  }
+  return result!;
+};
+
+describe("loginProtection", () => {
+  it("lets the first failed attempts through without a delay", async () => {
+    await fail(2, "player@example.com", "10.0.0.1");
+
+    expect(
+      await loginProtection.check("player@example.com", "10.0.0.1")
+    ).toEqual({ allowed: true });
+  });
+
+  it("makes each further attempt wait longer", async () => {
+    await fail(3, "player@example.com");
+    const first = await loginProtection.check("player@example.com");
+
+    await fail(1, "player@example.com");
+    const second = await loginProtection.check("player@example.com");
+
+    expect(first).toMatchObject({ allowed: false, status: 429, retryAfter: 1 });
+    expect(second).toMatchObject({
+      allowed: false,
+      status: 429,
+      retryAfter: 2,
+    });
+  });
+
+  it("locks the account once it reaches the failure limit", async () => {
+    expect((await fail(9, "player@example.com")).accountLocked).toBe(false);
+    expect((await fail(1, "Player@Example.com")).accountLocked).toBe(true);
+
+    const check = await loginProtection.check("player@example.com");
+    expect(check).toMatchObject({ allowed: false, status: 423 });
+    expect(check.retryAfter).toBeGreaterThan(14 * 60);
+  });
+
+  it("clears the lockout when the account is unlocked", async () => {
+    await fail(10, "player@example.com");
+
+    expect(await loginProtection.unlockAccount("player@example.com")).toBe(
+      true
+    );
+    expect(await loginProtection.check("player@example.com")).toEqual({
+      allowed: true,
+    });
+  });
+
+  it("keeps delaying the client after a successful login", async () => {
+    await fail(3, "player@example.com", "10.0.0.1");
+    await loginProtection.recordSuccess("player@example.com");
+
+    expect(
+      await loginProtection.check("other@example.com", "10.0.0.1")
+    ).toMatchObject({ allowed: false, status: 429 });
+    expect(await loginProtection.check("player@example.com")).toEqual({
+      allowed: true,
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import { LoginAttempt, ILoginAttempt } from "../models/LoginAttempt";
+
+export interface LoginCheckResult {
+  allowed: boolean;
+  status?: 423 | 429;
+  message?: string;
+  retryAfter?: number; // seconds
+  lockedUntil?: Date;
+}
+
+export interface FailureResult {
+  accountLocked: boolean;
+  lockedUntil?: Date;
+}
+
+const WINDOW_MS = 24 * 60 * 60 * 1000; // counters reset after a quiet day
+const DELAY_AFTER_FAILURES = 3; // free attempts before delays kick in
+const MAX_DELAY_SECONDS = 60;
+
+class LoginProtectionService {
+  private get accountThreshold(): number {
+    return parseInt(process.env.LOGIN_MAX_ACCOUNT_FAILURES || "10");
+  }
+
+  private get ipThreshold(): number {
+    return parseInt(process.env.LOGIN_MAX_IP_FAILURES || "50");
+  }
+
+  private get lockMs(): number {
+    return parseInt(process.env.LOGIN_LOCK_MINUTES || "15") * 60 * 1000;
+  }
+
+  /**
+   * Decide whether a login attempt may proceed for this email and client
+   */
+  async check(email: string, ip?: string): Promise<LoginCheckResult> {
+    const [account, client] = await Promise.all([
+      LoginAttempt.findOne({ key: this.accountKey(email) }),
+      ip ? LoginAttempt.findOne({ key: this.ipKey(ip) }) : null,
+    ]);
+    const now = Date.now();
+
+    if (account?.lockedUntil && account.lockedUntil.getTime() > now) {
+      return {
+        allowed: false,
+        status: 423,
+        message:
+          "Account temporarily locked after too many failed login attempts. Check your email to unlock it or try again later.",
+        retryAfter: Math.ceil((account.lockedUntil.getTime() - now) / 1000),
+        lockedUntil: account.lockedUntil,
+      };
+    }
+
+    if (client?.lockedUntil && client.lockedUntil.getTime() > now) {
+      return {
+        allowed: false,
+        status: 429,
+        message: "Too many failed login attempts from this network",
+        retryAfter: Math.ceil((client.lockedUntil.getTime() - now) / 1000),
+      };
+    }
+
+    // Progressive delay: each failure past the free ones doubles the wait
+    const retryAfter = Math.max(
+      this.remainingDelay(account, now),
+      this.remainingDelay(client, now)
+    );
+
+    if (retryAfter > 0) {
+      return {
+        allowed: false,
+        status: 429,
+        message: `Too many failed login attempts. Try again in ${retryAfter} seconds.`,
+        retryAfter,
+      };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Count a failed attempt against the account and the client
+   */
+  async recordFailure(email: string, ip?: string): Promise<FailureResult> {
+    const [account] = await Promise.all([
+      this.increment(this.accountKey(email), "account"),
+      ip ? this.increment(this.ipKey(ip), "ip") : null,
+    ]);
+
+    if (ip) {
+      await this.lockIfNeeded(this.ipKey(ip), this.ipThreshold);
+    }
+
+    const lockedUntil = await this.lockIfNeeded(
+      account.key,
+      this.accountThreshold
+    );
+
+    return {
+      accountLocked: !!lockedUntil,
+      lockedUntil: lockedUntil || undefined,
+    };
+  }
+
+  /**
+   * A successful login clears the account counter. The client counter is
+   * left alone so one valid account cannot be used to reset it.
+   */
+  async recordSuccess(email: string): Promise<void> {
+    await LoginAttempt.deleteOne({ key: this.accountKey(email) });
+  }
+
+  /**
+   * Lift a lockout (unlock email or admin action)
+   */
+  async unlockAccount(email: string): Promise<boolean> {
+    const result = await LoginAttempt.deleteOne({
+      key: this.accountKey(email),
+    });
+    return result.deletedCount > 0;
+  }
+
+  private async increment(
+    key: string,
+    scope: "account" | "ip"
+  ): Promise<ILoginAttempt> {
+    const now = new Date();
+
+    return (await LoginAttempt.findOneAndUpdate(
+      { key },
+      {
+        $inc: { failures: 1 },
+        $set: {
+          lastFailureAt: now,
+          expiresAt: new Date(now.getTime() + WINDOW_MS),
+        },
+        $setOnInsert: { scope },
+      },
+      { upsert: true, new: true }
+    )) as ILoginAttempt;
+  }
+
+  // Lock once the threshold is reached; returns the new lock expiry
+  private async lockIfNeeded(
+    key: string,
+    threshold: number
+  ): Promise<Date | null> {
+    const lockedUntil = new Date(Date.now() + this.lockMs);
+
+    // Only one concurrent request wins the lock, and the counter restarts
+    // so delays begin again from scratch once the lock expires
+    const locked = await LoginAttempt.findOneAndUpdate(
+      { key, failures: { $gte: threshold } },
+      { $set: { lockedUntil, failures: 0 } },
+      { new: true }
+    );
+
+    return locked ? lockedUntil : null;
+  }
+
+  private remainingDelay(
+    attempt: ILoginAttempt | null | undefined,
+    now: number
+  ): number {
+    if (!attempt || attempt.failures < DELAY_AFTER_FAILURES) return 0;
+
+    const delaySeconds = Math.min(
+      2 ** (attempt.failures - DELAY_AFTER_FAILURES),
+      MAX_DELAY_SECONDS
+    );
+    const elapsed = (now - attempt.lastFailureAt.getTime()) / 1000;
+
+    return Math.max(0, Math.ceil(delaySeconds - elapsed));
+  }
+
+  private accountKey(email: string): string {
+    return `account:${email.trim().toLowerCase()}`;
+  }
+
+  private ipKey(ip: string): string {
+    return `ip:${ip}`;
+  }
+}
+
+// Export singleton instance
+export const loginProtection = new LoginProtectionService();
@@ -0,0 +1,110 @@
+import { Request } from "express";
+import {
+  tokenService,
+  SessionMeta,
+  TWO_FACTOR_CHALLENGE_TTL_SECONDS,
+} from "./tokenService";
+import { loginProtection, FailureResult } from "./loginProtection";
+import { mailService } from "./mailService";
+import VerificationToken from "../models/VerificationToken";
+import { IUser } from "../types";
+
+const ACCOUNT_UNLOCK_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+// Client details recorded alongside each refresh token
+export const sessionMeta = (req: Request): SessionMeta => ({
+  ip: req.ip,
+  userAgent: req.get("user-agent"),
+});
+
+/**
+ * Finish a login: record it and start a session
+ */
+export const completeLogin = async (
+  user: IUser,
+  req: Request
+): Promise<Record<string, any>> => {
+  user.lastLoginAt = new Date();
+  await user.save();
+
+  // Start a session (short-lived access token + refresh token)
+  const tokens = await tokenService.issueTokens(user, sessionMeta(req));
+
+  return {
+    message: "Login successful",
+    ...tokens,
+    user: {
+      id: user._id,
+      username: user.username,
+      email: user.email,
+      emailVerified: user.emailVerified,
+      role: user.role,
+      credits: user.credits,
+      totalPoints: user.totalPoints,
+      stats: user.stats,
+    },
+  };
+};
+
+/**
+ * Called once the first factor succeeded: either completes the login or,
+ * when two-factor authentication is on, returns a challenge to answer
+ */
+export const startLogin = async (
+  user: IUser,
+  req: Request
+): Promise<Record<string, any>> => {
+  if (user.twoFactor?.enabled) {
+    return {
+      message: "Two-factor authentication required",
+      twoFactorRequired: true,
+      challengeToken: tokenService.signTwoFactorChallenge(String(user._id)),
+      challengeExpiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS,
+    };
+  }
+
+  return completeLogin(user, req);
+};
+
+// Count a failed login; email an unlock link when it locks a real account
+export const recordFailedLogin = async (
+  email: string,
+  req: Request,
+  user: IUser | null
+): Promise<FailureResult> => {
+  const failure = await loginProtection.recordFailure(email, req.ip);
+
+  if (failure.accountLocked && user) {
+    try {
+      const token = await VerificationToken.issue(
+        String(user._id),
+        "account_unlock",
+        ACCOUNT_UNLOCK_TTL_MS
+      );
+      await mailService.sendAccountLockedEmail(
+        user.email,
+        token,
+        failure.lockedUntil!
+      );
+    } catch (error) {
+      console.error("Account locked email error:", error);
+    }
+  }
+
+  return failure;
+};
+
+// Issue a verification token and email it; mail failures are only logged
+export const sendVerificationEmail = async (user: IUser): Promise<void> => {
+  try {
+    const token = await VerificationToken.issue(
+      String(user._id),
+      "email_verification",
+      EMAIL_VERIFICATION_TTL_MS
+    );
+    await mailService.sendVerificationEmail(user.email, token);
+  } catch (error) {
+    console.error("Verification email error:", error);
+  }
+};
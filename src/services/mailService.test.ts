@@ -0,0 +1,37 @@
+import {
+  ConsoleMailTransport,
+  FileMailTransport,
+  mailService,
+} from "./mailService";
+
+describe("mailService default transport", () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+    mailService.setTransport(undefined as any);
+  });
+
+  it("prints emails outside production", () => {
+    delete process.env.MAIL_TRANSPORT;
+    process.env.NODE_ENV = "development";
+
+    expect(mailService.getTransport()).toBeInstanceOf(ConsoleMailTransport);
+  });
+
+  it("refuses to print tokens in production without a configured transport", () => {
+    delete process.env.MAIL_TRANSPORT;
+    process.env.NODE_ENV = "production";
+
+    expect(() => mailService.getTransport()).toThrow(
+      "No mail transport configured"
+    );
+  });
+
+  it("uses the transport configured for production", () => {
+    process.env.MAIL_TRANSPORT = "file";
+    process.env.NODE_ENV = "production";
+
+    expect(mailService.getTransport()).toBeInstanceOf(FileMailTransport);
+  });
+});
@@ -0,0 +1,162 @@
+import fs from "fs/promises";
+import path from "path";
+
+export interface MailMessage {
+  from?: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Anything able to deliver a message (SMTP, an email API, a local outbox...)
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Prints emails to the console - default outside production
+ */
+export class ConsoleMailTransport implements MailTransport {
+  name = "console";
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(
+      `📧 [mail] From: ${message.from}\n   To: ${message.to}\n   Subject: ${message.subject}\n\n${message.text}\n`
+    );
+  }
+}
+
+/**
+ * Writes each email as a JSON file into an outbox directory, so tests and
+ * local tooling can read the links that would have been sent
+ */
+export class FileMailTransport implements MailTransport {
+  name = "file";
+
+  constructor(private readonly outboxDir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.outboxDir, { recursive: true });
+
+    const safeRecipient = message.to.replace(/[^a-z0-9@._-]/gi, "_");
+    const fileName = `${Date.now()}-${safeRecipient}.json`;
+
+    await fs.writeFile(
+      path.join(this.outboxDir, fileName),
+      JSON.stringify({ ...message, sentAt: new Date() }, null, 2)
+    );
+  }
+}
+
+class MailService {
+  // Resolved lazily so environment variables are loaded first
+  private transport?: MailTransport;
+
+  /**
+   * Swap the transport (e.g. a real provider in production)
+   */
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  getTransport(): MailTransport {
+    if (!this.transport) {
+      this.transport = this.createDefaultTransport();
+    }
+
+    return this.transport;
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const from = process.env.MAIL_FROM || "50cube <no-reply@50cube.com>";
+    const transport = this.getTransport();
+
+    console.log(`📤 Sending "${message.subject}" via ${transport.name}`);
+    await transport.send({ from, ...message });
+  }
+
+  /**
+   * Email verification link sent after registration
+   */
+  async sendVerificationEmail(to: string, token: string): Promise<void> {
+    const link = `${this.appUrl}/verify-email?token=${token}`;
+
+    await this.send({
+      to,
+      subject: "Verify your 50cube email address",
+      text: `Welcome to 50cube!\n\nConfirm your email address by opening this link:\n${link}\n\nThe link expires in 24 hours.`,
+    });
+  }
+
+  /**
+   * Password reset link sent from /forgot-password
+   */
+  async sendPasswordResetEmail(to: string, token: string): Promise<void> {
+    const link = `${this.appUrl}/reset-password?token=${token}`;
+
+    await this.send({
+      to,
+      subject: "Reset your 50cube password",
+      text: `We received a request to reset your password.\n\nChoose a new password here:\n${link}\n\nThe link expires in 1 hour. If you did not ask for this, you can ignore this email.`,
+    });
+  }
+
+  /**
+   * Sent to the new address when a user changes their email
+   */
+  async sendEmailChangeConfirmation(to: string, token: string): Promise<void> {
+    const link = `${this.appUrl}/confirm-email-change?token=${token}`;
+
+    await this.send({
+      to,
+      subject: "Confirm your new 50cube email address",
+      text: `Please confirm this is your new email address for 50cube:\n${link}\n\nThe link expires in 24 hours. Until then your current address stays active.`,
+    });
+  }
+
+  /**
+   * Sent when repeated failed logins lock an account
+   */
+  async sendAccountLockedEmail(
+    to: string,
+    token: string,
+    lockedUntil: Date
+  ): Promise<void> {
+    const link = `${this.appUrl}/unlock-account?token=${token}`;
+
+    await this.send({
+      to,
+      subject: "Your 50cube account has been temporarily locked",
+      text: `We locked your account after several failed login attempts.\n\nIt unlocks automatically at ${lockedUntil.toISOString()}, or you can unlock it now:\n${link}\n\nIf these attempts were not you, consider resetting your password.`,
+    });
+  }
+
+  private get appUrl(): string {
+    return (process.env.APP_URL || "http://localhost:5173").replace(/\/$/, "");
+  }
+
+  // Emails carry sign-in tokens, so production never falls back to
+  // printing them
+  private createDefaultTransport(): MailTransport {
+    const configured = process.env.MAIL_TRANSPORT;
+
+    if (configured === "file") {
+      return new FileMailTransport(
+        process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), ".mail-outbox")
+      );
+    }
+
+    if (configured === "console" || process.env.NODE_ENV !== "production") {
+      return new ConsoleMailTransport();
+    }
+
+    throw new Error(
+      "No mail transport configured: set MAIL_TRANSPORT or call mailService.setTransport() before starting in production"
+    );
+  }
+}
+
+// Export singleton instance
+export const mailService = new MailService();
@@ -0,0 +1,119 @@
+import { AddressInfo } from "net";
+import { Server } from "http";
+import express from "express";
+import { OidcState } from "../models/OidcState";
+import mockOidcRoutes from "../routes/mockOidc";
+import { oidcService } from "./oidcService";
+
+// Logins run against the dev mock provider on a local port; pending
+// states are kept in memory instead of MongoDB
+const states = new Map<string, any>();
+let server: Server;
+
+const startLogin = async (email: string) => {
+  const { url } = await oidcService.createAuthorizationUrl();
+  const authorize = new URL(url);
+  authorize.searchParams.set("login_hint", email);
+
+  const response = await fetch(authorize, { redirect: "manual" });
+  const callback = new URL(response.headers.get("location")!);
+
+  return {
+    code: callback.searchParams.get("code")!,
+    state: callback.searchParams.get("state")!,
+  };
+};
+
+beforeAll(async () => {
+  process.env.ENABLE_DEV_ROUTES = "true";
+  process.env.NODE_ENV = "test";
+
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+  app.use("/oidc", mockOidcRoutes);
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+
+  const { port } = server.address() as AddressInfo;
+  process.env.OIDC_ISSUER = `http://127.0.0.1:${port}/oidc`;
+  process.env.OIDC_CLIENT_ID = "50cube-test";
+  process.env.OIDC_REDIRECT_URI = "http://localhost:5173/auth/callback";
+  delete process.env.BASE_URL;
+
+  jest.spyOn(OidcState, "create").mockImplementation((async (doc: any) => {
+    states.set(doc.state, { ...doc });
+    return doc;
+  }) as any);
+  jest.spyOn(OidcState, "findOneAndDelete").mockImplementation((async (
+    filter: any
+  ) => {
+    const pending = states.get(filter.state);
+    states.delete(filter.state);
+    return pending && pending.expiresAt > new Date() ? pending : null;
+  }) as any);
+});
+
+afterAll(async () => {
+  jest.restoreAllMocks();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("oidcService", () => {
+  it("signs in with the code, verifier and nonce of the login it started", async () => {
+    const { code, state } = await startLogin("Student@Example.com");
+
+    const claims = await oidcService.handleCallback(code, state);
+
+    expect(claims.email).toBe("student@example.com");
+    expect(claims.email_verified).toBe(true);
+  });
+
+  it("sends an S256 code challenge and a nonce to the provider", async () => {
+    const { url } = await oidcService.createAuthorizationUrl();
+    const params = new URL(url).searchParams;
+
+    expect(params.get("code_challenge_method")).toBe("S256");
+    expect(params.get("code_challenge")).toMatch(/^[\w-]{43}$/);
+    expect(params.get("nonce")).toBeTruthy();
+    expect(states.get(params.get("state")!).nonce).toBe(params.get("nonce"));
+  });
+
+  it("fails the code exchange when the PKCE verifier does not match", async () => {
+    const { code, state } = await startLogin("pkce@example.com");
+    states.get(state).codeVerifier = "a-different-verifier";
+
+    await expect(oidcService.handleCallback(code, state)).rejects.toThrow(
+      "PKCE verification failed"
+    );
+  });
+
+  it("rejects an ID token issued for another login's nonce", async () => {
+    const { code, state } = await startLogin("nonce@example.com");
+    states.get(state).nonce = "nonce-of-another-login";
+
+    await expect(oidcService.handleCallback(code, state)).rejects.toThrow(
+      "ID token nonce mismatch"
+    );
+  });
+
+  it("accepts each login state only once", async () => {
+    const { code, state } = await startLogin("replay@example.com");
+    await oidcService.handleCallback(code, state);
+
+    await expect(oidcService.handleCallback(code, state)).rejects.toThrow(
+      "Invalid or expired login state"
+    );
+  });
+
+  it("keeps the mock provider closed without ENABLE_DEV_ROUTES", async () => {
+    process.env.ENABLE_DEV_ROUTES = "false";
+    try {
+      const response = await fetch(
+        `${process.env.OIDC_ISSUER}/.well-known/openid-configuration`
+      );
+      expect(response.status).toBe(404);
+    } finally {
+      process.env.ENABLE_DEV_ROUTES = "true";
+    }
+  });
+});
@@ -0,0 +1,387 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { OidcState, IOidcState } from "../models/OidcState";
+import { User } from "../models/User";
+import { IUser } from "../types";
+import { generateToken } from "../utils/tokens";
+
+const STATE_TTL_MS = 10 * 60 * 1000; // 10 minutes to finish signing in
+const METADATA_CACHE_MS = 60 * 60 * 1000; // 1 hour
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = [
+  "RS256",
+  "RS384",
+  "RS512",
+  "PS256",
+  "PS384",
+  "PS512",
+  "ES256",
+  "ES384",
+  "ES512",
+];
+
+// Subset of the provider's /.well-known/openid-configuration we rely on
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+export interface OidcClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  preferred_username?: string;
+}
+
+export interface OidcUserResult {
+  user: IUser;
+  created: boolean;
+  linked: boolean;
+}
+
+interface Jwk extends crypto.JsonWebKey {
+  kid?: string;
+  use?: string;
+}
+
+class OidcService {
+  private metadata: { value: OidcProviderMetadata; fetchedAt: number } | null =
+    null;
+  private jwks: { keys: Jwk[]; fetchedAt: number } | null = null;
+
+  private get config() {
+    return {
+      issuer: (process.env.OIDC_ISSUER || "").replace(/\/$/, ""),
+      clientId: process.env.OIDC_CLIENT_ID || "",
+      clientSecret: process.env.OIDC_CLIENT_SECRET,
+      redirectUri: process.env.OIDC_REDIRECT_URI || "",
+      scopes: process.env.OIDC_SCOPES || "openid email profile",
+    };
+  }
+
+  isConfigured(): boolean {
+    const { issuer, clientId, redirectUri } = this.config;
+    return !!(issuer && clientId && redirectUri);
+  }
+
+  /**
+   * Provider endpoints from OIDC discovery, cached for an hour
+   */
+  async getMetadata(): Promise<OidcProviderMetadata> {
+    if (
+      this.metadata &&
+      Date.now() - this.metadata.fetchedAt < METADATA_CACHE_MS
+    ) {
+      return this.metadata.value;
+    }
+
+    const { issuer } = this.config;
+    const response = await fetch(`${issuer}/.well-known/openid-configuration`);
+
+    if (!response.ok) {
+      throw new Error(`OIDC discovery failed with status ${response.status}`);
+    }
+
+    const value = (await response.json()) as OidcProviderMetadata;
+
+    if (value.issuer.replace(/\/$/, "") !== issuer) {
+      throw new Error("OIDC discovery returned a different issuer");
+    }
+
+    this.metadata = { value, fetchedAt: Date.now() };
+    this.jwks = null;
+    return value;
+  }
+
+  /**
+   * Start a login: remember state, nonce and PKCE verifier and build the
+   * provider URL the browser should be sent to
+   */
+  async createAuthorizationUrl(): Promise<{ url: string; expiresAt: Date }> {
+    const { clientId, redirectUri, scopes } = this.config;
+    const metadata = await this.getMetadata();
+
+    const state = generateToken(16);
+    const nonce = generateToken(16);
+    const codeVerifier = crypto.randomBytes(32).toString("base64url");
+    const codeChallenge = crypto
+      .createHash("sha256")
+      .update(codeVerifier)
+      .digest("base64url");
+    const expiresAt = new Date(Date.now() + STATE_TTL_MS);
+
+    await OidcState.create({
+      state,
+      nonce,
+      codeVerifier,
+      redirectUri,
+      expiresAt,
+    });
+
+    const url = new URL(metadata.authorization_endpoint);
+    url.searchParams.set("response_type", "code");
+    url.searchParams.set("client_id", clientId);
+    url.searchParams.set("redirect_uri", redirectUri);
+    url.searchParams.set("scope", scopes);
+    url.searchParams.set("state", state);
+    url.searchParams.set("nonce", nonce);
+    url.searchParams.set("code_challenge", codeChallenge);
+    url.searchParams.set("code_challenge_method", "S256");
+
+    return { url: url.toString(), expiresAt };
+  }
+
+  /**
+   * Finish a login: exchange the authorization code and return the
+   * verified ID token claims
+   */
+  async handleCallback(code: string, state: string): Promise<OidcClaims> {
+    // Each state can only be used once
+    const pending = await OidcState.findOneAndDelete({
+      state,
+      expiresAt: { $gt: new Date() },
+    });
+
+    if (!pending) {
+      throw new Error("Invalid or expired login state");
+    }
+
+    const metadata = await this.getMetadata();
+    const idToken = await this.exchangeCode(metadata, code, pending);
+
+    return this.verifyIdToken(metadata, idToken, pending.nonce);
+  }
+
+  /**
+   * Find the user an external account signs in as. Unknown accounts are
+   * linked to an existing user with the same provider-verified email, or
+   * get a new user.
+   */
+  async findOrCreateUser(claims: OidcClaims): Promise<OidcUserResult> {
+    const { iss: issuer, sub: subject } = claims;
+
+    const existing = await User.findOne({
+      identities: { $elemMatch: { issuer, subject } },
+    });
+
+    if (existing) {
+      return { user: existing, created: false, linked: false };
+    }
+
+    const email = claims.email?.trim().toLowerCase();
+
+    if (!email) {
+      throw new Error("The identity provider did not share an email address");
+    }
+
+    const emailVerified =
+      claims.email_verified === true || claims.email_verified === "true";
+    const identity = { issuer, subject, email, linkedAt: new Date() };
+
+    const sameEmail = await User.findOne({ email });
+
+    if (sameEmail) {
+      // An unverified address proves nothing about who owns the account
+      if (!emailVerified) {
+        throw new Error(
+          "An account with this email already exists. Sign in with your password instead."
+        );
+      }
+
+      sameEmail.identities.push(identity);
+      if (!sameEmail.emailVerified) {
+        sameEmail.emailVerified = true;
+        sameEmail.emailVerifiedAt = new Date();
+      }
+      await sameEmail.save();
+
+      return { user: sameEmail, created: false, linked: true };
+    }
+
+    const user = await User.create({
+      username: await this.generateUsername(claims, email),
+      email,
+      emailVerified,
+      emailVerifiedAt: emailVerified ? new Date() : undefined,
+      // Random password: password login stays off until the user sets one
+      // through "forgot password"
+      password: generateToken(32),
+      identities: [identity],
+    });
+
+    return { user, created: true, linked: false };
+  }
+
+  private async exchangeCode(
+    metadata: OidcProviderMetadata,
+    code: string,
+    pending: IOidcState
+  ): Promise<string> {
+    const { clientId, clientSecret } = this.config;
+
+    const body = new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: pending.redirectUri,
+      client_id: clientId,
+      code_verifier: pending.codeVerifier,
+    });
+    const headers: Record<string, string> = {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    };
+
+    // Public clients rely on PKCE alone; confidential ones also authenticate
+    if (clientSecret) {
+      const methods = metadata.token_endpoint_auth_methods_supported || [
+        "client_secret_basic",
+      ];
+
+      if (methods.includes("client_secret_basic")) {
+        const credentials = `${encodeURIComponent(
+          clientId
+        )}:${encodeURIComponent(clientSecret)}`;
+        headers.Authorization = `Basic ${Buffer.from(credentials).toString(
+          "base64"
+        )}`;
+      } else {
+        body.set("client_secret", clientSecret);
+      }
+    }
+
+    const response = await fetch(metadata.token_endpoint, {
+      method: "POST",
+      headers,
+      body,
+    });
+    const payload: any = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new Error(
+        `Code exchange failed: ${
+          payload.error_description || payload.error || response.status
+        }`
+      );
+    }
+
+    if (!payload.id_token) {
+      throw new Error("The identity provider did not return an ID token");
+    }
+
+    return payload.id_token;
+  }
+
+  private async verifyIdToken(
+    metadata: OidcProviderMetadata,
+    idToken: string,
+    nonce: string
+  ): Promise<OidcClaims> {
+    const decoded = jwt.decode(idToken, { complete: true });
+
+    if (!decoded || typeof decoded.payload === "string") {
+      throw new Error("Malformed ID token");
+    }
+
+    const algorithm = decoded.header.alg as jwt.Algorithm;
+
+    if (!ID_TOKEN_ALGORITHMS.includes(algorithm)) {
+      throw new Error(`Unsupported ID token algorithm ${algorithm}`);
+    }
+
+    const jwk = await this.findSigningKey(metadata, decoded.header.kid);
+    const key = crypto.createPublicKey({ key: jwk, format: "jwk" });
+
+    const claims = jwt.verify(idToken, key, {
+      algorithms: [algorithm],
+      issuer: metadata.issuer,
+      audience: this.config.clientId,
+      clockTolerance: 60,
+    }) as OidcClaims;
+
+    if (claims.nonce !== nonce) {
+      throw new Error("ID token nonce mismatch");
+    }
+
+    return claims;
+  }
+
+  /**
+   * Signing key for an ID token. The key set is cached; an unknown key id
+   * triggers one refetch in case the provider rotated its keys.
+   */
+  private async findSigningKey(
+    metadata: OidcProviderMetadata,
+    kid?: string
+  ): Promise<Jwk> {
+    const pick = (keys: Jwk[]): Jwk | undefined => {
+      const signingKeys = keys.filter((key) => !key.use || key.use === "sig");
+      return kid
+        ? signingKeys.find((key) => key.kid === kid)
+        : signingKeys.length === 1
+        ? signingKeys[0]
+        : undefined;
+    };
+
+    const cached = this.jwks && pick(this.jwks.keys);
+    if (cached) return cached;
+
+    const response = await fetch(metadata.jwks_uri);
+
+    if (!response.ok) {
+      throw new Error(`Fetching OIDC signing keys failed (${response.status})`);
+    }
+
+    const { keys = [] } = (await response.json()) as { keys?: Jwk[] };
+    this.jwks = { keys, fetchedAt: Date.now() };
+
+    const key = pick(keys);
+
+    if (!key) {
+      throw new Error("No matching signing key for the ID token");
+    }
+
+    return key;
+  }
+
+  private async generateUsername(
+    claims: OidcClaims,
+    email: string
+  ): Promise<string> {
+    const source = (claims.preferred_username || claims.name || email).split(
+      "@"
+    )[0];
+
+    // "José Núñez" -> "jose_nunez"
+    let base = source
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .replace(/[^a-z0-9_]+/g, "_")
+      .replace(/^_+|_+$/g, "")
+      .slice(0, 24);
+
+    if (base.length < 3) {
+      base = `user_${base}`.replace(/_$/, "");
+    }
+
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const candidate =
+        attempt === 0 ? base : `${base}_${crypto.randomInt(100, 100000)}`;
+
+      if (!(await User.exists({ username: candidate }))) {
+        return candidate;
+      }
+    }
+
+    return `${base.slice(0, 17)}_${generateToken(6)}`;
+  }
+}
+
+// Export singleton instance
+export const oidcService = new OidcService();
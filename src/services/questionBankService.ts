@@ -0,0 +1,216 @@
+import crypto from "crypto";
+import { Types } from "mongoose";
+import {
+  Question,
+  IQuestion,
+  QuestionDifficulty,
+  QuestionSubject,
+  QUESTION_SUBJECTS,
+  QUESTION_DIFFICULTIES,
+} from "../models/Question";
+import { ILeague } from "../types";
+
+export interface QuestionInput {
+  subject: QuestionSubject;
+  difficulty: QuestionDifficulty;
+  prompt: string;
+  choices: string[];
+  answer: number;
+  explanation?: string;
+  tags?: string[];
+}
+
+export interface QuestionImportSummary {
+  imported: number;
+  duplicates: number;
+}
+
+// A question drawn for a game, with its choices in a fresh random order
+export interface DrawnQuestion {
+  questionId: string;
+  subject: QuestionSubject;
+  difficulty: QuestionDifficulty;
+  prompt: string;
+  choices: string[];
+  answer: number;
+}
+
+// Share of each difficulty in a set for a league's skill level: mostly
+// the league's own level with some of the neighbouring ones
+const DIFFICULTY_MIX: Record<
+  ILeague["rules"]["skillLevel"],
+  Partial<Record<QuestionDifficulty, number>>
+> = {
+  beginner: { beginner: 0.7, intermediate: 0.3 },
+  intermediate: { beginner: 0.2, intermediate: 0.6, advanced: 0.2 },
+  advanced: { intermediate: 0.2, advanced: 0.6, expert: 0.2 },
+  expert: { advanced: 0.3, expert: 0.7 },
+};
+
+const shuffle = <T>(items: T[]): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = crypto.randomInt(i + 1);
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+// Split `count` over weighted cells, largest remainders first, so the
+// parts always add up to `count`
+const apportion = <T>(
+  cells: Array<{ key: T; weight: number }>,
+  count: number
+): Array<{ key: T; size: number }> => {
+  const total = cells.reduce((sum, cell) => sum + cell.weight, 0);
+  const exact = cells.map((cell) => (count * cell.weight) / total);
+  const sizes = exact.map(Math.floor);
+
+  let left = count - sizes.reduce((sum, size) => sum + size, 0);
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of byRemainder) {
+    if (left === 0) break;
+    sizes[index] += 1;
+    left -= 1;
+  }
+
+  return cells.map((cell, index) => ({ key: cell.key, size: sizes[index] }));
+};
+
+class QuestionBankService {
+  /**
+   * Subjects a league's questions come from: its own category, or every
+   * subject for "mixed" leagues
+   */
+  subjectsFor(category: ILeague["category"]): QuestionSubject[] {
+    return category === "mixed"
+      ? QUESTION_SUBJECTS
+      : [category as QuestionSubject];
+  }
+
+  /**
+   * Draw a random set for a league: spread evenly over its subjects and
+   * mixed in difficulty around its skill level. Cells the bank cannot fill
+   * are topped up from the nearest difficulties, so the set is only short
+   * when the bank has fewer questions for the subjects than asked for.
+   */
+  async drawSet(
+    league: Pick<ILeague, "category"> & {
+      rules: Pick<ILeague["rules"], "skillLevel">;
+    },
+    count: number
+  ): Promise<DrawnQuestion[]> {
+    const subjects = this.subjectsFor(league.category);
+    const mix = DIFFICULTY_MIX[league.rules.skillLevel];
+
+    // Subjects first (leftovers go to random subjects), then difficulties
+    const cells = apportion(
+      shuffle(subjects).map((subject) => ({ key: subject, weight: 1 })),
+      count
+    ).flatMap(({ key: subject, size }) =>
+      apportion(
+        Object.entries(mix).map(([difficulty, weight]) => ({
+          key: { subject, difficulty: difficulty as QuestionDifficulty },
+          weight: weight!,
+        })),
+        size
+      )
+    );
+
+    const drawn: IQuestion[] = [];
+    for (const { key, size } of cells) {
+      if (size > 0) {
+        drawn.push(...(await this.sample({ ...key, isActive: true }, size)));
+      }
+    }
+
+    // Top up short cells, closest difficulty first
+    const target = QUESTION_DIFFICULTIES.indexOf(
+      league.rules.skillLevel as QuestionDifficulty
+    );
+    const byDistance = [...QUESTION_DIFFICULTIES].sort(
+      (a, b) =>
+        Math.abs(QUESTION_DIFFICULTIES.indexOf(a) - target) -
+        Math.abs(QUESTION_DIFFICULTIES.indexOf(b) - target)
+    );
+    for (const difficulty of byDistance) {
+      if (drawn.length >= count) break;
+
+      drawn.push(
+        ...(await this.sample(
+          {
+            subject: { $in: subjects },
+            difficulty,
+            isActive: true,
+            _id: { $nin: drawn.map((question) => question._id) },
+          },
+          count - drawn.length
+        ))
+      );
+    }
+
+    return shuffle(drawn).map((question) => {
+      const order = shuffle(question.choices.map((_, index) => index));
+
+      return {
+        questionId: String(question._id),
+        subject: question.subject,
+        difficulty: question.difficulty,
+        prompt: question.prompt,
+        choices: order.map((index) => question.choices[index]),
+        answer: order.indexOf(question.answer),
+      };
+    });
+  }
+
+  /**
+   * Add questions to the bank. A prompt already stored for the same
+   * subject is skipped and counted as a duplicate.
+   */
+  async importQuestions(
+    questions: QuestionInput[],
+    createdBy: Types.ObjectId
+  ): Promise<QuestionImportSummary> {
+    if (questions.length === 0) return { imported: 0, duplicates: 0 };
+
+    const key = (q: { subject: string; prompt: string }) =>
+      `${q.subject}\u0000${q.prompt.trim()}`;
+
+    const existing = await Question.find({
+      $or: questions.map(({ subject, prompt }) => ({
+        subject,
+        prompt: prompt.trim(),
+      })),
+    }).select("subject prompt");
+    const seen = new Set(existing.map(key));
+
+    const fresh = questions.filter((question) => {
+      if (seen.has(key(question))) return false;
+      seen.add(key(question));
+      return true;
+    });
+
+    if (fresh.length > 0) {
+      await Question.insertMany(
+        fresh.map((question) => ({ ...question, createdBy }))
+      );
+    }
+
+    return {
+      imported: fresh.length,
+      duplicates: questions.length - fresh.length,
+    };
+  }
+
+  private sample(
+    match: Record<string, any>,
+    size: number
+  ): Promise<IQuestion[]> {
+    return Question.aggregate([{ $match: match }, { $sample: { size } }]);
+  }
+}
+
+// Export singleton instance
+export const questionBankService = new QuestionBankService();
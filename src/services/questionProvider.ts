@@ -0,0 +1,108 @@
+import crypto from "crypto";
+import { questionBankService } from "./questionBankService";
+import { ILeague } from "../types";
+
+// A question as stored on a game session. The answer (index into choices)
+// never leaves the server.
+export interface SessionQuestion {
+  questionId: string;
+  prompt: string;
+  choices: string[];
+  answer: number;
+}
+
+// Where game sessions get their questions from
+export interface QuestionProvider {
+  drawQuestions(league: ILeague, count: number): Promise<SessionQuestion[]>;
+}
+
+// Operand ranges per skill level for generated arithmetic
+const OPERAND_LIMITS: Record<ILeague["rules"]["skillLevel"], number> = {
+  beginner: 10,
+  intermediate: 50,
+  advanced: 200,
+  expert: 1000,
+};
+
+const shuffle = <T>(items: T[]): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = crypto.randomInt(i + 1);
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+// Arithmetic questions generated on the fly, sized to the league's skill
+// level. Used when the question bank has nothing for a league.
+export class ArithmeticQuestionProvider implements QuestionProvider {
+  async drawQuestions(
+    league: ILeague,
+    count: number
+  ): Promise<SessionQuestion[]> {
+    const limit = OPERAND_LIMITS[league.rules.skillLevel] || 50;
+
+    return Array.from({ length: count }, (_, index) => {
+      const a = crypto.randomInt(1, limit + 1);
+      const b = crypto.randomInt(1, limit + 1);
+      const [prompt, result] =
+        crypto.randomInt(3) === 0
+          ? [`${a} × ${b}`, a * b]
+          : crypto.randomInt(2) === 0
+          ? [`${a} + ${b}`, a + b]
+          : [`${a + b} − ${b}`, a];
+
+      // Three distinct wrong answers close to the right one
+      const wrong = new Set<number>();
+      while (wrong.size < 3) {
+        const offset = crypto.randomInt(1, Math.max(5, limit / 5) + 1);
+        const candidate =
+          crypto.randomInt(2) === 0 ? result + offset : result - offset;
+        if (candidate !== result) wrong.add(candidate);
+      }
+
+      const choices = shuffle([result, ...Array.from(wrong)]).map(String);
+
+      return {
+        questionId: `q${index + 1}`,
+        prompt: `${prompt} = ?`,
+        choices,
+        answer: choices.indexOf(String(result)),
+      };
+    });
+  }
+}
+
+// Balanced random sets from the question bank. A set may come out shorter
+// than asked when the bank is small; with no questions at all for the
+// league's subjects, games fall back to generated arithmetic.
+export class QuestionBankProvider implements QuestionProvider {
+  constructor(private fallback: QuestionProvider) {}
+
+  async drawQuestions(
+    league: ILeague,
+    count: number
+  ): Promise<SessionQuestion[]> {
+    const drawn = await questionBankService.drawSet(league, count);
+
+    if (drawn.length === 0) {
+      return this.fallback.drawQuestions(league, count);
+    }
+
+    return drawn.map(({ questionId, prompt, choices, answer }) => ({
+      questionId,
+      prompt,
+      choices,
+      answer,
+    }));
+  }
+}
+
+let provider: QuestionProvider | null = null;
+
+export const getQuestionProvider = (): QuestionProvider => {
+  if (!provider) {
+    provider = new QuestionBankProvider(new ArithmeticQuestionProvider());
+  }
+  return provider;
+};
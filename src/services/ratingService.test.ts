@@ -0,0 +1,143 @@
+import { Types } from "mongoose";
+import League from "../models/League";
+import { RatingChange } from "../models/RatingChange";
+import { User } from "../models/User";
+import { ratingService } from "./ratingService";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Users and rating changes are kept in memory instead of MongoDB
+let users: Array<{ _id: Types.ObjectId; ratings: any[] }>;
+let changes: any[];
+// Storing this user's rating fails, as if the process died
+let failingUser: Types.ObjectId | null;
+
+const completedLeague = () => {
+  const end = new Date(Date.now() - HOUR_MS);
+  const league = new League({
+    name: "Finished",
+    description: "Two players",
+    category: "math",
+    startDate: new Date(end.getTime() - HOUR_MS),
+    endDate: end,
+    createdBy: new Types.ObjectId(),
+    participants: users.map((user, index) => ({
+      userId: user._id,
+      username: `player${index}`,
+      joinedAt: new Date(),
+      submissions: [
+        { accuracy: 80 - index * 10, timeInSeconds: 60, points: 500 },
+      ],
+      bestSubmission: {
+        accuracy: 80 - index * 10,
+        timeInSeconds: 60,
+        points: 500,
+      },
+    })),
+  });
+  league.refreshStatus();
+  return league;
+};
+
+beforeEach(() => {
+  users = [0, 1].map(() => ({ _id: new Types.ObjectId(), ratings: [] }));
+  changes = [];
+  failingUser = null;
+
+  jest.spyOn(User, "find").mockReturnValue({
+    select: async () =>
+      users.map((user) => ({ ...user, ratings: [...user.ratings] })),
+  } as any);
+  jest.spyOn(User, "updateOne").mockImplementation((async (
+    filter: any,
+    update: any
+  ) => {
+    if (String(filter._id) === String(failingUser)) {
+      throw new Error("connection lost");
+    }
+    const user = users.find((u) => String(u._id) === String(filter._id))!;
+
+    if (update.$set) {
+      const { category, leagueId } = filter.ratings.$elemMatch;
+      const index = user.ratings.findIndex(
+        (r) =>
+          r.category === category && String(r.leagueId) !== String(leagueId.$ne)
+      );
+      if (index === -1) return { matchedCount: 0 };
+      user.ratings[index] = update.$set["ratings.$"];
+      return { matchedCount: 1 };
+    }
+
+    if (
+      user.ratings.some((r) => r.category === update.$push.ratings.category)
+    ) {
+      return { matchedCount: 0 };
+    }
+    user.ratings.push(update.$push.ratings);
+    return { matchedCount: 1 };
+  }) as any);
+
+  jest
+    .spyOn(RatingChange, "find")
+    .mockImplementation((async (filter: any) =>
+      changes.filter(
+        (c) => String(c.leagueId) === String(filter.leagueId)
+      )) as any);
+  jest.spyOn(RatingChange, "create").mockImplementation((async (
+    fields: any
+  ) => {
+    if (
+      changes.some(
+        (c) =>
+          String(c.userId) === String(fields.userId) &&
+          String(c.leagueId) === String(fields.leagueId)
+      )
+    ) {
+      throw Object.assign(new Error("E11000"), { code: 11000 });
+    }
+    changes.push({ ...fields });
+    return fields;
+  }) as any);
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe("ratingService.rateLeague", () => {
+  it("rates every player once", async () => {
+    const league = completedLeague();
+
+    expect(await ratingService.rateLeague(league)).toBe(2);
+    expect(await ratingService.rateLeague(league)).toBe(0);
+
+    const [winner, loser] = users.map((user) => user.ratings[0]);
+    expect(winner.rating).toBeGreaterThan(1500);
+    expect(loser.rating).toBeLessThan(1500);
+    expect([winner.leagues, loser.leagues]).toEqual([1, 1]);
+  });
+
+  it("stores a recorded change that an interrupted run did not apply", async () => {
+    const league = completedLeague();
+    failingUser = users[1]._id;
+
+    await expect(ratingService.rateLeague(league)).rejects.toThrow(
+      "connection lost"
+    );
+    expect(changes).toHaveLength(2);
+    expect(users[1].ratings).toHaveLength(0);
+    const winnerAfterFirstRun = { ...users[0].ratings[0] };
+
+    failingUser = null;
+    expect(await ratingService.rateLeague(league)).toBe(1);
+
+    expect(users[0].ratings[0]).toMatchObject({
+      rating: winnerAfterFirstRun.rating,
+      leagues: 1,
+    });
+    expect(users[1].ratings[0]).toMatchObject({
+      rating: changes[1].rating,
+      deviation: changes[1].deviation,
+      leagues: 1,
+    });
+    expect(users[1].ratings[0].rating).toBeLessThan(1500);
+  });
+});
@@ -0,0 +1,187 @@
+import { Types } from "mongoose";
+import { User } from "../models/User";
+import { RatingChange, IRatingChange } from "../models/RatingChange";
+import { DEFAULT_RATING, GlickoRating, rateStandings } from "../utils/rating";
+import { ILeague, ISkillRating, IUser } from "../types";
+
+class RatingService {
+  /**
+   * The user's rating in a category; players who were never rated there
+   * start from the default
+   */
+  ratingFor(user: IUser, category: ILeague["category"]): GlickoRating {
+    const current = (user.ratings || []).find(
+      (entry) => entry.category === category
+    );
+
+    return current
+      ? {
+          rating: current.rating,
+          deviation: current.deviation,
+          volatility: current.volatility,
+        }
+      : { ...DEFAULT_RATING };
+  }
+
+  /**
+   * Update the ratings of everyone who finished a completed league, in the
+   * league's category. Players without a score are not rated. Each change
+   * is recorded once per league and user before the user is updated, and
+   * the user's rating remembers the league it last applied, so running
+   * this again finishes an interrupted run and changes nothing else.
+   * Returns how many players were rated.
+   */
+  async rateLeague(league: ILeague): Promise<number> {
+    if (league.status !== "completed") return 0;
+
+    const leagueId = league._id as Types.ObjectId;
+    const standings: Array<{ rank: number; userId: Types.ObjectId }> =
+      league.format === "bracket"
+        ? league.getBracketPlacements()
+        : league.getLeaderboard();
+
+    if (standings.length < 2) return 0;
+
+    const [users, recorded] = await Promise.all([
+      User.find({
+        _id: { $in: standings.map((entry) => entry.userId) },
+      }).select("ratings"),
+      RatingChange.find({ leagueId }),
+    ]);
+    const userById = new Map(users.map((user) => [String(user._id), user]));
+    const changeByUser = new Map(
+      recorded.map((change) => [String(change.userId), change])
+    );
+
+    // Accounts deleted since the league ended are left out. Players already
+    // recorded by an earlier run are rated from where they stood then.
+    const players = standings
+      .filter((entry) => userById.has(String(entry.userId)))
+      .map((entry) => {
+        const current = this.ratingFor(
+          userById.get(String(entry.userId))!,
+          league.category
+        );
+        const change = changeByUser.get(String(entry.userId));
+
+        return {
+          userId: entry.userId,
+          rank: entry.rank,
+          ...current,
+          ...(change
+            ? { rating: change.ratingBefore, deviation: change.deviationBefore }
+            : {}),
+        };
+      });
+
+    if (players.length < 2) return 0;
+
+    const updated = rateStandings(players);
+    let rated = 0;
+
+    for (const [index, player] of players.entries()) {
+      const change =
+        changeByUser.get(String(player.userId)) ||
+        (await this.recordChange({
+          userId: player.userId,
+          leagueId,
+          category: league.category,
+          rank: player.rank,
+          players: players.length,
+          ratingBefore: player.rating,
+          deviationBefore: player.deviation,
+          ...updated[index],
+        }));
+
+      const previous = userById
+        .get(String(player.userId))!
+        .ratings.find((entry) => entry.category === league.category);
+
+      const stored = await this.storeRating(player.userId, {
+        category: league.category,
+        rating: change.rating,
+        deviation: change.deviation,
+        volatility: change.volatility,
+        leagues: (previous?.leagues || 0) + 1,
+        leagueId,
+        updatedAt: new Date(),
+      });
+      if (stored) rated += 1;
+    }
+
+    console.log(
+      `📈 Rated ${rated} player(s) in ${league.category} for league ${league.name}`
+    );
+
+    return rated;
+  }
+
+  /**
+   * The user's rating changes, newest first
+   */
+  async history(
+    userId: Types.ObjectId,
+    options: { category?: ILeague["category"]; limit: number }
+  ): Promise<IRatingChange[]> {
+    const query: Record<string, any> = { userId };
+    if (options.category) query.category = options.category;
+
+    return RatingChange.find(query)
+      .select("-userId -__v")
+      .populate("leagueId", "name startDate endDate")
+      .sort({ createdAt: -1 })
+      .limit(options.limit);
+  }
+
+  /**
+   * Record a rating change, or load it if a concurrent run already did
+   */
+  private async recordChange(
+    fields: Partial<IRatingChange>
+  ): Promise<IRatingChange> {
+    try {
+      return await RatingChange.create(fields);
+    } catch (error: any) {
+      if (error.code !== 11000) throw error;
+
+      const recorded = await RatingChange.findOne({
+        userId: fields.userId,
+        leagueId: fields.leagueId,
+      });
+      if (!recorded) throw error;
+      return recorded;
+    }
+  }
+
+  /**
+   * Put a league's rating on the user, unless that league was already
+   * applied. False when there was nothing to change.
+   */
+  private async storeRating(
+    userId: Types.ObjectId,
+    rating: ISkillRating
+  ): Promise<boolean> {
+    const replaced = await User.updateOne(
+      {
+        _id: userId,
+        ratings: {
+          $elemMatch: {
+            category: rating.category,
+            leagueId: { $ne: rating.leagueId },
+          },
+        },
+      },
+      { $set: { "ratings.$": rating } }
+    );
+    if (replaced.matchedCount > 0) return true;
+
+    const added = await User.updateOne(
+      { _id: userId, "ratings.category": { $ne: rating.category } },
+      { $push: { ratings: rating } }
+    );
+    return added.matchedCount > 0;
+  }
+}
+
+// Export singleton instance
+export const ratingService = new RatingService();
@@ -0,0 +1,118 @@
+import { Types } from "mongoose";
+import User from "../models/User";
+import { getLeagueRepository } from "../repositories/leagueRepository";
+import { IGameScore } from "../types";
+import { submissionReviewService } from "./submissionReviewService";
+
+process.env.LEAGUE_STORE = "memory";
+
+const HOUR_MS = 60 * 60 * 1000;
+const moderatorId = new Types.ObjectId();
+
+const suspicious: IGameScore = {
+  accuracy: 100,
+  timeInSeconds: 2,
+  points: 1500,
+  gameData: { questionsAnswered: 10, correctAnswers: 12 },
+};
+
+// A running league where one player's only score is held for review
+const leagueWithHeldScore = async () => {
+  const userId = new Types.ObjectId();
+  const league = await getLeagueRepository().create({
+    name: "Reviewed league",
+    description: "Has a flagged score",
+    startDate: new Date(Date.now() - HOUR_MS),
+    endDate: new Date(Date.now() + HOUR_MS),
+    createdBy: new Types.ObjectId(),
+    participants: [
+      {
+        userId,
+        username: "fast",
+        joinedAt: new Date(),
+        submissions: [],
+        bestSubmission: { accuracy: 0, timeInSeconds: 0, points: 0 },
+      },
+    ],
+  });
+
+  const player = new User({ _id: userId, username: "fast" });
+  const review = submissionReviewService.screen(suspicious, player);
+  league.submitScore(userId, { ...suspicious, review });
+  await getLeagueRepository().save(league);
+
+  return {
+    league,
+    userId,
+    player,
+    submissionId: String(league.participants[0].submissions[0]._id),
+  };
+};
+
+describe("submissionReviewService", () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it("holds an implausible score off the leaderboard", async () => {
+    const { league } = await leagueWithHeldScore();
+
+    expect(league.participants[0].submissions[0].review?.status).toBe(
+      "pending"
+    );
+    expect(league.getLeaderboard()).toHaveLength(0);
+  });
+
+  it("puts an approved score on the leaderboard and in the player's stats", async () => {
+    const { league, player, submissionId } = await leagueWithHeldScore();
+    jest.spyOn(User, "findById").mockResolvedValue(player);
+    jest.spyOn(player, "save").mockResolvedValue(player);
+
+    await submissionReviewService.decide(
+      league,
+      submissionId,
+      "approved",
+      moderatorId
+    );
+
+    const stored = await getLeagueRepository().findById(String(league._id));
+    expect(stored!.getLeaderboard().map((entry) => entry.points)).toEqual([
+      1500,
+    ]);
+    expect(player.stats.gamesPlayed).toBe(1);
+  });
+
+  it("only rejects held scores once the league has ended", async () => {
+    const { league, submissionId } = await leagueWithHeldScore();
+    const statsUpdate = jest.spyOn(User, "findById");
+
+    // The league ends with the score still held
+    league.endDate = new Date(Date.now() - 1000);
+    await getLeagueRepository().save(league);
+    const ended = (await getLeagueRepository().findById(String(league._id)))!;
+    expect(ended.status).toBe("completed");
+
+    await expect(
+      submissionReviewService.decide(
+        ended,
+        submissionId,
+        "approved",
+        moderatorId
+      )
+    ).rejects.toThrow("can only be rejected");
+
+    const stored = (await getLeagueRepository().findById(String(league._id)))!;
+    expect(stored.participants[0].submissions[0].review?.status).toBe(
+      "pending"
+    );
+    expect(stored.getLeaderboard()).toHaveLength(0);
+    expect(statsUpdate).not.toHaveBeenCalled();
+
+    const rejected = await submissionReviewService.decide(
+      stored,
+      submissionId,
+      "rejected",
+      moderatorId,
+      "Too fast"
+    );
+    expect(rejected?.submission.review?.status).toBe("rejected");
+  });
+});
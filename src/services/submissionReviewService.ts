@@ -0,0 +1,117 @@
+import { Types } from "mongoose";
+import { User } from "../models/User";
+import { getLeagueRepository } from "../repositories/leagueRepository";
+import { assessSubmission } from "../utils/anomaly";
+import {
+  IGameScore,
+  ILeague,
+  ISubmissionReview,
+  IUser,
+  SubmissionReviewStatus,
+} from "../types";
+
+export interface ReviewQueueItem {
+  leagueId: Types.ObjectId;
+  leagueName: string;
+  userId: Types.ObjectId;
+  username: string;
+  submissionId: Types.ObjectId;
+  submission: IGameScore;
+  review: ISubmissionReview;
+}
+
+class SubmissionReviewService {
+  private get config() {
+    return {
+      // Suspicion (0-100) from which a submission is held for review
+      flagThreshold: Number(process.env.ANOMALY_FLAG_THRESHOLD) || 50,
+    };
+  }
+
+  /**
+   * Check a submission against the anomaly rules, using the player's
+   * stats from before it. Returns the review to hold it with, or null when
+   * it looks fine.
+   */
+  screen(score: IGameScore, user: IUser): ISubmissionReview | null {
+    const { suspicion, findings } = assessSubmission(score, user.stats);
+
+    if (suspicion < this.config.flagThreshold) return null;
+
+    return {
+      status: "pending",
+      suspicion,
+      findings,
+      flaggedAt: new Date(),
+    };
+  }
+
+  /**
+   * Flagged submissions with the given status, oldest flag first
+   */
+  async queue(
+    status: SubmissionReviewStatus,
+    { skip, limit }: { skip: number; limit: number }
+  ): Promise<{ items: ReviewQueueItem[]; total: number }> {
+    const leagues = await getLeagueRepository().listWithReviews(status);
+
+    const items = leagues
+      .flatMap((league) =>
+        league.participants.flatMap((participant) =>
+          participant.submissions
+            .filter((submission) => submission.review?.status === status)
+            .map((submission) => ({
+              leagueId: league._id as Types.ObjectId,
+              leagueName: league.name,
+              userId: participant.userId,
+              username: participant.username,
+              submissionId: submission._id!,
+              submission,
+              review: submission.review!,
+            }))
+        )
+      )
+      .sort(
+        (a, b) => a.review.flaggedAt.getTime() - b.review.flaggedAt.getTime()
+      );
+
+    return { items: items.slice(skip, skip + limit), total: items.length };
+  }
+
+  /**
+   * Approve or reject a flagged submission. An approved submission enters
+   * the leaderboard and the player's stats. Null if the league or the
+   * submission does not exist.
+   */
+  async decide(
+    league: ILeague,
+    submissionId: string,
+    decision: "approved" | "rejected",
+    decidedBy: Types.ObjectId,
+    note?: string
+  ): Promise<{ userId: Types.ObjectId; submission: IGameScore } | null> {
+    const decided = league.reviewSubmission(
+      submissionId,
+      decision,
+      decidedBy,
+      note
+    );
+
+    if (!decided) return null;
+
+    await getLeagueRepository().save(league);
+
+    if (decision === "approved") {
+      const user = await User.findById(decided.userId);
+      if (user) {
+        user.updateStats(decided.submission);
+        await user.save();
+      }
+    }
+
+    return decided;
+  }
+}
+
+// Export singleton instance
+export const submissionReviewService = new SubmissionReviewService();
@@ -0,0 +1,109 @@
+import { Types } from "mongoose";
+import { RefreshToken } from "../models/RefreshToken";
+import { User } from "../models/User";
+import { tokenService } from "./tokenService";
+
+// Refresh tokens are kept in memory instead of MongoDB
+let stored: any[];
+
+const matches = (doc: any, filter: Record<string, any>) =>
+  Object.entries(filter).every(([key, value]) => {
+    if (value === null) return doc[key] == null;
+    if (value.$gt) return doc[key] > value.$gt;
+    if (value.$ne) return doc[key] !== value.$ne;
+    return String(doc[key]) === String(value);
+  });
+
+const user = new User({
+  _id: new Types.ObjectId(),
+  username: "sessions",
+  email: "sessions@example.com",
+  password: "not-used-here",
+});
+
+beforeEach(() => {
+  stored = [];
+
+  jest.spyOn(RefreshToken, "create").mockImplementation((async (doc: any) => {
+    stored.push({ ...doc });
+    return doc;
+  }) as any);
+  jest
+    .spyOn(RefreshToken, "findOne")
+    .mockImplementation(
+      (async (filter: any) =>
+        stored.find((t) => matches(t, filter)) || null) as any
+    );
+  jest.spyOn(RefreshToken, "findOneAndUpdate").mockImplementation((async (
+    filter: any,
+    update: any
+  ) => {
+    const token = stored.find((t) => matches(t, filter));
+    if (!token) return null;
+    const before = { ...token };
+    Object.assign(token, update);
+    return before;
+  }) as any);
+  jest.spyOn(RefreshToken, "updateMany").mockImplementation((async (
+    filter: any,
+    update: any
+  ) => {
+    const tokens = stored.filter((t) => matches(t, filter));
+    tokens.forEach((t) => Object.assign(t, update));
+    return { modifiedCount: tokens.length };
+  }) as any);
+  jest
+    .spyOn(RefreshToken, "exists")
+    .mockImplementation((async (filter: any) =>
+      stored.some((t) => matches(t, filter))) as any);
+  jest.spyOn(User, "findById").mockResolvedValue(user);
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe("tokenService.rotateRefreshToken", () => {
+  it("hands out a new refresh token for the same session", async () => {
+    const issued = await tokenService.issueTokens(user);
+    const sessionId = tokenService.verifyAccessToken(issued.token).sid;
+
+    const { tokens } = await tokenService.rotateRefreshToken(
+      issued.refreshToken
+    );
+
+    expect(tokens.refreshToken).not.toBe(issued.refreshToken);
+    expect(tokenService.verifyAccessToken(tokens.token).sid).toBe(sessionId);
+    expect(await tokenService.isSessionActive(sessionId)).toBe(true);
+  });
+
+  it("revokes the whole session when a rotated token is used again", async () => {
+    const issued = await tokenService.issueTokens(user);
+    const sessionId = tokenService.verifyAccessToken(issued.token).sid;
+    const { tokens } = await tokenService.rotateRefreshToken(
+      issued.refreshToken
+    );
+
+    await expect(
+      tokenService.rotateRefreshToken(issued.refreshToken)
+    ).rejects.toThrow("reuse detected");
+
+    expect(await tokenService.isSessionActive(sessionId)).toBe(false);
+    // The token the legitimate client holds is gone as well
+    await expect(
+      tokenService.rotateRefreshToken(tokens.refreshToken)
+    ).rejects.toThrow("Invalid or expired refresh token");
+  });
+
+  it("leaves other sessions alone when one is revoked", async () => {
+    const stolen = await tokenService.issueTokens(user);
+    const other = await tokenService.issueTokens(user);
+    await tokenService.rotateRefreshToken(stolen.refreshToken);
+
+    await expect(
+      tokenService.rotateRefreshToken(stolen.refreshToken)
+    ).rejects.toThrow("reuse detected");
+
+    const otherSession = tokenService.verifyAccessToken(other.token).sid;
+    expect(await tokenService.isSessionActive(otherSession)).toBe(true);
+  });
+});
@@ -0,0 +1,299 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { RefreshToken } from "../models/RefreshToken";
+import { User } from "../models/User";
+import { IUser } from "../types";
+import { generateToken, hashToken } from "../utils/tokens";
+
+export interface SessionMeta {
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface IssuedTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number; // access token lifetime in seconds
+  refreshTokenExpiresAt: Date;
+}
+
+export interface AccessTokenPayload {
+  userId: string;
+  sid: string; // session (refresh token family) id
+  type: "access";
+  imp?: string; // id of the admin impersonating the user
+}
+
+export interface ImpersonationTokens {
+  token: string;
+  sessionId: string;
+  expiresIn: number;
+  expiresAt: Date;
+}
+
+export const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60;
+
+class TokenService {
+  private get secret(): string {
+    return process.env.JWT_SECRET || "default-secret";
+  }
+
+  private get accessTokenTtlSeconds(): number {
+    return parseInt(process.env.ACCESS_TOKEN_TTL_MINUTES || "15") * 60;
+  }
+
+  private get impersonationTtlSeconds(): number {
+    return parseInt(process.env.IMPERSONATION_TTL_MINUTES || "15") * 60;
+  }
+
+  private get refreshTokenTtlMs(): number {
+    return (
+      parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || "30") * 24 * 60 * 60 * 1000
+    );
+  }
+
+  /**
+   * Start a new session: store a refresh token and sign an access token
+   */
+  async issueTokens(
+    user: IUser,
+    meta: SessionMeta = {}
+  ): Promise<IssuedTokens> {
+    const family = crypto.randomUUID();
+    return this.createSessionTokens(String(user._id), family, meta);
+  }
+
+  /**
+   * Start an impersonation session: an admin gets an access token for
+   * another user. There is no refresh token, so the session simply ends
+   * when the token expires; it can be revoked like any other session.
+   */
+  async issueImpersonationToken(
+    userId: string,
+    adminId: string,
+    meta: SessionMeta = {}
+  ): Promise<ImpersonationTokens> {
+    const family = crypto.randomUUID();
+    const expiresIn = this.impersonationTtlSeconds;
+    const expiresAt = new Date(Date.now() + expiresIn * 1000);
+
+    // Keeps the session visible to isSessionActive / revokeSession. The
+    // raw token is thrown away, so it can never be used to refresh.
+    await RefreshToken.create({
+      userId,
+      family,
+      tokenHash: hashToken(generateToken()),
+      expiresAt,
+      createdByIp: meta.ip,
+      userAgent: meta.userAgent,
+      impersonatedBy: adminId,
+    });
+
+    const payload: AccessTokenPayload = {
+      userId,
+      sid: family,
+      type: "access",
+      imp: adminId,
+    };
+
+    return {
+      token: jwt.sign(payload, this.secret, { expiresIn }),
+      sessionId: family,
+      expiresIn,
+      expiresAt,
+    };
+  }
+
+  /**
+   * Sign a short-lived access token bound to a session
+   */
+  signAccessToken(userId: string, sessionId: string): string {
+    const payload: AccessTokenPayload = {
+      userId,
+      sid: sessionId,
+      type: "access",
+    };
+
+    return jwt.sign(payload, this.secret, {
+      expiresIn: this.accessTokenTtlSeconds,
+    });
+  }
+
+  /**
+   * Verify an access token. Throws the usual jsonwebtoken errors, so
+   * callers can keep distinguishing expired from invalid tokens.
+   */
+  verifyAccessToken(token: string): AccessTokenPayload {
+    const decoded = jwt.verify(
+      token,
+      this.secret
+    ) as Partial<AccessTokenPayload>;
+
+    if (decoded.type !== "access" || !decoded.userId || !decoded.sid) {
+      throw new jwt.JsonWebTokenError("invalid token type");
+    }
+
+    return decoded as AccessTokenPayload;
+  }
+
+  /**
+   * Sign the short-lived token handed out after a correct password when
+   * the account still needs a second factor
+   */
+  signTwoFactorChallenge(userId: string): string {
+    return jwt.sign({ userId, type: "2fa_challenge" }, this.secret, {
+      expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS,
+    });
+  }
+
+  verifyTwoFactorChallenge(token: string): { userId: string } {
+    const decoded = jwt.verify(token, this.secret) as {
+      userId?: string;
+      type?: string;
+    };
+
+    if (decoded.type !== "2fa_challenge" || !decoded.userId) {
+      throw new jwt.JsonWebTokenError("invalid token type");
+    }
+
+    return { userId: decoded.userId };
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair. A token that was
+   * already rotated is treated as stolen and kills the whole session.
+   */
+  async rotateRefreshToken(
+    rawToken: string,
+    meta: SessionMeta = {}
+  ): Promise<{ user: IUser; tokens: IssuedTokens }> {
+    const tokenHash = hashToken(rawToken);
+    const nextRawToken = generateToken();
+    const nextHash = hashToken(nextRawToken);
+
+    // Atomically claim the token so two concurrent refreshes cannot both win
+    const current = await RefreshToken.findOneAndUpdate(
+      { tokenHash, revokedAt: null, expiresAt: { $gt: new Date() } },
+      {
+        revokedAt: new Date(),
+        revokedReason: "rotated",
+        replacedByHash: nextHash,
+      }
+    );
+
+    if (!current) {
+      const existing = await RefreshToken.findOne({ tokenHash });
+
+      if (existing && existing.revokedReason === "rotated") {
+        console.warn(
+          `⚠️ Refresh token reuse detected for session ${existing.family}`
+        );
+        await this.revokeSession(existing.family, "reuse_detected");
+        throw new Error("Refresh token reuse detected, session revoked");
+      }
+
+      throw new Error("Invalid or expired refresh token");
+    }
+
+    const user = await User.findById(current.userId);
+
+    if (!user || !user.isActive) {
+      await this.revokeSession(current.family, "user_inactive");
+      throw new Error("User account is not available");
+    }
+
+    const tokens = await this.createSessionTokens(
+      String(user._id),
+      current.family,
+      meta,
+      nextRawToken
+    );
+
+    return { user, tokens };
+  }
+
+  /**
+   * Check whether a session still has a live refresh token
+   */
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    const active = await RefreshToken.exists({
+      family: sessionId,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    });
+
+    return !!active;
+  }
+
+  /**
+   * Look up the session a refresh token belongs to
+   */
+  async findSessionByRefreshToken(rawToken: string): Promise<string | null> {
+    const token = await RefreshToken.findOne({
+      tokenHash: hashToken(rawToken),
+    });
+    return token ? token.family : null;
+  }
+
+  /**
+   * Revoke every token in a session (logout)
+   */
+  async revokeSession(
+    sessionId: string,
+    reason: string = "logout"
+  ): Promise<void> {
+    await RefreshToken.updateMany(
+      { family: sessionId, revokedAt: null },
+      { revokedAt: new Date(), revokedReason: reason }
+    );
+  }
+
+  /**
+   * Revoke every session of a user ("log out everywhere"), optionally
+   * keeping the session the request came from
+   */
+  async revokeAllSessions(
+    userId: string,
+    reason: string = "logout_all",
+    exceptSessionId?: string
+  ): Promise<number> {
+    const result = await RefreshToken.updateMany(
+      {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId && { family: { $ne: exceptSessionId } }),
+      },
+      { revokedAt: new Date(), revokedReason: reason }
+    );
+
+    return result.modifiedCount;
+  }
+
+  private async createSessionTokens(
+    userId: string,
+    family: string,
+    meta: SessionMeta,
+    rawRefreshToken: string = generateToken()
+  ): Promise<IssuedTokens> {
+    const refreshTokenExpiresAt = new Date(Date.now() + this.refreshTokenTtlMs);
+
+    await RefreshToken.create({
+      userId,
+      family,
+      tokenHash: hashToken(rawRefreshToken),
+      expiresAt: refreshTokenExpiresAt,
+      createdByIp: meta.ip,
+      userAgent: meta.userAgent,
+    });
+
+    return {
+      token: this.signAccessToken(userId, family),
+      refreshToken: rawRefreshToken,
+      expiresIn: this.accessTokenTtlSeconds,
+      refreshTokenExpiresAt,
+    };
+  }
+}
+
+// Export singleton instance
+export const tokenService = new TokenService();
@@ -0,0 +1,137 @@
+import crypto from "crypto";
+import { IUser } from "../types";
+import { hashToken } from "../utils/tokens";
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from "../utils/totp";
+
+const RECOVERY_CODE_COUNT = 10;
+
+export type SecondFactorMethod = "totp" | "recovery_code";
+
+class TwoFactorService {
+  private get issuer(): string {
+    return process.env.TOTP_ISSUER || "50cube";
+  }
+
+  /**
+   * Create a pending secret; it only becomes active once a code is confirmed
+   */
+  async beginEnrollment(
+    user: IUser
+  ): Promise<{ secret: string; otpauthUri: string }> {
+    if (user.twoFactor?.enabled) {
+      throw new Error("Two-factor authentication is already enabled");
+    }
+
+    const secret = generateTotpSecret();
+    user.set("twoFactor.pendingSecret", secret);
+    await user.save();
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email, this.issuer),
+    };
+  }
+
+  /**
+   * Confirm enrollment with a code from the authenticator app.
+   * Returns the recovery codes, which are only ever shown this once.
+   */
+  async confirmEnrollment(user: IUser, code: string): Promise<string[]> {
+    const pendingSecret = user.twoFactor?.pendingSecret;
+
+    if (!pendingSecret) {
+      throw new Error("Start two-factor setup first");
+    }
+
+    const step = verifyTotp(pendingSecret, code);
+    if (step === null) {
+      throw new Error("Invalid authentication code");
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+
+    user.set("twoFactor", {
+      enabled: true,
+      secret: pendingSecret,
+      pendingSecret: undefined,
+      recoveryCodes: recoveryCodes.map((c) => hashToken(c)),
+      lastUsedStep: step,
+      enabledAt: new Date(),
+    });
+    await user.save();
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Check a TOTP code or a single-use recovery code
+   */
+  async verify(user: IUser, code: string): Promise<SecondFactorMethod | null> {
+    const { enabled, secret, lastUsedStep, recoveryCodes } =
+      user.twoFactor || {};
+
+    if (!enabled || !secret) return null;
+
+    const step = verifyTotp(secret, code);
+
+    // A code can only be used once, even inside its validity window
+    if (step !== null && step > (lastUsedStep || 0)) {
+      user.set("twoFactor.lastUsedStep", step);
+      await user.save();
+      return "totp";
+    }
+
+    const codeHash = hashToken(this.normalizeRecoveryCode(code));
+    if (recoveryCodes?.includes(codeHash)) {
+      user.set(
+        "twoFactor.recoveryCodes",
+        recoveryCodes.filter((hash) => hash !== codeHash)
+      );
+      await user.save();
+      return "recovery_code";
+    }
+
+    return null;
+  }
+
+  async regenerateRecoveryCodes(user: IUser): Promise<string[]> {
+    const recoveryCodes = this.generateRecoveryCodes();
+
+    user.set(
+      "twoFactor.recoveryCodes",
+      recoveryCodes.map((c) => hashToken(c))
+    );
+    await user.save();
+
+    return recoveryCodes;
+  }
+
+  async disable(user: IUser): Promise<void> {
+    user.set("twoFactor", {
+      enabled: false,
+      recoveryCodes: [],
+      lastUsedStep: 0,
+    });
+    await user.save();
+  }
+
+  remainingRecoveryCodes(user: IUser): number {
+    return user.twoFactor?.recoveryCodes?.length || 0;
+  }
+
+  // Codes look like "a1b2c-3d4e5"
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString("hex");
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+  }
+
+  private normalizeRecoveryCode(code: string): string {
+    const cleaned = code.replace(/[\s-]/g, "").toLowerCase();
+    return `${cleaned.slice(0, 5)}-${cleaned.slice(5)}`;
+  }
+}
+
+// Export singleton instance
+export const twoFactorService = new TwoFactorService();
@@ -1,10 +1,16 @@
 import { Document, Types } from "mongoose";
 
 // User related interfaces
+export type UserRole = "user" | "organizer" | "moderator" | "admin";
+
 export interface IUser extends Document {
   username: string;
   email: string;
+  emailVerified: boolean;
+  emailVerifiedAt?: Date;
+  pendingEmail?: string;
   password: string;
+  role: UserRole;
   credits: number;
   totalPoints: number;
   stats: {
@@ -18,6 +24,32 @@ export interface IUser extends Document {
     purchasedAt: Date;
     downloadCount: number;
   }>;
+  twoFactor: {
+    enabled: boolean;
+    secret?: string;
+    pendingSecret?: string;
+    recoveryCodes: string[];
+    lastUsedStep: number;
+    enabledAt?: Date;
+  };
+  // External (OpenID Connect) accounts that can sign in as this user
+  identities: Array<{
+    issuer: string;
+    subject: string;
+    email?: string;
+    linkedAt: Date;
+  }>;
+  // Badges won as league prizes
+  badges: Array<{
+    name: string;
+    leagueId: Types.ObjectId;
+    rank: number;
+    awardedAt: Date;
+  }>;
+  // Glicko-2 rating per league category, from league finishing positions
+  ratings: Array<ISkillRating>;
+  // Credit transactions already added to the balance
+  appliedCredits?: Types.ObjectId[];
   isActive: boolean;
   lastLoginAt: Date;
   createdAt: Date;
@@ -30,6 +62,18 @@ export interface IUser extends Document {
   ownsReader(readerId: Types.ObjectId): boolean;
 }
 
+export interface ISkillRating {
+  category: ILeague["category"];
+  rating: number;
+  deviation: number;
+  volatility: number;
+  // Rated leagues played in this category
+  leagues: number;
+  // The last league applied, so a retried rating lands once
+  leagueId?: Types.ObjectId;
+  updatedAt: Date;
+}
+
 // League related interfaces
 export interface ILeague extends Document {
   name: string;
@@ -45,21 +89,67 @@ export interface ILeague extends Document {
     badge?: string;
   }>;
   rules: {
-    scoringMethod: "accuracy_then_time" | "time_then_accuracy" | "points_only";
+    scoringMethod: ScoringMethod;
+    // "weighted": accuracy × accuracy weight − time × time weight + points ×
+    // points weight
+    scoringWeights: { accuracy: number; time: number; points: number };
+    // "best_n_average": submissions averaged
+    bestOf: number;
     maxSubmissions: number;
     skillLevel: "beginner" | "intermediate" | "advanced" | "expert";
+    // Applied in order when the scoring method ranks two players equal
+    tieBreakers: TieBreaker[];
+    rankingConvention: RankingConvention;
+    // Rank players whose best score is 0 points instead of leaving them out
+    includeZeroPoints: boolean;
+  };
+  // Team leagues: players join a team and teams are ranked as well
+  mode: "individual" | "team";
+  teamSettings: {
+    maxTeamSize: number;
+    aggregation: TeamScoreAggregation;
+    // Members counted by "top_n"
+    topN: number;
   };
+  teams: Array<ILeagueTeam>;
+  // Knockout leagues: players are seeded into a bracket and play matches
+  format: "standard" | "bracket";
+  bracketSettings: {
+    seeding: "rating" | "qualifying";
+    // Length of the qualifying round after startDate
+    qualifyingHours: number;
+    roundHours: number;
+  };
+  bracket?: ILeagueBracket | null;
   participants: Array<{
     userId: Types.ObjectId;
     username: string;
+    teamId?: Types.ObjectId | null;
     joinedAt: Date;
     submissions: Array<IGameScore>;
     bestSubmission: IGameScore;
     currentRank?: number;
   }>;
   status: "upcoming" | "active" | "completed" | "cancelled";
+  // Private leagues are joined with an invite code or an approved request
+  invites: Array<ILeagueInvite>;
+  joinRequests: Array<ILeagueJoinRequest>;
+  cancelledAt?: Date;
+  cancellationReason?: string;
+  // Prizes awarded once the league completed; set exactly once
+  payout?: {
+    awards: Array<ILeaguePrizeAward>;
+    createdAt: Date;
+    paidAt?: Date | null;
+  } | null;
+  // When the final standings were applied to player ratings
+  ratedAt?: Date | null;
+  // When each lifecycle hook fired; each one fires once per league
+  lifecycleEvents: Record<LeagueLifecycleEvent, Date | null>;
   category: "math" | "science" | "language" | "general" | "mixed";
   isPublic: boolean;
+  // Recurring template this league was created from
+  templateId?: Types.ObjectId | null;
   createdBy: Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
@@ -70,10 +160,119 @@ export interface ILeague extends Document {
   durationInDays: number;
 
   // Methods
-  addParticipant(userId: Types.ObjectId, username: string): Promise<ILeague>;
-  submitScore(userId: Types.ObjectId, scoreData: IGameScore): Promise<ILeague>;
+  addParticipant(
+    userId: Types.ObjectId,
+    username: string,
+    options?: LeagueJoinOptions
+  ): LeagueJoinResult;
+  checkAccess(
+    userId: Types.ObjectId,
+    inviteCode?: string
+  ): ILeagueInvite | null;
+  resolveTeam(
+    userId: Types.ObjectId,
+    options: LeagueJoinOptions
+  ): { team: ILeagueTeam | null; teamCreated: boolean };
+  submitScore(userId: Types.ObjectId, scoreData: IGameScore): void;
+  reviewSubmission(
+    submissionId: string,
+    decision: "approved" | "rejected",
+    decidedBy: Types.ObjectId,
+    note?: string
+  ): { userId: Types.ObjectId; submission: IGameScore } | null;
+  refreshStatus(): void;
+  checkConsistency(): string | null;
   isBetterScore(newScore: IGameScore, currentBest: IGameScore): boolean;
   getLeaderboard(): Array<ILeaderboardEntry>;
+  getTeamLeaderboard(): Array<ITeamLeaderboardEntry>;
+  bracketDrawAt(): Date;
+  drawBracket(seeds: Array<IBracketSlot>, now: Date): void;
+  decideMatch(round: IBracketRound, match: IBracketMatch, now: Date): void;
+  advanceBracket(now: Date): boolean;
+  submitBracketScore(
+    userId: Types.ObjectId,
+    scoreData: IGameScore,
+    now?: Date
+  ): IBracketMatch;
+  getBracketPlacements(): Array<IBracketPlacement>;
+}
+
+export type TeamScoreAggregation = "sum" | "average" | "top_n";
+
+export type ScoringMethod =
+  | "accuracy_then_time"
+  | "time_then_accuracy"
+  | "points_only"
+  | "weighted"
+  | "best_n_average"
+  | "cumulative_points";
+
+// How players still tied after every tie-breaker are numbered:
+// "standard" 1-2-2-4, "dense" 1-2-2-3, "ordinal" 1-2-3-4
+export type RankingConvention = "standard" | "dense" | "ordinal";
+
+export type TieBreaker =
+  | "earliest_submission"
+  | "fewest_submissions"
+  | "higher_accuracy"
+  | "faster_time"
+  | "more_points";
+
+export interface ILeagueTeam {
+  _id?: Types.ObjectId;
+  name: string;
+  captainId: Types.ObjectId;
+  createdAt: Date;
+}
+
+export interface LeagueJoinOptions {
+  inviteCode?: string;
+  // Team leagues: join an existing team or start a new one
+  teamId?: string;
+  teamName?: string;
+  // The player's rating in the league's category, checked against the
+  // league's skill level
+  rating?: number;
+}
+
+// What a join used or created, so storage can repeat it atomically
+export interface LeagueJoinResult {
+  invite: ILeagueInvite | null;
+  team: ILeagueTeam | null;
+  teamCreated: boolean;
+  // The rating the skill level was checked against
+  rating: number;
+}
+
+export interface ILeagueInvite {
+  code: string;
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+  expiresAt?: Date | null;
+  maxUses?: number | null;
+  uses: number;
+  revokedAt?: Date | null;
+}
+
+export interface ILeagueJoinRequest {
+  _id?: Types.ObjectId;
+  userId: Types.ObjectId;
+  username: string;
+  message?: string;
+  status: "pending" | "approved" | "rejected";
+  requestedAt: Date;
+  decidedAt?: Date;
+  decidedBy?: Types.ObjectId;
+}
+
+export type LeagueLifecycleEvent = "started" | "closingSoon" | "completed";
+
+export interface ILeaguePrizeAward {
+  userId: Types.ObjectId;
+  username: string;
+  rank: number;
+  credits: number;
+  badge?: string;
 }
 
 // Reader related interfaces
@@ -145,6 +344,7 @@ export interface IReader extends Document {
 
 // Common interfaces
 export interface IGameScore {
+  _id?: Types.ObjectId;
   accuracy: number;
   timeInSeconds: number;
   points: number;
@@ -155,6 +355,21 @@ export interface IGameScore {
     gameMode?: string;
     difficulty?: string;
   };
+  // Set when the submission looked suspicious; held off the leaderboard
+  // until a moderator approves it
+  review?: ISubmissionReview | null;
+}
+
+export type SubmissionReviewStatus = "pending" | "approved" | "rejected";
+
+export interface ISubmissionReview {
+  status: SubmissionReviewStatus;
+  suspicion: number;
+  findings: Array<{ rule: string; weight: number; detail: string }>;
+  flaggedAt: Date;
+  decidedAt?: Date | null;
+  decidedBy?: Types.ObjectId | null;
+  note?: string;
 }
 
 export interface ILeaderboardEntry {
@@ -164,10 +379,73 @@ export interface ILeaderboardEntry {
   accuracy: number;
   timeInSeconds: number;
   points: number;
+  // Weighted score, for leagues scored with "weighted"
+  score?: number;
   submittedAt?: Date;
   submissions?: number;
 }
 
+export interface IBracketSlot {
+  userId: Types.ObjectId;
+  username: string;
+  seed: number;
+}
+
+export interface IBracketMatch {
+  _id?: Types.ObjectId;
+  slot: number;
+  playerA: IBracketSlot | null;
+  playerB: IBracketSlot | null;
+  scoreA: IGameScore | null;
+  scoreB: IGameScore | null;
+  winnerId: Types.ObjectId | null;
+  // score: better submission; walkover: only one player submitted;
+  // seed: neither submitted or a tie; bye: no opponent
+  decidedBy?: "score" | "walkover" | "seed" | "bye" | null;
+  decidedAt?: Date | null;
+}
+
+export interface IBracketRound {
+  round: number;
+  startsAt: Date;
+  endsAt: Date;
+  decidedAt?: Date | null;
+  matches: Array<IBracketMatch>;
+}
+
+export interface ILeagueBracket {
+  drawnAt: Date;
+  size: number;
+  rounds: Array<IBracketRound>;
+  championId?: Types.ObjectId | null;
+  completedAt?: Date | null;
+}
+
+export interface IBracketPlacement {
+  rank: number;
+  userId: Types.ObjectId;
+  username: string;
+  seed: number;
+  // Round the player went out in; null for the champion
+  eliminatedInRound: number | null;
+}
+
+export interface ITeamLeaderboardEntry {
+  rank: number;
+  teamId: Types.ObjectId;
+  name: string;
+  score: number;
+  memberCount: number;
+  members: Array<{
+    userId: Types.ObjectId;
+    username: string;
+    points: number;
+    // The scoring method's score, for methods that have one
+    score?: number;
+    counted: boolean;
+  }>;
+}
+
 export interface IDownloadToken {
   token: string;
   expires: number;
@@ -0,0 +1,117 @@
+import { IUser } from "../types";
+import { assessSubmission } from "./anomaly";
+
+const newcomer: IUser["stats"] = {
+  gamesPlayed: 0,
+  averageAccuracy: 0,
+  averageTime: 0,
+  bestScore: 0,
+};
+
+const regular: IUser["stats"] = {
+  gamesPlayed: 20,
+  averageAccuracy: 50,
+  averageTime: 120,
+  bestScore: 400,
+};
+
+const rulesHit = (result: ReturnType<typeof assessSubmission>) =>
+  result.findings.map((finding) => finding.rule);
+
+describe("assessSubmission", () => {
+  it("finds nothing in an ordinary game", () => {
+    const result = assessSubmission(
+      {
+        accuracy: 70,
+        timeInSeconds: 90,
+        points: 450,
+        gameData: { questionsAnswered: 10, correctAnswers: 7 },
+      },
+      regular
+    );
+
+    expect(result).toEqual({ suspicion: 0, findings: [] });
+  });
+
+  it("flags answers that do not add up", () => {
+    const result = assessSubmission(
+      {
+        accuracy: 100,
+        timeInSeconds: 60,
+        points: 500,
+        gameData: { questionsAnswered: 10, correctAnswers: 12 },
+      },
+      newcomer
+    );
+
+    expect(rulesHit(result)).toEqual(["inconsistent_answers"]);
+    expect(result.suspicion).toBe(60);
+  });
+
+  it("flags accuracy the answers cannot support", () => {
+    const result = assessSubmission(
+      {
+        accuracy: 90,
+        timeInSeconds: 60,
+        points: 500,
+        gameData: { questionsAnswered: 10, correctAnswers: 5 },
+      },
+      newcomer
+    );
+
+    expect(rulesHit(result)).toEqual(["accuracy_mismatch"]);
+  });
+
+  it("flags games answered faster than anyone can read", () => {
+    expect(
+      rulesHit(
+        assessSubmission(
+          {
+            accuracy: 80,
+            timeInSeconds: 5,
+            points: 300,
+            gameData: { questionsAnswered: 10, correctAnswers: 8 },
+          },
+          newcomer
+        )
+      )
+    ).toEqual(["superhuman_time"]);
+
+    expect(
+      rulesHit(
+        assessSubmission(
+          { accuracy: 80, timeInSeconds: 2, points: 300 },
+          newcomer
+        )
+      )
+    ).toEqual(["superhuman_time"]);
+  });
+
+  it("only compares against a history of at least five games", () => {
+    const leap = { accuracy: 100, timeInSeconds: 20, points: 2000 };
+
+    expect(
+      assessSubmission(leap, { ...regular, gamesPlayed: 4 }).findings
+    ).toEqual([]);
+    expect(rulesHit(assessSubmission(leap, regular))).toEqual([
+      "accuracy_jump",
+      "time_jump",
+      "points_jump",
+    ]);
+  });
+
+  it("caps the suspicion at 100", () => {
+    const result = assessSubmission(
+      {
+        accuracy: 100,
+        timeInSeconds: 2,
+        points: 5000,
+        gameData: { questionsAnswered: 10, correctAnswers: 12 },
+      },
+      regular
+    );
+
+    expect(result.findings.length).toBeGreaterThan(2);
+    expect(result.suspicion).toBe(100);
+  });
+});
@@ -0,0 +1,159 @@
+import { IGameScore, IUser } from "../types";
+
+// Suspicion rules for score submissions. Each rule looks at one
+// submission, with the player's stats from before it, and adds a weight
+// when it finds something implausible. The weights add up to a suspicion
+// score from 0 to 100.
+
+export interface AnomalyFinding {
+  rule: string;
+  weight: number;
+  detail: string;
+}
+
+export interface AnomalyAssessment {
+  suspicion: number;
+  findings: AnomalyFinding[];
+}
+
+export interface AnomalyRule {
+  name: string;
+  check(
+    score: IGameScore,
+    stats: IUser["stats"]
+  ): { weight: number; detail: string } | null;
+}
+
+// Fastest plausible time to read and answer one question
+const MIN_SECONDS_PER_ANSWER = 1;
+// Fastest plausible game when the submission says nothing about answers
+const MIN_SECONDS_PER_GAME = 3;
+// Games a player needs before their history counts as a baseline
+const BASELINE_GAMES = 5;
+
+export const ANOMALY_RULES: AnomalyRule[] = [
+  {
+    name: "inconsistent_answers",
+    check: ({ gameData }) => {
+      const answered = gameData?.questionsAnswered;
+      const correct = gameData?.correctAnswers;
+
+      return answered !== undefined &&
+        correct !== undefined &&
+        correct > answered
+        ? {
+            weight: 60,
+            detail: `${correct} correct answers out of ${answered} answered`,
+          }
+        : null;
+    },
+  },
+  {
+    // Unanswered questions can pull accuracy below the answers, never above
+    name: "accuracy_mismatch",
+    check: ({ accuracy, gameData }) => {
+      const answered = gameData?.questionsAnswered;
+      const correct = gameData?.correctAnswers;
+      if (!answered || correct === undefined) return null;
+
+      const supported = (Math.min(correct, answered) / answered) * 100;
+
+      return accuracy > supported + 1
+        ? {
+            weight: 50,
+            detail: `accuracy ${accuracy}% but ${correct}/${answered} answers correct`,
+          }
+        : null;
+    },
+  },
+  {
+    name: "points_without_correct_answers",
+    check: ({ points, accuracy, gameData }) =>
+      points > 0 && (accuracy === 0 || gameData?.correctAnswers === 0)
+        ? { weight: 40, detail: `${points} points without a correct answer` }
+        : null,
+  },
+  {
+    name: "superhuman_time",
+    check: ({ timeInSeconds, gameData }) => {
+      const answered = gameData?.questionsAnswered;
+
+      if (answered) {
+        const perAnswer = timeInSeconds / answered;
+        return perAnswer < MIN_SECONDS_PER_ANSWER
+          ? {
+              weight: 60,
+              detail: `${perAnswer.toFixed(2)}s per answer`,
+            }
+          : null;
+      }
+
+      return timeInSeconds < MIN_SECONDS_PER_GAME
+        ? { weight: 40, detail: `finished in ${timeInSeconds}s` }
+        : null;
+    },
+  },
+  {
+    name: "accuracy_jump",
+    check: ({ accuracy }, stats) =>
+      stats.gamesPlayed >= BASELINE_GAMES &&
+      accuracy - stats.averageAccuracy > 40
+        ? {
+            weight: 25,
+            detail: `accuracy ${accuracy}% against an average of ${Math.round(
+              stats.averageAccuracy
+            )}%`,
+          }
+        : null,
+  },
+  {
+    name: "time_jump",
+    check: ({ timeInSeconds }, stats) =>
+      stats.gamesPlayed >= BASELINE_GAMES &&
+      stats.averageTime > 0 &&
+      timeInSeconds < stats.averageTime * 0.25
+        ? {
+            weight: 25,
+            detail: `${timeInSeconds}s against an average of ${Math.round(
+              stats.averageTime
+            )}s`,
+          }
+        : null,
+  },
+  {
+    name: "points_jump",
+    check: ({ points }, stats) =>
+      stats.gamesPlayed >= BASELINE_GAMES &&
+      stats.bestScore > 0 &&
+      points > stats.bestScore * 3
+        ? {
+            weight: 25,
+            detail: `${points} points against a best of ${stats.bestScore}`,
+          }
+        : null,
+  },
+];
+
+/**
+ * Run every rule against a submission
+ */
+export const assessSubmission = (
+  score: IGameScore,
+  stats: IUser["stats"],
+  rules: AnomalyRule[] = ANOMALY_RULES
+): AnomalyAssessment => {
+  const findings: AnomalyFinding[] = [];
+
+  for (const rule of rules) {
+    const result = rule.check(score, stats);
+    if (result) findings.push({ rule: rule.name, ...result });
+  }
+
+  return {
+    suspicion: Math.min(
+      findings.reduce((sum, finding) => sum + finding.weight, 0),
+      100
+    ),
+    findings,
+  };
+};
@@ -0,0 +1,66 @@
+import { bracketSize, roundName, seedPositions } from "./bracket";
+
+describe("bracketSize", () => {
+  it.each([
+    [0, 2],
+    [1, 2],
+    [2, 2],
+    [3, 4],
+    [5, 8],
+    [8, 8],
+    [9, 16],
+  ])("fits %i players in a bracket of %i", (players, size) => {
+    expect(bracketSize(players)).toBe(size);
+  });
+});
+
+describe("seedPositions", () => {
+  it("pairs the top seed with the lowest one", () => {
+    expect(seedPositions(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+  });
+
+  it("keeps the two top seeds in different halves", () => {
+    for (const size of [4, 8, 16, 32]) {
+      const positions = seedPositions(size);
+      const half = size / 2;
+
+      expect(positions.indexOf(1) < half).not.toBe(positions.indexOf(2) < half);
+    }
+  });
+
+  it("places every seed once and pairs seeds adding up to size + 1", () => {
+    const positions = seedPositions(16);
+
+    expect([...positions].sort((a, b) => a - b)).toEqual(
+      Array.from({ length: 16 }, (_, i) => i + 1)
+    );
+    for (let i = 0; i < positions.length; i += 2) {
+      expect(positions[i] + positions[i + 1]).toBe(17);
+    }
+  });
+
+  it("gives the byes of a 5-player bracket to the top three seeds", () => {
+    const positions = seedPositions(bracketSize(5));
+    const byes = [];
+
+    for (let i = 0; i < positions.length; i += 2) {
+      const [a, b] = [positions[i], positions[i + 1]];
+      if (b > 5) byes.push(a);
+      if (a > 5) byes.push(b);
+    }
+
+    expect(byes.sort()).toEqual([1, 2, 3]);
+  });
+});
+
+describe("roundName", () => {
+  it("names the last rounds and counts players before them", () => {
+    expect([1, 2, 3, 4, 5].map((round) => roundName(round, 5))).toEqual([
+      "Round of 32",
+      "Round of 16",
+      "Quarterfinal",
+      "Semifinal",
+      "Final",
+    ]);
+  });
+});
@@ -0,0 +1,32 @@
+// Smallest power of two that fits every player (at least 2)
+export const bracketSize = (players: number): number => {
+  let size = 2;
+  while (size < players) size *= 2;
+  return size;
+};
+
+// Seed numbers in bracket order for a standard draw: 1 plays the lowest
+// seed, and 1 and 2 can only meet in the final. Size 8 gives
+// [1, 8, 4, 5, 2, 7, 3, 6]; byes (seeds above the player count) fall to
+// the top seeds.
+export const seedPositions = (size: number): number[] => {
+  let positions = [1, 2];
+
+  while (positions.length < size) {
+    const total = positions.length * 2 + 1;
+    positions = positions.flatMap((seed) => [seed, total - seed]);
+  }
+
+  return positions;
+};
+
+// "Final", "Semifinal", "Quarterfinal", then "Round of 16" and up
+export const roundName = (round: number, totalRounds: number): string => {
+  const remaining = totalRounds - round;
+
+  if (remaining === 0) return "Final";
+  if (remaining === 1) return "Semifinal";
+  if (remaining === 2) return "Quarterfinal";
+
+  return `Round of ${2 ** (remaining + 1)}`;
+};
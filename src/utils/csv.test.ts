@@ -0,0 +1,38 @@
+import { parseCsv } from "./csv";
+
+describe("parseCsv", () => {
+  it("keys every row by the header", () => {
+    expect(parseCsv("subject,answer\nmath,2\nscience,0\n")).toEqual([
+      { subject: "math", answer: "2" },
+      { subject: "science", answer: "0" },
+    ]);
+  });
+
+  it("reads quoted fields with commas, doubled quotes and line breaks", () => {
+    const rows = parseCsv(
+      'prompt,choices\n"What is 2, plus 2?","4|""four""|5"\n"Line one\nline two",a|b'
+    );
+
+    expect(rows).toEqual([
+      { prompt: "What is 2, plus 2?", choices: '4|"four"|5' },
+      { prompt: "Line one\nline two", choices: "a|b" },
+    ]);
+  });
+
+  it("accepts Windows line endings, a byte order mark and blank lines", () => {
+    expect(parseCsv("\uFEFFsubject,answer\r\n\r\nmath,1\r\n  \r\n")).toEqual([
+      { subject: "math", answer: "1" },
+    ]);
+  });
+
+  it("trims values and fills missing columns with empty strings", () => {
+    expect(parseCsv(" subject , tags \n math \n")).toEqual([
+      { subject: "math", tags: "" },
+    ]);
+  });
+
+  it("returns no rows for an empty file or a header alone", () => {
+    expect(parseCsv("")).toEqual([]);
+    expect(parseCsv("subject,answer\n")).toEqual([]);
+  });
+});
@@ -0,0 +1,58 @@
+// Parse CSV text (RFC 4180): fields may be quoted, quotes inside quoted
+// fields are doubled and quoted fields may span lines. The first row is
+// the header; every other row becomes an object keyed by it. Blank lines
+// are skipped.
+export const parseCsv = (text: string): Array<Record<string, string>> => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const nonEmpty = rows.filter((r) => r.some((value) => value.trim() !== ""));
+  if (nonEmpty.length === 0) return [];
+
+  const header = nonEmpty[0].map((name) => name.trim());
+
+  return nonEmpty
+    .slice(1)
+    .map((values) =>
+      Object.fromEntries(
+        header.map((name, index) => [name, (values[index] || "").trim()])
+      )
+    );
+};
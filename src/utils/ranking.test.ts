@@ -0,0 +1,97 @@
+import { ILeaderboardEntry } from "../types";
+import { assignRanks, compareTieBreakers } from "./ranking";
+
+const entry = (
+  username: string,
+  points: number,
+  fields: Partial<ILeaderboardEntry> = {}
+): ILeaderboardEntry =>
+  ({
+    userId: username as any,
+    username,
+    accuracy: 80,
+    timeInSeconds: 60,
+    points,
+    submissions: 1,
+    rank: 0,
+    ...fields,
+  } as ILeaderboardEntry);
+
+const byPoints = (a: ILeaderboardEntry, b: ILeaderboardEntry) =>
+  b.points - a.points;
+
+const ranks = (convention: "standard" | "dense" | "ordinal") =>
+  assignRanks(
+    [entry("a", 500), entry("b", 400), entry("c", 400), entry("d", 300)],
+    byPoints,
+    convention
+  ).map((e) => e.rank);
+
+describe("assignRanks", () => {
+  it("skips the ranks tied players take up with the standard convention", () => {
+    expect(ranks("standard")).toEqual([1, 2, 2, 4]);
+  });
+
+  it("does not skip ranks with the dense convention", () => {
+    expect(ranks("dense")).toEqual([1, 2, 2, 3]);
+  });
+
+  it("gives everyone their own rank with the ordinal convention", () => {
+    expect(ranks("ordinal")).toEqual([1, 2, 3, 4]);
+  });
+
+  it("shares a rank across a whole group of tied players", () => {
+    const ranked = assignRanks(
+      [entry("a", 400), entry("b", 400), entry("c", 400), entry("d", 100)],
+      byPoints,
+      "standard"
+    );
+
+    expect(ranked.map((e) => e.rank)).toEqual([1, 1, 1, 4]);
+  });
+});
+
+describe("compareTieBreakers", () => {
+  const early = new Date("2026-01-01T10:00:00Z");
+  const late = new Date("2026-01-01T11:00:00Z");
+
+  it("applies the tie-breakers in order", () => {
+    const a = entry("a", 400, { submittedAt: late, submissions: 1 });
+    const b = entry("b", 400, { submittedAt: early, submissions: 3 });
+
+    expect(
+      compareTieBreakers(["earliest_submission", "fewest_submissions"])(a, b)
+    ).toBeGreaterThan(0);
+    expect(
+      compareTieBreakers(["fewest_submissions", "earliest_submission"])(a, b)
+    ).toBeLessThan(0);
+  });
+
+  it("moves on to the next tie-breaker while players are level", () => {
+    const a = entry("a", 400, { accuracy: 90, timeInSeconds: 80 });
+    const b = entry("b", 400, { accuracy: 90, timeInSeconds: 50 });
+
+    expect(
+      compareTieBreakers(["higher_accuracy", "faster_time"])(a, b)
+    ).toBeGreaterThan(0);
+  });
+
+  it("ranks a player without a submission time last on earliest submission", () => {
+    const a = entry("a", 400);
+    const b = entry("b", 400, { submittedAt: late });
+
+    expect(compareTieBreakers(["earliest_submission"])(a, b)).toBeGreaterThan(
+      0
+    );
+  });
+
+  it("leaves players tied when the chain is exhausted", () => {
+    const a = entry("a", 400);
+    const b = entry("b", 400);
+
+    expect(compareTieBreakers(["higher_accuracy", "more_points"])(a, b)).toBe(
+      0
+    );
+    expect(compareTieBreakers([])(a, b)).toBe(0);
+  });
+});
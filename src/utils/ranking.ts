@@ -0,0 +1,74 @@
+import { ILeaderboardEntry, RankingConvention, TieBreaker } from "../types";
+
+export const RANKING_CONVENTIONS: RankingConvention[] = [
+  "standard",
+  "dense",
+  "ordinal",
+];
+
+export const TIE_BREAKERS: TieBreaker[] = [
+  "earliest_submission",
+  "fewest_submissions",
+  "higher_accuracy",
+  "faster_time",
+  "more_points",
+];
+
+type Comparator<T> = (a: T, b: T) => number;
+
+const TIE_BREAKER_COMPARATORS: Record<
+  TieBreaker,
+  Comparator<ILeaderboardEntry>
+> = {
+  earliest_submission: (a, b) =>
+    (a.submittedAt?.getTime() ?? Infinity) -
+    (b.submittedAt?.getTime() ?? Infinity),
+  fewest_submissions: (a, b) => (a.submissions ?? 0) - (b.submissions ?? 0),
+  higher_accuracy: (a, b) => b.accuracy - a.accuracy,
+  faster_time: (a, b) => a.timeInSeconds - b.timeInSeconds,
+  more_points: (a, b) => b.points - a.points,
+};
+
+/**
+ * Compare leaderboard entries on each tie-breaker in turn; 0 means they
+ * are still tied after the whole chain
+ */
+export const compareTieBreakers =
+  (chain: TieBreaker[]): Comparator<ILeaderboardEntry> =>
+  (a, b) => {
+    for (const tieBreaker of chain) {
+      const order = TIE_BREAKER_COMPARATORS[tieBreaker](a, b);
+      if (order !== 0) return order;
+    }
+    return 0;
+  };
+
+/**
+ * Number entries already sorted best first. Entries `compare` calls equal
+ * share a rank: "standard" skips the ranks they take up (1-2-2-4),
+ * "dense" does not (1-2-2-3) and "ordinal" gives every entry its own rank
+ * in sorted order (1-2-3-4).
+ */
+export const assignRanks = <T extends { rank: number }>(
+  sorted: T[],
+  compare: Comparator<T>,
+  convention: RankingConvention
+): T[] => {
+  let dense = 0;
+
+  sorted.forEach((entry, index) => {
+    const previous = sorted[index - 1];
+    const tied =
+      convention !== "ordinal" && previous && compare(previous, entry) === 0;
+
+    if (tied) {
+      entry.rank = previous.rank;
+      return;
+    }
+
+    dense += 1;
+    entry.rank = convention === "dense" ? dense : index + 1;
+  });
+
+  return sorted;
+};
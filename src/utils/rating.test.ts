@@ -0,0 +1,55 @@
+import { DEFAULT_RATING, rateStandings } from "./rating";
+
+describe("rateStandings", () => {
+  it("matches the worked example of the Glicko-2 paper", () => {
+    // The player beats the 1400 and loses to the 1550 and the 1700
+    const [player] = rateStandings([
+      { rank: 3, rating: 1500, deviation: 200, volatility: 0.06 },
+      { rank: 4, rating: 1400, deviation: 30, volatility: 0.06 },
+      { rank: 1, rating: 1550, deviation: 100, volatility: 0.06 },
+      { rank: 1, rating: 1700, deviation: 300, volatility: 0.06 },
+    ]);
+
+    expect(player.rating).toBeCloseTo(1464.06, 1);
+    expect(player.deviation).toBeCloseTo(151.52, 1);
+    expect(player.volatility).toBeCloseTo(0.05999, 4);
+  });
+
+  it("moves the winner up and the loser down by the same amount", () => {
+    const [winner, loser] = rateStandings([
+      { rank: 1, ...DEFAULT_RATING },
+      { rank: 2, ...DEFAULT_RATING },
+    ]);
+
+    expect(winner.rating).toBeGreaterThan(1500);
+    expect(loser.rating).toBeLessThan(1500);
+    expect(winner.rating - 1500).toBeCloseTo(1500 - loser.rating, 6);
+  });
+
+  it("counts a shared rank as a draw", () => {
+    const [a, b] = rateStandings([
+      { rank: 1, ...DEFAULT_RATING },
+      { rank: 1, ...DEFAULT_RATING },
+    ]);
+
+    expect(a.rating).toBeCloseTo(1500, 6);
+    expect(b.rating).toBeCloseTo(1500, 6);
+    expect(a.deviation).toBeLessThan(DEFAULT_RATING.deviation);
+  });
+
+  it("only grows the uncertainty of a player without opponents", () => {
+    const [alone] = rateStandings([
+      { rank: 1, rating: 1700, deviation: 100, volatility: 0.06 },
+    ]);
+
+    expect(alone.rating).toBe(1700);
+    expect(alone.deviation).toBeGreaterThan(100);
+    expect(alone.volatility).toBe(0.06);
+  });
+
+  it("never lets the uncertainty grow past the starting deviation", () => {
+    const [alone] = rateStandings([{ rank: 1, ...DEFAULT_RATING }]);
+
+    expect(alone.deviation).toBe(DEFAULT_RATING.deviation);
+  });
+});
@@ -0,0 +1,143 @@
+// Glicko-2 (http://www.glicko.net/glicko/glicko2.pdf). Each league is one
+// rating period: a finishing position counts as a win against everyone
+// below, a loss against everyone above and a draw on a shared rank.
+
+export interface GlickoRating {
+  rating: number;
+  deviation: number;
+  volatility: number;
+}
+
+export interface RatedStanding extends GlickoRating {
+  rank: number;
+}
+
+export const DEFAULT_RATING: GlickoRating = {
+  rating: 1500,
+  deviation: 350,
+  volatility: 0.06,
+};
+
+export type SkillLevel = "beginner" | "intermediate" | "advanced" | "expert";
+
+// Rating range each league skill level accepts. The ranges overlap so a
+// player near a boundary can choose either level; a new player (1500) can
+// join beginner and intermediate leagues.
+export const SKILL_LEVEL_BANDS: Record<
+  SkillLevel,
+  { min: number | null; max: number | null }
+> = {
+  beginner: { min: null, max: 1500 },
+  intermediate: { min: 1300, max: 1800 },
+  advanced: { min: 1600, max: 2100 },
+  expert: { min: 1900, max: null },
+};
+
+// Constrains how fast volatility changes
+const TAU = 0.5;
+const SCALE = 173.7178;
+const CONVERGENCE = 0.000001;
+
+const g = (phi: number): number =>
+  1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+
+const expected = (mu: number, muJ: number, phiJ: number): number =>
+  1 / (1 + Math.exp(-g(phiJ) * (mu - muJ)));
+
+// Step 5 of the paper: the new volatility, by the Illinois algorithm
+const newVolatility = (
+  phi: number,
+  sigma: number,
+  v: number,
+  delta: number
+): number => {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number): number => {
+    const ex = Math.exp(x);
+    const d = phi * phi + v + ex;
+    return (
+      (ex * (delta * delta - phi * phi - v - ex)) / (2 * d * d) -
+      (x - a) / (TAU * TAU)
+    );
+  };
+
+  let low = a;
+  let high: number;
+  if (delta * delta > phi * phi + v) {
+    high = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) k += 1;
+    high = a - k * TAU;
+  }
+
+  let fLow = f(low);
+  let fHigh = f(high);
+  while (Math.abs(high - low) > CONVERGENCE) {
+    const next = low + ((low - high) * fLow) / (fHigh - fLow);
+    const fNext = f(next);
+
+    if (fNext * fHigh <= 0) {
+      low = high;
+      fLow = fHigh;
+    } else {
+      fLow /= 2;
+    }
+    high = next;
+    fHigh = fNext;
+  }
+
+  return Math.exp(low / 2);
+};
+
+/**
+ * New ratings for everyone in a finished league, in the same order as
+ * `standings`. Everybody is rated from the ratings they had before.
+ */
+export const rateStandings = (standings: RatedStanding[]): GlickoRating[] => {
+  const scaled = standings.map((player) => ({
+    mu: (player.rating - 1500) / SCALE,
+    phi: player.deviation / SCALE,
+  }));
+
+  return standings.map((player, i) => {
+    const { mu, phi } = scaled[i];
+    let inverseV = 0;
+    let improvement = 0;
+
+    standings.forEach((opponent, j) => {
+      if (j === i) return;
+
+      const gJ = g(scaled[j].phi);
+      const e = expected(mu, scaled[j].mu, scaled[j].phi);
+      const score =
+        player.rank < opponent.rank ? 1 : player.rank > opponent.rank ? 0 : 0.5;
+
+      inverseV += gJ * gJ * e * (1 - e);
+      improvement += gJ * (score - e);
+    });
+
+    // Nobody to compare with: only the uncertainty grows
+    if (inverseV === 0) {
+      return {
+        rating: player.rating,
+        deviation: Math.min(
+          Math.sqrt(phi * phi + player.volatility * player.volatility) * SCALE,
+          DEFAULT_RATING.deviation
+        ),
+        volatility: player.volatility,
+      };
+    }
+
+    const v = 1 / inverseV;
+    const sigma = newVolatility(phi, player.volatility, v, v * improvement);
+    const phiStar = Math.sqrt(phi * phi + sigma * sigma);
+    const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+
+    return {
+      rating: SCALE * (mu + newPhi * newPhi * improvement) + 1500,
+      deviation: SCALE * newPhi,
+      volatility: sigma,
+    };
+  });
+};
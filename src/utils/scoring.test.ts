@@ -0,0 +1,95 @@
+import { ILeague } from "../types";
+import { SCORING_STRATEGIES, scoringStrategyFor } from "./scoring";
+
+const rules = (overrides: Partial<ILeague["rules"]> = {}) =>
+  ({
+    scoringMethod: "accuracy_then_time",
+    scoringWeights: { accuracy: 1, time: 0.1, points: 0 },
+    bestOf: 3,
+    maxSubmissions: 3,
+    skillLevel: "intermediate",
+    tieBreakers: [],
+    rankingConvention: "standard",
+    includeZeroPoints: false,
+    ...overrides,
+  } as ILeague["rules"]);
+
+const line = (accuracy: number, timeInSeconds: number, points: number) => ({
+  accuracy,
+  timeInSeconds,
+  points,
+});
+
+describe("scoring strategies", () => {
+  it("ranks on accuracy, then on the faster time", () => {
+    const { compare } = SCORING_STRATEGIES.accuracy_then_time;
+
+    expect(compare(line(90, 80, 0), line(80, 40, 0), rules())).toBeLessThan(0);
+    expect(compare(line(90, 80, 0), line(90, 40, 0), rules())).toBeGreaterThan(
+      0
+    );
+    expect(compare(line(90, 40, 10), line(90, 40, 99), rules())).toBe(0);
+  });
+
+  it("ranks on time, then on accuracy", () => {
+    const { compare } = SCORING_STRATEGIES.time_then_accuracy;
+
+    expect(compare(line(50, 30, 0), line(100, 31, 0), rules())).toBeLessThan(0);
+    expect(compare(line(50, 30, 0), line(100, 30, 0), rules())).toBeGreaterThan(
+      0
+    );
+  });
+
+  it("ranks on points only", () => {
+    const { compare } = SCORING_STRATEGIES.points_only;
+
+    expect(compare(line(10, 99, 500), line(100, 1, 400), rules())).toBeLessThan(
+      0
+    );
+  });
+
+  it("ranks on the weighted score", () => {
+    const weighted = rules({
+      scoringMethod: "weighted",
+      scoringWeights: { accuracy: 2, time: 0.5, points: 0.1 },
+    });
+    const { compare, score } = SCORING_STRATEGIES.weighted;
+
+    // 80 × 2 − 60 × 0.5 + 300 × 0.1
+    expect(score!(line(80, 60, 300), weighted)).toBe(160);
+    expect(
+      compare(line(80, 60, 300), line(90, 100, 200), weighted)
+    ).toBeLessThan(0);
+  });
+
+  it("averages the best submissions, counting missing ones as 0", () => {
+    const { aggregate } = SCORING_STRATEGIES.best_n_average;
+    const submissions = [
+      line(80, 60, 300),
+      line(100, 40, 500),
+      line(20, 90, 100),
+      line(60, 50, 200),
+    ];
+
+    expect(aggregate!(submissions, rules({ bestOf: 3 }))).toEqual(
+      line(80, 50, 333.33)
+    );
+    expect(aggregate!(submissions.slice(0, 1), rules({ bestOf: 3 }))).toEqual(
+      line(26.67, 60, 100)
+    );
+  });
+
+  it("adds up points and time and averages accuracy", () => {
+    const { aggregate } = SCORING_STRATEGIES.cumulative_points;
+
+    expect(aggregate!([line(80, 60, 300), line(90, 40, 500)], rules())).toEqual(
+      line(85, 100, 800)
+    );
+  });
+
+  it("ranks by points when the method is unknown", () => {
+    expect(scoringStrategyFor(rules({ scoringMethod: "unknown" as any }))).toBe(
+      SCORING_STRATEGIES.points_only
+    );
+  });
+});
@@ -0,0 +1,102 @@
+import { IGameScore, ILeague, ScoringMethod } from "../types";
+
+// What a player is ranked on: a single submission, or several combined
+export type ScoreLine = Pick<
+  IGameScore,
+  "accuracy" | "timeInSeconds" | "points"
+>;
+
+type ScoringRules = ILeague["rules"];
+
+// A way to rank scores. `compare` orders two submissions or standings,
+// better first (negative when `a` is better, 0 on a tie). `aggregate`
+// combines a player's counted submissions into their standing; without
+// it players stand on their best submission. `score` is the single
+// number the method ranks on, when it has one.
+export interface ScoringStrategy {
+  compare(a: ScoreLine, b: ScoreLine, rules: ScoringRules): number;
+  aggregate?(submissions: IGameScore[], rules: ScoringRules): ScoreLine;
+  score?(line: ScoreLine, rules: ScoringRules): number;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const byPoints = (a: ScoreLine, b: ScoreLine): number => b.points - a.points;
+
+const weightedScore = (line: ScoreLine, rules: ScoringRules): number => {
+  const { accuracy, time, points } = rules.scoringWeights;
+
+  return round2(
+    line.accuracy * accuracy - line.timeInSeconds * time + line.points * points
+  );
+};
+
+export const SCORING_STRATEGIES: Record<ScoringMethod, ScoringStrategy> = {
+  accuracy_then_time: {
+    compare: (a, b) =>
+      b.accuracy - a.accuracy || a.timeInSeconds - b.timeInSeconds,
+  },
+
+  time_then_accuracy: {
+    compare: (a, b) =>
+      a.timeInSeconds - b.timeInSeconds || b.accuracy - a.accuracy,
+  },
+
+  points_only: {
+    compare: byPoints,
+  },
+
+  // accuracy × w1 − time × w2 + points × w3
+  weighted: {
+    compare: (a, b, rules) => weightedScore(b, rules) - weightedScore(a, rules),
+    score: weightedScore,
+  },
+
+  // Mean of the best `bestOf` submissions by points. Missing submissions
+  // count as 0 points and 0% accuracy; time is averaged over the ones
+  // played.
+  best_n_average: {
+    compare: byPoints,
+    aggregate: (submissions, rules) => {
+      const best = [...submissions].sort(byPoints).slice(0, rules.bestOf);
+      const played = best.length || 1;
+
+      return {
+        accuracy: round2(
+          best.reduce((sum, s) => sum + s.accuracy, 0) / rules.bestOf
+        ),
+        timeInSeconds: round2(
+          best.reduce((sum, s) => sum + s.timeInSeconds, 0) / played
+        ),
+        points: round2(
+          best.reduce((sum, s) => sum + s.points, 0) / rules.bestOf
+        ),
+      };
+    },
+  },
+
+  // Points of every submission added up; accuracy is averaged and time
+  // added up
+  cumulative_points: {
+    compare: byPoints,
+    aggregate: (submissions) => ({
+      accuracy: round2(
+        submissions.reduce((sum, s) => sum + s.accuracy, 0) /
+          (submissions.length || 1)
+      ),
+      timeInSeconds: submissions.reduce((sum, s) => sum + s.timeInSeconds, 0),
+      points: submissions.reduce((sum, s) => sum + s.points, 0),
+    }),
+  },
+};
+
+export const SCORING_METHODS = Object.keys(
+  SCORING_STRATEGIES
+) as ScoringMethod[];
+
+/**
+ * The strategy for a league's scoring method, ranking by points when the
+ * method is unknown
+ */
+export const scoringStrategyFor = (rules: ScoringRules): ScoringStrategy =>
+  SCORING_STRATEGIES[rules.scoringMethod] || SCORING_STRATEGIES.points_only;
@@ -0,0 +1,28 @@
+import crypto from "crypto";
+
+// Generate a random opaque token suitable for refresh/verification links
+export const generateToken = (bytes: number = 48): string =>
+  crypto.randomBytes(bytes).toString("hex");
+
+// Short code people can type in, without look-alike characters (0/O, 1/I)
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+export const generateCode = (length: number = 8): string =>
+  Array.from(
+    { length },
+    () => CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)]
+  ).join("");
+
+// Tokens are stored as SHA-256 hashes so a database leak cannot be replayed
+export const hashToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+// Constant-time string comparison (hashes, shared secrets)
+export const safeEqual = (a: string, b: string): boolean => {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+
+  if (bufferA.length !== bufferB.length) return false;
+
+  return crypto.timingSafeEqual(bufferA, bufferB);
+};
@@ -0,0 +1,91 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  currentTimeStep,
+  generateTotp,
+  generateTotpSecret,
+  verifyTotp,
+} from "./totp";
+
+// The SHA-1 seed of the RFC 6238 test vectors
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+describe("base32", () => {
+  it("encodes and decodes the RFC 4648 examples", () => {
+    expect(base32Encode(Buffer.from("foobar"))).toBe("MZXW6YTBOI");
+    expect(base32Decode("MZXW6YTBOI======").toString()).toBe("foobar");
+  });
+
+  it("decodes lowercase secrets with spaces", () => {
+    expect(base32Decode("mzxw 6ytb oi").toString()).toBe("foobar");
+  });
+
+  it("rejects characters outside the alphabet", () => {
+    expect(() => base32Decode("MZXW1")).toThrow("Invalid base32 character");
+  });
+
+  it("generates 160-bit secrets", () => {
+    expect(base32Decode(generateTotpSecret())).toHaveLength(20);
+  });
+});
+
+describe("generateTotp", () => {
+  it.each([
+    [59, "287082"],
+    [1111111109, "081804"],
+    [1111111111, "050471"],
+    [1234567890, "005924"],
+    [2000000000, "279037"],
+  ])("matches the RFC 6238 vector at %i seconds", (seconds, code) => {
+    expect(generateTotp(RFC_SECRET, currentTimeStep(seconds * 1000))).toBe(
+      code
+    );
+  });
+});
+
+describe("verifyTotp", () => {
+  const now = 1234567890 * 1000;
+  const step = currentTimeStep(now);
+
+  it("returns the step of a current code", () => {
+    expect(verifyTotp(RFC_SECRET, "005924", 1, now)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, "005 924", 1, now)).toBe(step);
+  });
+
+  it("allows one step of clock drift either way by default", () => {
+    const previous = generateTotp(RFC_SECRET, step - 1);
+    const next = generateTotp(RFC_SECRET, step + 1);
+
+    expect(verifyTotp(RFC_SECRET, previous, 1, now)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, next, 1, now)).toBe(step + 1);
+    expect(verifyTotp(RFC_SECRET, previous, 0, now)).toBeNull();
+  });
+
+  it("rejects old, wrong and malformed codes", () => {
+    expect(
+      verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), 1, now)
+    ).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "000000", 1, now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "12345", 1, now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "abcdef", 1, now)).toBeNull();
+  });
+});
+
+describe("buildOtpauthUri", () => {
+  it("builds a key URI for authenticator apps", () => {
+    const uri = new URL(
+      buildOtpauthUri("MZXW6YTBOI", "ada@example.com", "50cube")
+    );
+
+    expect(`${uri.protocol}//${uri.host}`).toBe("otpauth://totp");
+    expect(decodeURIComponent(uri.pathname)).toBe("/50cube:ada@example.com");
+    expect(Object.fromEntries(uri.searchParams)).toEqual({
+      secret: "MZXW6YTBOI",
+      issuer: "50cube",
+      algorithm: "SHA1",
+      digits: "6",
+      period: "30",
+    });
+  });
+});